@@ -3,8 +3,15 @@
 // ============================================
 
 import { HttpClient } from "./http.js";
+import { AgentSchema } from "./validation.js";
+import { compareBy, paginateOffset, searchPages } from "./paginate.js";
+import type { PageIterator } from "./paginate.js";
 import {
   Agent,
+  CallOptions,
+  IterateOptions,
+  AgentSearchParams,
+  SearchResult,
   CreateAgentRequest,
   SelfRegisterAgentRequest,
   UpdateAgentRequest,
@@ -18,55 +25,58 @@ import {
 export class AgentsModule {
   constructor(private http: HttpClient) {}
 
-  private coerceList(response: any): Agent[] {
-    if (response?.items && Array.isArray(response.items)) return response.items;
-    if (response?.agents && Array.isArray(response.agents)) return response.agents;
-    return [];
-  }
-
-  private coerceItem(response: any): Agent {
-    if (response?.item) return response.item;
-    if (response?.agent) return response.agent;
-    return response as Agent;
-  }
-
   /**
    * List all registered agents
    * @param params - Query parameters for pagination
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async list(params?: ListAgentsParams): Promise<Agent[]> {
-    const response = await this.http.get<any>("/api/agents", {
+  async list(params?: ListAgentsParams, options?: CallOptions): Promise<Agent[]> {
+    const response = await this.http.get<unknown>("/api/agents", {
       limit: params?.limit,
       offset: params?.offset,
-    });
-    return this.coerceList(response);
+    }, options);
+    return this.http.validator.list(response, AgentSchema, "agents", "GET /api/agents");
+  }
+
+  /**
+   * Iterate every registered agent, fetching pages as the loop advances
+   * @param options - Page size, item limit, concurrency and per-call options
+   */
+  iterate(options?: IterateOptions): PageIterator<Agent> {
+    return paginateOffset(async (limit, offset, callOptions) => {
+      const response = await this.http.get<unknown>("/api/agents", { limit, offset }, callOptions);
+      return this.http.validator.page(response, AgentSchema, "agents", "GET /api/agents");
+    }, options);
   }
 
   /**
    * Get a specific agent by ID
    * @param id - Agent UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async get(id: string): Promise<Agent> {
-    const response = await this.http.get<any>(`/api/agents/${id}`);
-    return this.coerceItem(response);
+  async get(id: string, options?: CallOptions): Promise<Agent> {
+    const response = await this.http.get<unknown>(`/api/agents/${id}`, undefined, options);
+    return this.http.validator.item(response, AgentSchema, "agent", "GET /api/agents/:id");
   }
 
   /**
    * Get an agent's skill sheet (markdown)
    * @param id - Agent UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async getSkillSheet(id: string): Promise<string> {
-    return this.http.get<string>(`/api/agents/${id}/skill.md`);
+  async getSkillSheet(id: string, options?: CallOptions): Promise<string> {
+    return this.http.get<string>(`/api/agents/${id}/skill.md`, undefined, options);
   }
 
   /**
    * Register a new agent
    * Requires authentication
    * @param data - Agent registration data
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async register(data: CreateAgentRequest): Promise<Agent> {
-    const response = await this.http.post<any>("/api/agents", data);
-    return this.coerceItem(response);
+  async register(data: CreateAgentRequest, options?: CallOptions): Promise<Agent> {
+    const response = await this.http.post<unknown>("/api/agents", data, options);
+    return this.http.validator.item(response, AgentSchema, "agent", "POST /api/agents");
   }
 
   /**
@@ -74,46 +84,52 @@ export class AgentsModule {
    * Requires authentication and ownership
    * @param id - Agent UUID
    * @param data - Fields to update
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async update(id: string, data: UpdateAgentRequest): Promise<Agent> {
-    const response = await this.http.patch<any>(`/api/agents/${id}`, data);
-    return this.coerceItem(response);
+  async update(id: string, data: UpdateAgentRequest, options?: CallOptions): Promise<Agent> {
+    const response = await this.http.patch<unknown>(`/api/agents/${id}`, data, options);
+    return this.http.validator.item(response, AgentSchema, "agent", "PATCH /api/agents/:id");
   }
 
   /**
    * Get the claimed agent profile bound to the authenticated executor wallet.
    */
-  async runtimeMe(): Promise<Agent> {
-    const response = await this.http.get<any>("/api/agents/runtime/me");
-    return this.coerceItem(response);
+  async runtimeMe(options?: CallOptions): Promise<Agent> {
+    const response = await this.http.get<unknown>("/api/agents/runtime/me", undefined, options);
+    return this.http.validator.item(response, AgentSchema, "agent", "GET /api/agents/runtime/me");
   }
 
   /**
    * Update the agent profile bound to the authenticated executor wallet.
    * Name and executor wallet binding are not editable.
    */
-  async updateMyProfile(data: UpdateAgentRequest): Promise<Agent> {
-    const response = await this.http.patch<any>("/api/agents/runtime/me", data);
-    return this.coerceItem(response);
+  async updateMyProfile(data: UpdateAgentRequest, options?: CallOptions): Promise<Agent> {
+    const response = await this.http.patch<unknown>("/api/agents/runtime/me", data, options);
+    return this.http.validator.item(response, AgentSchema, "agent", "PATCH /api/agents/runtime/me");
   }
 
   /**
    * Upload an agent avatar (owner only).
    * Sends base64 image data; API stores it as a data URL.
    */
-  async uploadAvatar(id: string, data: UploadAgentAvatarRequest): Promise<Agent> {
-    const response = await this.http.post<any>(`/api/agents/${id}/avatar`, data);
-    return this.coerceItem(response);
+  async uploadAvatar(
+    id: string,
+    data: UploadAgentAvatarRequest,
+    options?: CallOptions
+  ): Promise<Agent> {
+    const response = await this.http.post<unknown>(`/api/agents/${id}/avatar`, data, options);
+    return this.http.validator.item(response, AgentSchema, "agent", "POST /api/agents/:id/avatar");
   }
 
   /**
    * Runtime self-register (draft) to be claimed by an owner wallet.
    * Requires authentication as the runtime wallet.
    */
-  async selfRegister(data: SelfRegisterAgentRequest): Promise<string> {
+  async selfRegister(data: SelfRegisterAgentRequest, options?: CallOptions): Promise<string> {
     const response = await this.http.post<{ agentId: string }>(
       "/api/agents/self-register",
-      data
+      data,
+      options
     );
     return response.agentId;
   }
@@ -121,18 +137,21 @@ export class AgentsModule {
   /**
    * List agents awaiting claim by the authenticated wallet.
    */
-  async pendingClaims(): Promise<Agent[]> {
-    const response = await this.http.get<any>("/api/agents/pending-claims");
-    return this.coerceList(response);
+  async pendingClaims(options?: CallOptions): Promise<Agent[]> {
+    const response = await this.http.get<unknown>("/api/agents/pending-claims", undefined, options);
+    return this.http.validator.list(response, AgentSchema, "agents", "GET /api/agents/pending-claims");
   }
 
   /**
    * Claim ownership of a draft agent.
    * @param id - Agent UUID to claim
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async claim(id: string): Promise<{ success: boolean; agentId: string }> {
+  async claim(id: string, options?: CallOptions): Promise<{ success: boolean; agentId: string }> {
     return this.http.post<{ success: boolean; agentId: string }>(
-      `/api/agents/${id}/claim`
+      `/api/agents/${id}/claim`,
+      undefined,
+      options
     );
   }
 
@@ -147,83 +166,129 @@ export class AgentsModule {
   /**
    * Get EIP-8004 registration file for an agent.
    * @param id - Agent UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async getRegistration(id: string): Promise<Eip8004RegistrationResponse> {
+  async getRegistration(id: string, options?: CallOptions): Promise<Eip8004RegistrationResponse> {
     return this.http.get<Eip8004RegistrationResponse>(
-      `/api/agents/${id}/registration.json`
+      `/api/agents/${id}/registration.json`,
+      undefined,
+      options
     );
   }
 
   /**
    * Get EIP-8004 feedback/reputation for an agent.
    * @param id - Agent UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async getFeedback(id: string): Promise<Eip8004FeedbackResponse> {
-    return this.http.get<Eip8004FeedbackResponse>(`/api/agents/${id}/feedback`);
+  async getFeedback(id: string, options?: CallOptions): Promise<Eip8004FeedbackResponse> {
+    return this.http.get<Eip8004FeedbackResponse>(`/api/agents/${id}/feedback`, undefined, options);
   }
 
   /**
    * Submit EIP-8004 feedback for an agent.
    * @param id - Agent UUID
    * @param data - Feedback data (score 1-5 or value 0-100)
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async submitFeedback(id: string, data: SubmitFeedbackRequest): Promise<any> {
-    return this.http.post(`/api/agents/${id}/feedback`, data);
+  async submitFeedback(id: string, data: SubmitFeedbackRequest, options?: CallOptions): Promise<any> {
+    return this.http.post(`/api/agents/${id}/feedback`, data, options);
   }
 
   /**
-   * Find agents by tags (client-side filtering)
+   * Search every claimed agent rather than one page. The API has no agent
+   * filters, so criteria are matched client-side while paging through the list.
+   * @param params - Criteria (combined with AND), sorting and result limit
+   * @param options - Page size, scan limit (`maxItems`), concurrency and per-call options
+   */
+  async search(params: AgentSearchParams = {}, options?: IterateOptions): Promise<SearchResult<Agent>> {
+    const tags = params.tags?.map((t) => t.toLowerCase()) ?? [];
+    const { minHourlyRate: minRate, maxHourlyRate: maxRate } = params;
+
+    const matches = (agent: Agent) => {
+      if (params.pricingModel && agent.pricingModel !== params.pricingModel) return false;
+      if (params.verified !== undefined && agent.verified !== params.verified) return false;
+      if (minRate !== undefined || maxRate !== undefined) {
+        if (agent.hourlyRate === undefined) return false;
+        if (minRate !== undefined && agent.hourlyRate < minRate) return false;
+        if (maxRate !== undefined && agent.hourlyRate > maxRate) return false;
+      }
+      if (tags.length === 0) return true;
+      const agentTags = agent.tags.map((t) => t.toLowerCase());
+      return params.tagMatch === "all"
+        ? tags.every((t) => agentTags.includes(t))
+        : tags.some((t) => agentTags.includes(t));
+    };
+
+    const sortKeys = {
+      hourlyRate: (agent: Agent) => agent.hourlyRate,
+      createdAt: (agent: Agent) => Date.parse(agent.createdAt),
+      name: (agent: Agent) => agent.name.toLowerCase(),
+    };
+
+    return searchPages(this.iterate(options), matches, {
+      compare: params.sortBy && compareBy(sortKeys[params.sortBy], params.order),
+      limit: params.limit,
+      maxItems: options?.maxItems,
+    });
+  }
+
+  /**
+   * Find agents by tags (any of them, unless `tagMatch: "all"`)
    * @param tags - Tags to match
-   * @param params - Additional query parameters
-   */
-  async findByTags(tags: string[], params?: ListAgentsParams): Promise<Agent[]> {
-    const agents = await this.list(params);
-    const lowerTags = tags.map(t => t.toLowerCase());
-    
-    return agents.filter(agent =>
-      agent.tags.some(tag => lowerTags.includes(tag.toLowerCase()))
-    );
+   * @param params - Further criteria, sorting and result limit
+   * @param options - Page size, scan limit, concurrency and per-call options
+   */
+  async findByTags(
+    tags: string[],
+    params?: Omit<AgentSearchParams, "tags">,
+    options?: IterateOptions
+  ): Promise<SearchResult<Agent>> {
+    return this.search({ ...params, tags }, options);
   }
 
   /**
    * Find agents by pricing model
    * @param pricingModel - Pricing model to filter by
-   * @param params - Additional query parameters
+   * @param params - Further criteria, sorting and result limit
+   * @param options - Page size, scan limit, concurrency and per-call options
    */
   async findByPricingModel(
     pricingModel: Agent["pricingModel"],
-    params?: ListAgentsParams
-  ): Promise<Agent[]> {
-    const agents = await this.list(params);
-    return agents.filter(agent => agent.pricingModel === pricingModel);
+    params?: Omit<AgentSearchParams, "pricingModel">,
+    options?: IterateOptions
+  ): Promise<SearchResult<Agent>> {
+    return this.search({ ...params, pricingModel }, options);
   }
 
   /**
-   * Find agents by hourly rate range
+   * Find hourly-priced agents by hourly rate range
    * @param minRate - Minimum hourly rate
    * @param maxRate - Maximum hourly rate
-   * @param params - Additional query parameters
+   * @param params - Further criteria, sorting and result limit
+   * @param options - Page size, scan limit, concurrency and per-call options
    */
   async findByHourlyRateRange(
     minRate: number,
     maxRate: number,
-    params?: ListAgentsParams
-  ): Promise<Agent[]> {
-    const agents = await this.list(params);
-    return agents.filter(agent =>
-      agent.pricingModel === "hourly" &&
-      agent.hourlyRate !== undefined &&
-      agent.hourlyRate >= minRate &&
-      agent.hourlyRate <= maxRate
+    params?: Omit<AgentSearchParams, "minHourlyRate" | "maxHourlyRate">,
+    options?: IterateOptions
+  ): Promise<SearchResult<Agent>> {
+    return this.search(
+      { pricingModel: "hourly", ...params, minHourlyRate: minRate, maxHourlyRate: maxRate },
+      options
     );
   }
 
   /**
    * Find verified agents only
-   * @param params - Additional query parameters
+   * @param params - Further criteria, sorting and result limit
+   * @param options - Page size, scan limit, concurrency and per-call options
    */
-  async findVerified(params?: ListAgentsParams): Promise<Agent[]> {
-    const agents = await this.list(params);
-    return agents.filter(agent => agent.verified);
+  async findVerified(
+    params?: Omit<AgentSearchParams, "verified">,
+    options?: IterateOptions
+  ): Promise<SearchResult<Agent>> {
+    return this.search({ ...params, verified: true }, options);
   }
 }
@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createHttpApprover,
+  createPaymentApprovalRequest,
+  requestPaymentApproval,
+} from "./approval.js";
+import type { HttpApprover } from "./approval.js";
+import { PaymentApprovalError } from "./types.js";
+import type { PaymentApprovalRequest, PaymentApprover } from "./types.js";
+
+const payTo = "0x00000000000000000000000000000000000000aa";
+
+function paymentRequest(amountUSDC: string): PaymentApprovalRequest {
+  return createPaymentApprovalRequest({
+    source: "fundJob",
+    mode: "facilitator",
+    amountUSDC,
+    payments: [{ role: "escrow", amountUSDC, payTo }],
+    chainId: 8453,
+    jobId: "job-1",
+    jobTitle: "Translate docs",
+  });
+}
+
+describe("requestPaymentApproval", () => {
+  it("skips the approver at or below the threshold", async () => {
+    const approve = vi.fn<PaymentApprover>(async () => false);
+    await requestPaymentApproval({ approve, thresholdUSDC: "10" }, paymentRequest("10"));
+    await requestPaymentApproval({ approve, thresholdUSDC: "10" }, paymentRequest("0.5"));
+    expect(approve).not.toHaveBeenCalled();
+  });
+
+  it("asks the approver above the threshold", async () => {
+    const approve = vi.fn<PaymentApprover>(async () => true);
+    const request = paymentRequest("10.01");
+    await requestPaymentApproval({ approve, thresholdUSDC: "10" }, request);
+    expect(approve).toHaveBeenCalledOnce();
+    expect(approve.mock.calls[0]![0]).toBe(request);
+  });
+
+  it("asks about every payment when no threshold is set", async () => {
+    const approve = vi.fn<PaymentApprover>(async () => true);
+    await requestPaymentApproval({ approve }, paymentRequest("0.01"));
+    expect(approve).toHaveBeenCalledOnce();
+  });
+
+  it("throws a denied PaymentApprovalError carrying the reason", async () => {
+    const request = paymentRequest("25");
+    const error = await requestPaymentApproval(
+      { approve: async () => ({ approved: false, reason: "over budget" }) },
+      request
+    ).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(PaymentApprovalError);
+    expect(error).toMatchObject({ reason: "denied", request });
+    expect((error as Error).message).toContain("over budget");
+  });
+
+  it("times out an undecided payment and aborts the approver", async () => {
+    let approverSignal: AbortSignal | undefined;
+    const request = paymentRequest("25");
+    const error = await requestPaymentApproval(
+      {
+        approve: (_, { signal }) => {
+          approverSignal = signal;
+          return new Promise<boolean>(() => {});
+        },
+        timeoutMs: 20,
+      },
+      request
+    ).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(PaymentApprovalError);
+    expect(error).toMatchObject({ reason: "timeout", request });
+    expect(approverSignal?.aborted).toBe(true);
+  });
+
+  it("rejects with the caller's abort reason", async () => {
+    const controller = new AbortController();
+    const waiting = requestPaymentApproval(
+      { approve: () => new Promise<boolean>(() => {}) },
+      paymentRequest("25"),
+      controller.signal
+    );
+    controller.abort(new Error("shutting down"));
+    await expect(waiting).rejects.toThrow("shutting down");
+  });
+});
+
+describe("createHttpApprover", () => {
+  let approver: HttpApprover | undefined;
+
+  afterEach(async () => {
+    await approver?.close();
+    approver = undefined;
+  });
+
+  function withToken(url: string, path: string, token: string | null): string {
+    const target = new URL(path, url);
+    if (token !== null) target.searchParams.set("token", token);
+    return target.toString();
+  }
+
+  it("rejects requests without the right token", async () => {
+    approver = createHttpApprover({ token: "s3cret", onPending: () => {} });
+    const url = await approver.start();
+    expect(new URL(url).searchParams.get("token")).toBe("s3cret");
+
+    for (const token of [null, "", "wrong", "s3cret-but-longer"]) {
+      const res = await fetch(withToken(url, "/requests", token));
+      expect(res.status).toBe(403);
+    }
+    const post = await fetch(withToken(url, "/requests/anything/approve", "wrong"), {
+      method: "POST",
+    });
+    expect(post.status).toBe(403);
+  });
+
+  it("lists pending payments and resolves the decision posted for them", async () => {
+    let pendingUrl = "";
+    approver = createHttpApprover({
+      token: "s3cret",
+      onPending: (_, url) => {
+        pendingUrl = url;
+      },
+    });
+    const request = paymentRequest("25");
+    const decision = requestPaymentApproval({ approve: approver.approve }, request);
+    await vi.waitFor(() => expect(pendingUrl).not.toBe(""));
+
+    const listed = await fetch(withToken(pendingUrl, "/requests", "s3cret"));
+    expect(listed.status).toBe(200);
+    expect(await listed.json()).toEqual([request]);
+
+    const approved = await fetch(
+      withToken(pendingUrl, `/requests/${request.id}/approve`, "s3cret"),
+      { method: "POST", redirect: "manual" }
+    );
+    expect(approved.status).toBe(303);
+    await expect(decision).resolves.toBeUndefined();
+
+    const again = await fetch(withToken(pendingUrl, `/requests/${request.id}/deny`, "s3cret"), {
+      method: "POST",
+      redirect: "manual",
+    });
+    expect(again.status).toBe(404);
+  });
+
+  it("denies a payment from the deny button", async () => {
+    let pendingUrl = "";
+    approver = createHttpApprover({ onPending: (_, url) => (pendingUrl = url) });
+    const request = paymentRequest("25");
+    const decision = requestPaymentApproval({ approve: approver.approve }, request);
+    await vi.waitFor(() => expect(pendingUrl).not.toBe(""));
+
+    const token = new URL(pendingUrl).searchParams.get("token")!;
+    expect(token).toMatch(/^[0-9a-f]{32}$/);
+    const denied = expect(decision).rejects.toMatchObject({ reason: "denied" });
+    await fetch(withToken(pendingUrl, `/requests/${request.id}/deny`, token), {
+      method: "POST",
+      redirect: "manual",
+    });
+    await denied;
+  });
+
+  it("denies everything still pending on close", async () => {
+    let notified = 0;
+    approver = createHttpApprover({ onPending: () => notified++ });
+    const decision = requestPaymentApproval({ approve: approver.approve }, paymentRequest("25"));
+    await vi.waitFor(() => expect(notified).toBe(1));
+
+    const denied = expect(decision).rejects.toMatchObject({ reason: "denied" });
+    await approver.close();
+    await denied;
+  });
+});
@@ -0,0 +1,297 @@
+// ============================================
+// Payment Approval - Human sign-off before signing
+// ============================================
+
+import { PaymentApprovalError } from "./types.js";
+import type {
+  PaymentApprovalConfig,
+  PaymentApprovalRequest,
+  PaymentApprover,
+} from "./types.js";
+
+/**
+ * Build an approval request, filling in the ID, timestamp and readable summary
+ */
+export function createPaymentApprovalRequest(
+  fields: Omit<PaymentApprovalRequest, "id" | "summary" | "createdAt">
+): PaymentApprovalRequest {
+  const request = {
+    ...fields,
+    id: globalThis.crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    summary: "",
+  };
+  request.summary = formatApprovalSummary(request);
+  return request;
+}
+
+/**
+ * Render an approval request as a short multi-line summary
+ */
+export function formatApprovalSummary(request: Omit<PaymentApprovalRequest, "summary">): string {
+  const lines = [`Approve MDP payment of ${request.amountUSDC} USDC?`];
+  if (request.jobTitle || request.jobId) {
+    lines.push(`  Job:    ${[request.jobTitle, request.jobId && `(${request.jobId})`].filter(Boolean).join(" ")}`);
+  }
+  if (request.agentName || request.agentWallet) {
+    lines.push(`  Agent:  ${[request.agentName, request.agentWallet && `(${request.agentWallet})`].filter(Boolean).join(" ")}`);
+  }
+  lines.push(
+    `  Mode:   ${request.mode === "contract" ? "contract escrow" : "facilitator escrow"}` +
+      (request.escrowContract ? ` via ${request.escrowContract}` : "")
+  );
+  for (const payment of request.payments) {
+    const label = `${payment.role[0]!.toUpperCase()}${payment.role.slice(1)}:`.padEnd(7);
+    lines.push(`  ${label} ${payment.amountUSDC} USDC -> ${payment.payTo}`);
+  }
+  lines.push(`  Chain:  ${request.chainId}`);
+  return lines.join("\n");
+}
+
+/**
+ * Ask `config.approve` about a payment and wait for the decision.
+ * Payments at or below `thresholdUSDC` pass without asking.
+ * @throws PaymentApprovalError when denied or not decided within `timeoutMs`
+ * @throws the abort reason when `signal` aborts first
+ */
+export async function requestPaymentApproval(
+  config: PaymentApprovalConfig,
+  request: PaymentApprovalRequest,
+  signal?: AbortSignal
+): Promise<void> {
+  if (Number(request.amountUSDC) <= Number(config.thresholdUSDC ?? 0)) return;
+  signal?.throwIfAborted();
+
+  const timeoutMs = config.timeoutMs ?? 300_000;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(
+    () =>
+      controller.abort(
+        new PaymentApprovalError(
+          `Payment of ${request.amountUSDC} USDC was not approved within ${timeoutMs}ms`,
+          "timeout",
+          request
+        )
+      ),
+    timeoutMs
+  );
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener("abort", () => reject(controller.signal.reason), {
+        once: true,
+      });
+    });
+    const decision = await Promise.race([
+      config.approve(request, { signal: controller.signal }),
+      aborted,
+    ]);
+    const { approved, reason } =
+      typeof decision === "boolean" ? { approved: decision, reason: undefined } : decision;
+    if (!approved) {
+      throw new PaymentApprovalError(
+        `Payment of ${request.amountUSDC} USDC was denied${reason ? `: ${reason}` : ""}`,
+        "denied",
+        request
+      );
+    }
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+// ============================================
+// Reference Approvers
+// ============================================
+
+/**
+ * Approve payments from an interactive terminal prompt ("y" approves).
+ * Prompts are shown one at a time; a timed-out prompt is withdrawn.
+ */
+export function createTerminalApprover(
+  options: { input?: NodeJS.ReadableStream; output?: NodeJS.WritableStream } = {}
+): PaymentApprover {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return (request, { signal }) => {
+    const run = queue.then(async () => {
+      signal.throwIfAborted();
+      const { createInterface } = await import("node:readline/promises");
+      const rl = createInterface({
+        input: options.input ?? process.stdin,
+        output: options.output ?? process.stdout,
+      });
+      try {
+        const answer = await rl.question(`${request.summary}\nApprove? [y/N] `, { signal });
+        return /^y(es)?$/i.test(answer.trim());
+      } finally {
+        rl.close();
+      }
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+}
+
+export interface HttpApproverOptions {
+  /** Port to listen on (default: 0, a random free port) */
+  port?: number;
+  /** Interface to bind (default: "127.0.0.1", never expose this publicly) */
+  host?: string;
+  /** Secret required in the `token` query parameter (default: random) */
+  token?: string;
+  /** Called when a payment starts waiting (default: logs the approval URL) */
+  onPending?: (request: PaymentApprovalRequest, url: string) => void;
+}
+
+export interface HttpApprover {
+  /** Pass as `PaymentApprovalConfig.approve` */
+  approve: PaymentApprover;
+  /** Start listening (done automatically on the first request); resolves to the page URL */
+  start(): Promise<string>;
+  /** Stop listening and deny every pending request */
+  close(): Promise<void>;
+}
+
+/**
+ * Approve payments from a browser on the same machine. Pending payments are
+ * listed at `http://127.0.0.1:<port>/?token=<token>` with Approve/Deny buttons;
+ * `GET /requests?token=` returns them as JSON.
+ */
+export function createHttpApprover(options: HttpApproverOptions = {}): HttpApprover {
+  const pending = new Map<
+    string,
+    { request: PaymentApprovalRequest; resolve: (decision: boolean) => void }
+  >();
+  let token = options.token;
+  let server: import("node:http").Server | undefined;
+  let starting: Promise<string> | undefined;
+
+  const start = () =>
+    (starting ??= (async () => {
+      const [http, { randomBytes, timingSafeEqual }] = await Promise.all([
+        import("node:http"),
+        import("node:crypto"),
+      ]);
+      token ??= randomBytes(16).toString("hex");
+      const expected = Buffer.from(token);
+      const authorized = (value: string | null) => {
+        const given = Buffer.from(value ?? "");
+        return given.length === expected.length && timingSafeEqual(given, expected);
+      };
+
+      server = http.createServer((req, res) => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        if (!authorized(url.searchParams.get("token"))) {
+          res.writeHead(403, { "content-type": "text/plain" }).end("Forbidden");
+          return;
+        }
+
+        const decision = /^\/requests\/([^/]+)\/(approve|deny)$/.exec(url.pathname);
+        if (req.method === "POST" && decision) {
+          const entry = pending.get(decision[1]!);
+          if (!entry) {
+            res.writeHead(404, { "content-type": "text/plain" }).end("No such pending payment");
+            return;
+          }
+          pending.delete(entry.request.id);
+          entry.resolve(decision[2] === "approve");
+          res.writeHead(303, { location: `/?token=${encodeURIComponent(token!)}` }).end();
+          return;
+        }
+
+        if (req.method === "GET" && url.pathname === "/requests") {
+          const requests = [...pending.values()].map((p) => p.request);
+          res.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify(requests));
+          return;
+        }
+
+        if (req.method === "GET" && url.pathname === "/") {
+          res
+            .writeHead(200, { "content-type": "text/html; charset=utf-8" })
+            .end(renderPage([...pending.values()].map((p) => p.request), token!));
+          return;
+        }
+
+        res.writeHead(404, { "content-type": "text/plain" }).end("Not found");
+      });
+
+      const host = options.host ?? "127.0.0.1";
+      await new Promise<void>((resolve, reject) => {
+        server!.once("error", reject);
+        server!.listen(options.port ?? 0, host, () => resolve());
+      });
+      // Pending approvals keep their own timers; the server alone must not keep the process alive
+      server.unref();
+      const address = server.address();
+      const port = typeof address === "object" && address ? address.port : options.port;
+      return `http://${host}:${port}/?token=${encodeURIComponent(token)}`;
+    })());
+
+  const approve: PaymentApprover = async (request, { signal }) => {
+    const url = await start();
+    signal.throwIfAborted();
+    return new Promise<boolean>((resolve, reject) => {
+      pending.set(request.id, { request, resolve });
+      signal.addEventListener(
+        "abort",
+        () => {
+          pending.delete(request.id);
+          reject(signal.reason);
+        },
+        { once: true }
+      );
+      const notify =
+        options.onPending ??
+        ((r: PaymentApprovalRequest, link: string) =>
+          // eslint-disable-next-line no-console
+          console.log(`[mdp-sdk] Payment of ${r.amountUSDC} USDC awaiting approval: ${link}`));
+      notify(request, url);
+    });
+  };
+
+  return {
+    approve,
+    start,
+    async close() {
+      for (const entry of pending.values()) entry.resolve(false);
+      pending.clear();
+      const current = server;
+      server = undefined;
+      starting = undefined;
+      if (current) await new Promise<void>((resolve) => current.close(() => resolve()));
+    },
+  };
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+function renderPage(requests: PaymentApprovalRequest[], token: string): string {
+  const query = `?token=${encodeURIComponent(token)}`;
+  const items = requests
+    .map(
+      (r) => `<li>
+  <pre>${escapeHtml(r.summary)}</pre>
+  <form method="post" action="/requests/${encodeURIComponent(r.id)}/approve${query}"><button>Approve</button></form>
+  <form method="post" action="/requests/${encodeURIComponent(r.id)}/deny${query}"><button>Deny</button></form>
+</li>`
+    )
+    .join("\n");
+  return `<!doctype html>
+<html>
+<head><meta charset="utf-8"><meta http-equiv="refresh" content="5"><title>MDP payment approvals</title></head>
+<body>
+<h1>Pending MDP payments</h1>
+${requests.length > 0 ? `<ul>\n${items}\n</ul>` : "<p>Nothing waiting for approval.</p>"}
+</body>
+</html>`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
@@ -0,0 +1,154 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MDPAgentSDK } from "./index.js";
+import { createPrivateKeySigner } from "./auth.js";
+import { createCassette } from "./cassette.js";
+import { createMockMdpServer } from "./mock.js";
+import { MemorySessionStore } from "./session.js";
+import { AuthenticationError, ServerError, SignInMessageError } from "./types.js";
+import type { TokenRefreshedEvent } from "./types.js";
+
+const KEY = `0x${"11".repeat(32)}` as const;
+
+describe("AuthModule.logout", () => {
+  it("clears the token, re-login and stored session even when the request fails", async () => {
+    const server = createMockMdpServer();
+    const failingLogout = (async (input: string | URL | Request, init?: RequestInit) => {
+      const url = new URL(input instanceof Request ? input.url : input);
+      if (url.pathname === "/api/auth/logout") return Response.json({ error: "down" }, { status: 500 });
+      return server.fetch(input, init);
+    }) as typeof fetch;
+    const sessionStore = new MemorySessionStore();
+    const signer = await createPrivateKeySigner(KEY);
+    const sdk = await MDPAgentSDK.createAuthenticated(
+      server.config({ fetch: failingLogout, sessionStore, retry: { maxAttempts: 1 } }),
+      signer
+    );
+    const wallet = await signer.getAddress();
+    expect(await sessionStore.get(wallet, server.baseUrl)).toBeDefined();
+
+    await expect(sdk.auth.logout()).rejects.toBeInstanceOf(ServerError);
+
+    expect(sdk.auth.isAuthenticated()).toBe(false);
+    expect(await sessionStore.get(wallet, server.baseUrl)).toBeUndefined();
+    // No silent re-login with the remembered signer
+    await expect(sdk.auth.me()).rejects.toBeInstanceOf(AuthenticationError);
+  });
+});
+
+describe("sign-in verification clock", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("re-logs in against the mock after its clock moves past token expiry", async () => {
+    const server = createMockMdpServer({ tokenTtlSeconds: 3600 });
+    const sdk = await MDPAgentSDK.createWithPrivateKey(server.config(), KEY);
+    const before = sdk.auth.getToken();
+
+    server.advanceTime(2 * 3600_000);
+
+    await expect(sdk.auth.me()).resolves.toBeDefined();
+    expect(sdk.auth.getToken()).not.toBe(before);
+  });
+
+  it("accepts a replayed sign-in message using the cassette clock", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "mdp-auth-"));
+    try {
+      const path = join(dir, "login.json");
+      const server = createMockMdpServer();
+      const recorder = await createCassette({ path, mode: "record", fetch: server.fetch });
+      await MDPAgentSDK.createWithPrivateKey({ ...server.config(), fetch: recorder.fetch }, KEY);
+      await recorder.save();
+
+      // Replay a day later, long after the recorded message expired
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(Date.now() + 86_400_000);
+
+      const stale = await createCassette({ path });
+      await expect(
+        MDPAgentSDK.createWithPrivateKey({ baseUrl: server.baseUrl, fetch: stale.fetch }, KEY)
+      ).rejects.toBeInstanceOf(SignInMessageError);
+
+      const cassette = await createCassette({ path });
+      const sdk = await MDPAgentSDK.createWithPrivateKey(
+        { baseUrl: server.baseUrl, fetch: cassette.fetch, signInVerification: { now: cassette.now } },
+        KEY
+      );
+      expect(sdk.auth.isAuthenticated()).toBe(true);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("re-authentication", () => {
+  /** The mock plus a count of sign-ins (POST /api/auth/verify) */
+  function countingServer(options?: Parameters<typeof createMockMdpServer>[0]) {
+    const server = createMockMdpServer(options);
+    const counts = { verify: 0, unauthorized: 0 };
+    const fetchFn = (async (input: string | URL | Request, init?: RequestInit) => {
+      const url = new URL(input instanceof Request ? input.url : input);
+      if (url.pathname === "/api/auth/verify") counts.verify++;
+      const response = await server.fetch(input, init);
+      if (response.status === 401) counts.unauthorized++;
+      return response;
+    }) as typeof fetch;
+    return { server, counts, fetchFn };
+  }
+
+  it("signs in once for concurrent requests rejected with 401", async () => {
+    const { server, counts, fetchFn } = countingServer();
+    const events: TokenRefreshedEvent[] = [];
+    const sdk = await MDPAgentSDK.createWithPrivateKey(
+      server.config({ fetch: fetchFn, reauth: { tokenRefreshed: (event) => void events.push(event) } }),
+      KEY
+    );
+    const before = sdk.auth.getToken();
+    // The server forgets every session
+    server.state.tokens.clear();
+
+    const results = await Promise.all([sdk.auth.me(), sdk.jobs.listMy(), sdk.payments.getSummary()]);
+    expect(results).toHaveLength(3);
+    expect(counts.unauthorized).toBe(3);
+    expect(counts.verify).toBe(2);
+    expect(sdk.auth.getToken()).not.toBe(before);
+    expect(events.map((e) => e.reason)).toEqual(["unauthorized"]);
+  });
+
+  it("refreshes a token about to expire once before concurrent requests", async () => {
+    // 30 s tokens, refreshed once fewer than 10 s are left
+    const { server, counts, fetchFn } = countingServer({ tokenTtlSeconds: 30 });
+    const events: TokenRefreshedEvent[] = [];
+    const sdk = await MDPAgentSDK.createWithPrivateKey(
+      server.config({ fetch: fetchFn, reauth: { refreshBeforeSeconds: 10, tokenRefreshed: (e) => void events.push(e) } }),
+      KEY
+    );
+    expect(counts.verify).toBe(1);
+
+    await Promise.all([sdk.auth.me(), sdk.jobs.listMy()]);
+    expect(counts.verify).toBe(1);
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(Date.now() + 25_000);
+      await Promise.all([sdk.auth.me(), sdk.jobs.listMy(), sdk.payments.getSummary()]);
+    } finally {
+      vi.useRealTimers();
+    }
+    expect(counts.verify).toBe(2);
+    expect(counts.unauthorized).toBe(0);
+    expect(events.map((e) => e.reason)).toEqual(["expiring"]);
+  });
+
+  it("does not re-authenticate with reauth: false", async () => {
+    const { server, counts, fetchFn } = countingServer();
+    const sdk = await MDPAgentSDK.createWithPrivateKey(server.config({ fetch: fetchFn, reauth: false }), KEY);
+    server.state.tokens.clear();
+
+    await expect(sdk.auth.me()).rejects.toBeInstanceOf(AuthenticationError);
+    expect(counts.verify).toBe(1);
+  });
+});
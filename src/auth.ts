@@ -2,40 +2,60 @@
 // Authentication Module
 // ============================================
 
-import { HttpClient } from "./http.js";
+import { HttpClient, decodeJwtExpiry } from "./http.js";
+import { verifySignInMessage } from "./siwe.js";
+import { AuthenticationError } from "./types.js";
 import type {
   User,
+  CallOptions,
   WalletSigner,
   PaymentSigner,
   AuthNonceResponse,
   AuthVerifyResponse,
+  SDKConfig,
 } from "./types.js";
 
 export class AuthModule {
-  constructor(private http: HttpClient) {}
+  private wallet?: string;
+
+  constructor(
+    private http: HttpClient,
+    private config: Pick<SDKConfig, "sessionStore" | "signInVerification"> = {}
+  ) {}
 
   /**
    * Get a nonce and sign-in message for wallet authentication
    * @param wallet - Ethereum wallet address
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async getNonce(wallet: string): Promise<AuthNonceResponse> {
-    return this.http.get<AuthNonceResponse>("/api/auth/nonce", { wallet });
+  async getNonce(wallet: string, options?: CallOptions): Promise<AuthNonceResponse> {
+    return this.http.get<AuthNonceResponse>("/api/auth/nonce", { wallet }, options);
   }
 
   /**
    * Verify wallet signature and receive JWT token
    * @param wallet - Ethereum wallet address
    * @param signature - Signed message from wallet
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async verify(wallet: string, signature: string): Promise<AuthVerifyResponse> {
+  async verify(wallet: string, signature: string, options?: CallOptions): Promise<AuthVerifyResponse> {
     const response = await this.http.post<AuthVerifyResponse>("/api/auth/verify", {
       wallet,
       signature,
-    });
+    }, options);
     
     // Store the token in the HTTP client for subsequent requests
     if (response.token) {
       this.http.setToken(response.token);
+      this.wallet = wallet;
+      await this.config.sessionStore?.set({
+        wallet,
+        baseUrl: this.http.getBaseUrl(),
+        token: response.token,
+        userId: response.user?.id,
+        expiresAt: decodeJwtExpiry(response.token)?.toISOString(),
+        savedAt: new Date().toISOString(),
+      });
     }
     
     return response;
@@ -43,31 +63,46 @@ export class AuthModule {
 
   /**
    * Full authentication flow using a wallet signer
-   * This handles the complete nonce -> sign -> verify flow
+   * This handles the complete nonce -> sign -> verify flow.
+   * The signer is remembered so an expired token can be replaced
+   * automatically (see `SDKConfig.reauth`). With a `sessionStore`, a stored
+   * token that `me()` still accepts is reused without signing.
    * @param signer - Wallet signer implementation
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async authenticate(signer: WalletSigner): Promise<AuthVerifyResponse> {
-    const wallet = await signer.getAddress();
-    const { message } = await this.getNonce(wallet);
-    const signature = await signer.signMessage(message);
-    return this.verify(wallet, signature);
+  async authenticate(signer: WalletSigner, options?: CallOptions): Promise<AuthVerifyResponse> {
+    this.http.setReauthenticator(undefined);
+    const response =
+      (await this.restoreSession(signer, options)) ?? (await this.signIn(signer, options));
+    this.http.setReauthenticator(() => this.signIn(signer));
+    return response;
   }
 
   /**
    * Get the currently authenticated user
    * @throws AuthenticationError if not authenticated
    */
-  async me(): Promise<User> {
-    const response = await this.http.get<{ user: User }>("/api/auth/me");
+  async me(options?: CallOptions): Promise<User> {
+    const response = await this.http.get<{ user: User }>("/api/auth/me", undefined, options);
     return response.user;
   }
 
   /**
-   * Logout and clear authentication
+   * Logout and clear authentication. Local state (token, re-login, stored
+   * session) is cleared even if the logout request fails.
    */
-  async logout(): Promise<void> {
-    await this.http.post("/api/auth/logout");
-    this.http.setToken(undefined);
+  async logout(options?: CallOptions): Promise<void> {
+    try {
+      await this.http.post("/api/auth/logout", undefined, options);
+    } finally {
+      this.http.setToken(undefined);
+      this.http.setReauthenticator(undefined);
+      if (this.wallet) {
+        const wallet = this.wallet;
+        this.wallet = undefined;
+        await this.config.sessionStore?.delete(wallet, this.http.getBaseUrl());
+      }
+    }
   }
 
   /**
@@ -91,6 +126,53 @@ export class AuthModule {
   getToken(): string | undefined {
     return this.http.getToken();
   }
+
+  /**
+   * Reuse a stored token for the signer's wallet if it has not expired and the
+   * API still accepts it; stale entries are removed.
+   */
+  private async restoreSession(
+    signer: WalletSigner,
+    options?: CallOptions
+  ): Promise<AuthVerifyResponse | undefined> {
+    const { sessionStore } = this.config;
+    if (!sessionStore) return undefined;
+    const wallet = await signer.getAddress();
+    const baseUrl = this.http.getBaseUrl();
+    const stored = await sessionStore.get(wallet, baseUrl);
+    if (!stored) return undefined;
+
+    const expiresAt = decodeJwtExpiry(stored.token);
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      await sessionStore.delete(wallet, baseUrl);
+      return undefined;
+    }
+
+    const previous = this.http.getToken();
+    this.http.setToken(stored.token);
+    try {
+      const user = await this.me(options);
+      this.wallet = wallet;
+      return { success: true, token: stored.token, user };
+    } catch (error) {
+      this.http.setToken(previous);
+      if (!(error instanceof AuthenticationError)) throw error;
+      await sessionStore.delete(wallet, baseUrl);
+      return undefined;
+    }
+  }
+
+  private async signIn(signer: WalletSigner, options?: CallOptions): Promise<AuthVerifyResponse> {
+    const wallet = await signer.getAddress();
+    const { nonce, message } = await this.getNonce(wallet, options);
+    options?.signal?.throwIfAborted();
+    // Never let the API (or whoever answers at baseUrl) choose what the wallet signs
+    if (this.config.signInVerification !== false) {
+      verifySignInMessage(message, { address: wallet, nonce }, this.config.signInVerification);
+    }
+    const signature = await signer.signMessage(message);
+    return this.verify(wallet, signature, options);
+  }
 }
 
 // ============================================
@@ -3,19 +3,33 @@
 // ============================================
 
 import { HttpClient } from "./http.js";
-import type { BazaarSearchParams, BazaarSearchResponse } from "./types.js";
+import type { BazaarSearchParams, BazaarSearchResponse, CallOptions } from "./types.js";
 
 export class BazaarModule {
   constructor(private http: HttpClient) {}
 
   /**
    * Search open jobs via the x402-gated bazaar endpoint.
+   * With `SDKConfig.x402` set, the SDK pays automatically and returns the
+   * settlement receipt as `payment`.
    * @param params - Optional search query and limit (1-25)
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async searchJobs(params?: BazaarSearchParams): Promise<BazaarSearchResponse> {
-    return this.http.get<BazaarSearchResponse>("/api/bazaar/jobs/search", {
-      q: params?.q,
-      limit: params?.limit,
-    });
+  async searchJobs(
+    params?: BazaarSearchParams,
+    options?: CallOptions
+  ): Promise<BazaarSearchResponse> {
+    const { data, payment } = await this.http.requestWithPayment<BazaarSearchResponse>(
+      "/api/bazaar/jobs/search",
+      {
+        ...options,
+        method: "GET",
+        params: {
+          q: params?.q,
+          limit: params?.limit,
+        },
+      }
+    );
+    return payment ? { ...data, payment } : data;
   }
 }
@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+// ============================================
+// Entry point of the `mdp` binary
+// ============================================
+
+import { runCli } from "./cli.js";
+
+void runCli(process.argv.slice(2), {
+  env: process.env,
+  stdout: process.stdout,
+  stderr: process.stderr,
+}).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,113 @@
+// ============================================
+// Response Cache - Shared cache for public reads
+// ============================================
+
+import type { RequestCache } from "./types.js";
+
+/**
+ * GET routes that may be cached. Per-identity routes (`/api/jobs/my`,
+ * `/api/agents/runtime/me`, pending claims, inboxes, payments...) are never
+ * cached; those in MDP_PER_IDENTITY_PATHS are cached per identity.
+ */
+export const MDP_CACHEABLE_PATHS: RegExp[] = [
+  /^\/api\/jobs$/,
+  /^\/api\/jobs\/(?!my$)[^/]+$/,
+  /^\/api\/agents$/,
+  /^\/api\/agents\/(?!pending-claims$)[^/]+$/,
+  /^\/api\/agents\/[^/]+\/(skill\.md|feedback)$/,
+  /^\/api\/ratings$/,
+];
+
+/**
+ * Cacheable routes whose responses can differ by who is signed in (an
+ * owner's view of their own agent), so a shared cache keeps one copy per
+ * token instead of serving one identity's copy to another
+ */
+export const MDP_PER_IDENTITY_PATHS: RegExp[] = [
+  /^\/api\/agents\/(?!pending-claims$)[^/]+$/,
+  /^\/api\/agents\/[^/]+\/(skill\.md|feedback)$/,
+];
+
+export interface ResponseCacheConfig {
+  /** Milliseconds an entry stays fresh (default: 30000) */
+  ttlMs?: number;
+  /** Maximum number of entries; the oldest is evicted first (default: 500) */
+  maxEntries?: number;
+  /** Paths that may be cached (default: MDP_CACHEABLE_PATHS) */
+  paths?: RegExp[];
+  /** Cacheable paths kept apart per identity (default: MDP_PER_IDENTITY_PATHS) */
+  perIdentityPaths?: RegExp[];
+}
+
+/**
+ * TTL cache for GET responses, shared across identities except on
+ * `perIdentityPaths`. Pass one instance as
+ * `SDKConfig.cache` to several SDK instances (see MDPFleet) so they share
+ * reads of jobs and agent profiles instead of each spending rate-limit quota.
+ * A successful write to a resource (e.g. PATCH /api/jobs/:id) drops cached
+ * reads of that resource type.
+ */
+export class ResponseCache implements RequestCache {
+  private entries = new Map<string, { value: unknown; expiresAt: number; path: string }>();
+  private ttlMs: number;
+  private maxEntries: number;
+  private paths: RegExp[];
+  private perIdentityPaths: RegExp[];
+
+  constructor(config: ResponseCacheConfig = {}) {
+    this.ttlMs = config.ttlMs ?? 30_000;
+    this.maxEntries = config.maxEntries ?? 500;
+    this.paths = config.paths ?? MDP_CACHEABLE_PATHS;
+    this.perIdentityPaths = config.perIdentityPaths ?? MDP_PER_IDENTITY_PATHS;
+  }
+
+  /** Whether GET responses for `path` may be cached */
+  isCacheable(path: string): boolean {
+    return matches(this.paths, path);
+  }
+
+  /** Whether cached responses for `path` are kept apart per identity */
+  isPerIdentity(path: string): boolean {
+    return matches(this.perIdentityPaths, path);
+  }
+
+  /** Fresh copy of a cached value, or undefined */
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return structuredClone(entry.value) as T;
+  }
+
+  set(key: string, value: unknown, path: string): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + this.ttlMs, path });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /** Drop cached reads of the resource type `path` belongs to (e.g. all of /api/jobs) */
+  invalidate(path: string): void {
+    const resource = path.split("?")[0]!.split("/").slice(0, 3).join("/");
+    for (const [key, entry] of this.entries) {
+      if (entry.path === resource || entry.path.startsWith(`${resource}/`)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+function matches(patterns: RegExp[], path: string): boolean {
+  const pathname = path.split("?")[0] ?? path;
+  return patterns.some((pattern) => pattern.test(pathname));
+}
@@ -0,0 +1,135 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MDPAgentSDK } from "./index.js";
+import { createPrivateKeySigner } from "./auth.js";
+import { createCassette } from "./cassette.js";
+import type { CassetteFile, UnmatchedRequestMode } from "./cassette.js";
+import { createMockMdpServer } from "./mock.js";
+import { CassetteMismatchError } from "./types.js";
+
+const KEY = `0x${"11".repeat(32)}` as const;
+
+/** Network stub answering every request with its own JSON body and a call count */
+function echoFetch() {
+  const calls: string[] = [];
+  const fetchFn = (async (input: string | URL | Request, init?: RequestInit) => {
+    const request = new Request(input, init);
+    calls.push(`${request.method} ${new URL(request.url).pathname}`);
+    const body = request.method === "GET" ? null : await request.text();
+    return Response.json({ call: calls.length, echo: body ? JSON.parse(body) : null });
+  }) as typeof fetch;
+  return { fetchFn, calls };
+}
+
+function post(fetchFn: typeof fetch, path: string, body: unknown) {
+  return fetchFn(`https://mdp.test${path}`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("createCassette", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "mdp-cassette-"));
+    path = join(dir, "cassette.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("redacts credentials, signatures and tokens when recording the mock", async () => {
+    const server = createMockMdpServer({ bazaarPriceUSDC: 0.01 });
+    const recorder = await createCassette({ path, mode: "record", fetch: server.fetch });
+    const sdk = await MDPAgentSDK.createWithPrivateKey(
+      server.config({
+        fetch: recorder.fetch,
+        x402: { signer: await createPrivateKeySigner(KEY), maxPriceUSDC: 0.05 },
+      }),
+      KEY
+    );
+    await sdk.auth.me();
+    await sdk.bazaar.searchJobs({ q: "anything" });
+    await recorder.save();
+
+    const text = await readFile(path, "utf8");
+    const file = JSON.parse(text) as CassetteFile;
+    expect(text).not.toContain(sdk.auth.getToken()!);
+
+    const verify = file.interactions.find((i) => i.request.path === "/api/auth/verify")!;
+    expect(verify.request.body).toMatchObject({ signature: "[REDACTED]" });
+    expect(verify.response.json).toMatchObject({ token: "[REDACTED]" });
+
+    const me = file.interactions.find((i) => i.request.path === "/api/auth/me")!;
+    expect(me.request.headers.authorization).toBe("[REDACTED]");
+
+    const paid = file.interactions.filter((i) => i.request.path === "/api/bazaar/jobs/search").at(-1)!;
+    expect(paid.request.headers["x-payment"]).toBe("[REDACTED]");
+  });
+
+  it("replays a request whose body keys come in a different order", async () => {
+    const network = echoFetch();
+    const recorder = await createCassette({ path, mode: "record", fetch: network.fetchFn });
+    await post(recorder.fetch, "/api/things", { a: 1, nested: { x: 1, y: 2 } });
+
+    const cassette = await createCassette({ path });
+    expect(cassette.mode).toBe("replay");
+    const response = await post(cassette.fetch, "/api/things", { nested: { y: 2, x: 1 }, a: 1 });
+    expect(await response.json()).toEqual({ call: 1, echo: { a: 1, nested: { x: 1, y: 2 } } });
+    expect(network.calls).toHaveLength(1);
+    expect(cassette.unused()).toEqual([]);
+  });
+
+  it("ignores ignoreKeys when matching", async () => {
+    const network = echoFetch();
+    const recorder = await createCassette({ path, mode: "record", fetch: network.fetchFn });
+    await post(recorder.fetch, "/api/things", { name: "x", sentAt: 1 });
+
+    const strict = await createCassette({ path });
+    await expect(post(strict.fetch, "/api/things", { name: "x", sentAt: 2 })).rejects.toBeInstanceOf(
+      CassetteMismatchError
+    );
+    const lenient = await createCassette({ path, ignoreKeys: ["sentAt"] });
+    expect((await post(lenient.fetch, "/api/things", { name: "x", sentAt: 2 })).status).toBe(200);
+  });
+
+  describe("unmatched requests", () => {
+    async function replayUnmatched(onUnmatched: UnmatchedRequestMode) {
+      const network = echoFetch();
+      const recorder = await createCassette({ path, mode: "record", fetch: network.fetchFn });
+      await post(recorder.fetch, "/api/recorded", {});
+      const cassette = await createCassette({ path, onUnmatched, fetch: network.fetchFn });
+      const result = await post(cassette.fetch, "/api/new", { n: 1 }).catch((e: unknown) => e);
+      const saved = JSON.parse(await readFile(path, "utf8")) as CassetteFile;
+      return { result, network, cassette, saved };
+    }
+
+    it("throws CassetteMismatchError with error", async () => {
+      const { result, network } = await replayUnmatched("error");
+      expect(result).toBeInstanceOf(CassetteMismatchError);
+      expect(network.calls).toEqual(["POST /api/recorded"]);
+    });
+
+    it("goes to the network without recording with passthrough", async () => {
+      const { result, network, cassette, saved } = await replayUnmatched("passthrough");
+      expect(await (result as Response).json()).toMatchObject({ call: 2 });
+      expect(network.calls).toEqual(["POST /api/recorded", "POST /api/new"]);
+      expect(cassette.interactions).toHaveLength(1);
+      expect(saved.interactions).toHaveLength(1);
+    });
+
+    it("goes to the network and appends the interaction with record", async () => {
+      const { result, network, cassette, saved } = await replayUnmatched("record");
+      expect(await (result as Response).json()).toMatchObject({ call: 2 });
+      expect(network.calls).toHaveLength(2);
+      expect(cassette.interactions).toHaveLength(2);
+      expect(saved.interactions.map((i) => i.request.path)).toEqual(["/api/recorded", "/api/new"]);
+    });
+  });
+});
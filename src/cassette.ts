@@ -0,0 +1,365 @@
+// ============================================
+// HTTP Cassettes - Record and replay API sessions
+// ============================================
+
+import { CassetteMismatchError } from "./types.js";
+import { getCurrentVersionFromPackageJson } from "./updates.js";
+
+/**
+ * - `record`: every request hits the network and the cassette is rewritten
+ * - `replay`: requests are served from the cassette
+ */
+export type CassetteMode = "record" | "replay";
+
+/**
+ * What to do with a request that has no recorded match during replay:
+ * - `error`: throw CassetteMismatchError
+ * - `passthrough`: send it to the network without recording
+ * - `record`: send it to the network and append it to the cassette
+ */
+export type UnmatchedRequestMode = "error" | "passthrough" | "record";
+
+export interface CassetteOptions {
+  /** Path of the JSON cassette file */
+  path: string;
+  /** Default: "replay" when the cassette file exists, otherwise "record" */
+  mode?: CassetteMode;
+  /** Handling of unmatched requests in replay mode (default: "error") */
+  onUnmatched?: UnmatchedRequestMode;
+  /** Network fetch used for recording and passthrough (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Extra header names to redact (case-insensitive) */
+  redactHeaders?: string[];
+  /** Extra JSON body keys to redact, at any depth */
+  redactKeys?: string[];
+  /** Query/body keys ignored when matching (e.g. timestamps) */
+  ignoreKeys?: string[];
+  /** Write the cassette after every recorded interaction (default: true) */
+  autoSave?: boolean;
+}
+
+export interface CassetteRequest {
+  method: string;
+  path: string;
+  query: Record<string, string | string[]>;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface CassetteResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  /** Parsed body for JSON responses */
+  json?: unknown;
+  /** Body for text responses */
+  text?: string;
+  /** Base64 body for binary responses */
+  base64?: string;
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+  recordedAt: string;
+}
+
+export interface CassetteFile {
+  version: 1;
+  /** SDK version the cassette was recorded with */
+  sdkVersion: string | null;
+  interactions: CassetteInteraction[];
+}
+
+export interface Cassette {
+  /** Fetch implementation to pass as `SDKConfig.fetch` */
+  readonly fetch: typeof fetch;
+  readonly mode: CassetteMode;
+  /** SDK version the loaded cassette was recorded with (null when unknown) */
+  readonly recordedWith: string | null;
+  /** Recorded interactions, in order */
+  readonly interactions: readonly CassetteInteraction[];
+  /** Interactions that have not been replayed yet */
+  unused(): CassetteInteraction[];
+  /** Write the cassette file */
+  save(): Promise<void>;
+  /**
+   * Clock to pass as `SignInVerificationConfig.now`: while replaying, when the
+   * last replayed interaction was recorded, so recorded sign-in messages are
+   * still within their validity window; otherwise the system clock
+   */
+  now(): Date;
+}
+
+/** Header names that never reach a cassette file */
+export const DEFAULT_REDACTED_HEADERS = [
+  "authorization",
+  "cookie",
+  "set-cookie",
+  "x-payment",
+  "x-api-key",
+];
+
+/** JSON keys whose values never reach a cassette file */
+export const DEFAULT_REDACTED_KEYS = [
+  "signature",
+  "token",
+  "paymentHeader",
+  "privateKey",
+  "walletSecret",
+  "apiKeySecret",
+  "password",
+  "mnemonic",
+];
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * Load (or start) a cassette that records request/response pairs to JSON and
+ * replays them later. Plug it in via `SDKConfig.fetch`:
+ *
+ * ```ts
+ * const cassette = await createCassette({ path: "test/cassettes/bidding.json" });
+ * const sdk = new MDPAgentSDK({ baseUrl, fetch: cassette.fetch });
+ * ```
+ *
+ * Requests match on method, path, and query/body normalized for key order.
+ * Redacted values (signatures, tokens, payment headers) compare equal, so a
+ * fresh signature replays the same recorded response. Identical requests
+ * replay in recorded order; once exhausted the last match repeats, which
+ * keeps polling loops deterministic.
+ */
+export async function createCassette(options: CassetteOptions): Promise<Cassette> {
+  const fs = await import("node:fs/promises");
+  const networkFetch = options.fetch ?? globalThis.fetch;
+  const onUnmatched = options.onUnmatched ?? "error";
+  const autoSave = options.autoSave ?? true;
+  const redactHeaders = new Set(
+    [...DEFAULT_REDACTED_HEADERS, ...(options.redactHeaders ?? [])].map((h) => h.toLowerCase())
+  );
+  const redactKeys = new Set([...DEFAULT_REDACTED_KEYS, ...(options.redactKeys ?? [])]);
+  const ignoreKeys = new Set(options.ignoreKeys ?? []);
+
+  let existing: CassetteFile | undefined;
+  try {
+    existing = JSON.parse(await fs.readFile(options.path, "utf8")) as CassetteFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+
+  const mode: CassetteMode = options.mode ?? (existing ? "replay" : "record");
+  if (mode === "replay" && !existing) {
+    throw new CassetteMismatchError(`Cassette not found: ${options.path}`, {
+      code: "CASSETTE_NOT_FOUND",
+    });
+  }
+
+  const interactions: CassetteInteraction[] = mode === "replay" ? [...existing!.interactions] : [];
+  const recordedWith = mode === "replay" ? existing!.sdkVersion : null;
+  const used = new Set<CassetteInteraction>();
+  const lastMatch = new Map<string, CassetteInteraction>();
+  let lastReplayed: CassetteInteraction | undefined;
+  let writes: Promise<void> = Promise.resolve();
+
+  const matchKey = (request: CassetteRequest) =>
+    [
+      request.method,
+      request.path,
+      canonical(omit(request.query, ignoreKeys)),
+      canonical(omit(request.body, ignoreKeys)),
+    ].join(" ");
+
+  const save = async () => {
+    const file: CassetteFile = {
+      version: 1,
+      sdkVersion: await getCurrentVersionFromPackageJson(),
+      interactions,
+    };
+    writes = writes.then(() => fs.writeFile(options.path, `${JSON.stringify(file, null, 2)}\n`));
+    return writes;
+  };
+
+  const record = async (request: CassetteRequest, send: () => Promise<Response>) => {
+    // Buffer once instead of clone(): Node may cancel a body whose clone is collected
+    const response = await send();
+    const body = await response.arrayBuffer();
+    const interaction: CassetteInteraction = {
+      request,
+      response: serializeResponse(response, body, redactHeaders, redactKeys),
+      recordedAt: new Date().toISOString(),
+    };
+    interactions.push(interaction);
+    used.add(interaction);
+    if (autoSave) await save();
+    return new Response(nullBody(response.status) ? null : body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+
+  const handle = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const body = nullBody(request.method) ? undefined : await request.text();
+    const serialized = serializeRequest(request, body, redactHeaders, redactKeys);
+    const send = () =>
+      networkFetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: body || undefined,
+        signal: request.signal,
+      });
+
+    if (mode === "record") return record(serialized, send);
+
+    const key = matchKey(serialized);
+    const match = interactions.find((i) => !used.has(i) && matchKey(i.request) === key);
+    if (match) {
+      used.add(match);
+      lastMatch.set(key, match);
+      lastReplayed = match;
+      return deserializeResponse(match.response);
+    }
+
+    const repeat = lastMatch.get(key);
+    if (repeat) {
+      lastReplayed = repeat;
+      return deserializeResponse(repeat.response);
+    }
+
+    if (onUnmatched === "passthrough") return send();
+    if (onUnmatched === "record") return record(serialized, send);
+    throw new CassetteMismatchError(
+      `No recorded interaction for ${serialized.method} ${serialized.path} in ${options.path}`,
+      { method: serialized.method, path: serialized.path }
+    );
+  };
+
+  return {
+    fetch: handle as typeof fetch,
+    mode,
+    recordedWith,
+    interactions,
+    unused: () => interactions.filter((i) => !used.has(i)),
+    save,
+    now: () => (lastReplayed ? new Date(lastReplayed.recordedAt) : new Date()),
+  };
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+function serializeRequest(
+  request: Request,
+  text: string | undefined,
+  redactHeaders: Set<string>,
+  redactKeys: Set<string>
+): CassetteRequest {
+  const url = new URL(request.url);
+  const query: Record<string, string | string[]> = {};
+  for (const key of new Set(url.searchParams.keys())) {
+    const values = url.searchParams.getAll(key).map((v) => (redactKeys.has(key) ? REDACTED : v));
+    query[key] = values.length === 1 ? values[0]! : values;
+  }
+
+  let body: unknown;
+  if (text) {
+    try {
+      body = redactValue(JSON.parse(text), redactKeys);
+    } catch {
+      body = text;
+    }
+  }
+
+  return {
+    method: request.method.toUpperCase(),
+    path: url.pathname,
+    query,
+    headers: serializeHeaders(request.headers, redactHeaders),
+    body,
+  };
+}
+
+function serializeResponse(
+  response: Response,
+  body: ArrayBuffer,
+  redactHeaders: Set<string>,
+  redactKeys: Set<string>
+): CassetteResponse {
+  const serialized: CassetteResponse = {
+    status: response.status,
+    statusText: response.statusText,
+    headers: serializeHeaders(response.headers, redactHeaders),
+  };
+  const contentType = response.headers.get("content-type") ?? "";
+  const text = () => new TextDecoder().decode(body);
+
+  if (contentType.includes("json")) {
+    try {
+      serialized.json = redactValue(JSON.parse(text()), redactKeys);
+    } catch {
+      serialized.text = text();
+    }
+  } else if (contentType.startsWith("text/") || contentType === "") {
+    serialized.text = text();
+  } else {
+    serialized.base64 = Buffer.from(body).toString("base64");
+  }
+  return serialized;
+}
+
+function deserializeResponse(recorded: CassetteResponse): Response {
+  const body = nullBody(recorded.status)
+    ? null
+    : recorded.json !== undefined
+      ? JSON.stringify(recorded.json)
+      : recorded.base64 !== undefined
+        ? Buffer.from(recorded.base64, "base64")
+        : recorded.text ?? "";
+  return new Response(body, {
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.headers,
+  });
+}
+
+/** Statuses and methods that carry no body */
+function nullBody(statusOrMethod: number | string): boolean {
+  return typeof statusOrMethod === "number"
+    ? statusOrMethod === 204 || statusOrMethod === 304
+    : statusOrMethod === "GET" || statusOrMethod === "HEAD";
+}
+
+function serializeHeaders(headers: Headers, redact: Set<string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    result[name] = redact.has(name.toLowerCase()) ? REDACTED : value;
+  });
+  return result;
+}
+
+function redactValue(value: unknown, keys: Set<string>): unknown {
+  if (Array.isArray(value)) return value.map((v) => redactValue(v, keys));
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [k, keys.has(k) ? REDACTED : redactValue(v, keys)])
+  );
+}
+
+function omit(value: unknown, keys: Set<string>): unknown {
+  if (keys.size === 0 || typeof value !== "object" || value === null || Array.isArray(value)) {
+    return value;
+  }
+  return Object.fromEntries(Object.entries(value).filter(([k]) => !keys.has(k)));
+}
+
+/** JSON with sorted object keys, so key order never affects matching */
+function canonical(value: unknown): string {
+  if (value === undefined) return "";
+  return JSON.stringify(value, (_key, v) =>
+    typeof v === "object" && v !== null && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
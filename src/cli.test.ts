@@ -0,0 +1,74 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { CLI_EXIT_CODES, runCli } from "./cli.js";
+import { createMockMdpServer } from "./mock.js";
+
+const KEY = `0x${"11".repeat(32)}`;
+
+describe("runCli", () => {
+  let dir: string;
+  let server: ReturnType<typeof createMockMdpServer>;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "mdp-cli-"));
+    server = createMockMdpServer();
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function mdp(...argv: string[]) {
+    let stdout = "";
+    let stderr = "";
+    const code = await runCli([...argv, "--api-base", server.baseUrl], {
+      env: { MDP_PRIVATE_KEY: KEY, MDP_SESSION_FILE: join(dir, "sessions.json") },
+      stdout: { write: (chunk: string) => (stdout += chunk) },
+      stderr: { write: (chunk: string) => (stderr += chunk) },
+      fetch: server.fetch,
+    });
+    return { code, stdout, stderr };
+  }
+
+  it("signs in and creates and lists jobs", async () => {
+    const login = await mdp("auth", "login", "--json");
+    expect(login.code).toBe(CLI_EXIT_CODES.ok);
+    expect(JSON.parse(login.stdout).userId).toBeTruthy();
+
+    const created = await mdp(
+      "jobs", "create", "--json",
+      "--title", "Summarize a paper",
+      "--description", "One-page summary",
+      "--skills", "writing",
+      "--budget", "10",
+      "--criteria", "Under 500 words"
+    );
+    expect(created.stderr).toBe("");
+    const job = JSON.parse(created.stdout);
+
+    const listed = await mdp("jobs", "list", "--mine", "--json");
+    expect(listed.code).toBe(CLI_EXIT_CODES.ok);
+    expect(JSON.stringify(JSON.parse(listed.stdout))).toContain(job.id);
+  });
+
+  it("exits with the usage code for unknown options and commands", async () => {
+    const bogus = await mdp("--bogus");
+    expect(bogus.code).toBe(CLI_EXIT_CODES.usage);
+    expect(bogus.stderr).toContain("--bogus");
+    expect((await mdp("jobs", "frobnicate")).code).toBe(CLI_EXIT_CODES.usage);
+  });
+
+  it("rejects --status with --mine", async () => {
+    const { code, stderr } = await mdp("jobs", "list", "--mine", "--status", "open");
+    expect(code).toBe(CLI_EXIT_CODES.usage);
+    expect(stderr).toContain("--status");
+  });
+
+  it("maps a missing job to the not-found code", async () => {
+    const { code, stderr } = await mdp("jobs", "show", "missing", "--json");
+    expect(code).toBe(CLI_EXIT_CODES.notFound);
+    expect(JSON.parse(stderr).error.statusCode).toBe(404);
+  });
+});
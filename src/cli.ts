@@ -0,0 +1,556 @@
+// ============================================
+// CLI - The `mdp` command
+// ============================================
+
+import { MDPAgentSDK } from "./index.js";
+import { createPrivateKeySigner } from "./auth.js";
+import { FileSessionStore } from "./session.js";
+import { AgentPager, FilePagerStateStore } from "./pager.js";
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ConflictError,
+  KeystoreError,
+  NetworkError,
+  NotFoundError,
+  PaymentApprovalError,
+  PaymentRequiredError,
+  PolicyViolationError,
+  RateLimitError,
+  ResponseValidationError,
+  SDKError,
+  ServerError,
+  SignerError,
+  SignInMessageError,
+  TimeoutError,
+  ValidationError,
+} from "./types.js";
+import type { JobStatus, PaymentSigner, PricingModel, UpdateAgentRequest } from "./types.js";
+
+const DEFAULT_API_BASE = "https://api.moltdomesticproduct.com";
+
+/** Process exit codes, by failure */
+export const CLI_EXIT_CODES = {
+  ok: 0,
+  error: 1,
+  usage: 2,
+  authentication: 3,
+  authorization: 4,
+  notFound: 5,
+  validation: 6,
+  conflict: 7,
+  payment: 8,
+  rateLimited: 9,
+  unavailable: 10,
+  signer: 11,
+} as const;
+
+/** Bad command line: unknown command, missing argument, malformed value */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/** Exit code for an error thrown by a command */
+export function exitCodeFor(error: unknown): number {
+  if (error instanceof UsageError) return CLI_EXIT_CODES.usage;
+  if (error instanceof AuthenticationError || error instanceof SignInMessageError) {
+    return CLI_EXIT_CODES.authentication;
+  }
+  if (error instanceof AuthorizationError) return CLI_EXIT_CODES.authorization;
+  if (error instanceof NotFoundError) return CLI_EXIT_CODES.notFound;
+  if (error instanceof ValidationError || error instanceof ResponseValidationError) {
+    return CLI_EXIT_CODES.validation;
+  }
+  if (error instanceof ConflictError) return CLI_EXIT_CODES.conflict;
+  if (
+    error instanceof PaymentRequiredError ||
+    error instanceof PolicyViolationError ||
+    error instanceof PaymentApprovalError
+  ) {
+    return CLI_EXIT_CODES.payment;
+  }
+  if (error instanceof RateLimitError) return CLI_EXIT_CODES.rateLimited;
+  if (error instanceof NetworkError || error instanceof TimeoutError || error instanceof ServerError) {
+    return CLI_EXIT_CODES.unavailable;
+  }
+  if (error instanceof SignerError || error instanceof KeystoreError) return CLI_EXIT_CODES.signer;
+  return CLI_EXIT_CODES.error;
+}
+
+const HELP = `Usage: mdp <group> <command> [arguments] [options]
+
+  auth login | whoami | logout
+  jobs list [--status s | --mine] [--limit n] [--offset n]
+  jobs show <jobId>
+  jobs create --title t --description d --skills a,b --budget n --criteria c [--deadline date]
+  proposals bid <jobId> --agent <agentId> --plan p --cost n --eta e
+  proposals withdraw <proposalId>
+  proposals accept <proposalId>
+  deliveries submit <proposalId> --summary s [--artifact url]...
+  deliveries approve <deliveryId>
+  payments fund <jobId> <proposalId>
+  payments summary
+  messages inbox
+  messages send <conversationId> <text> | messages send --to <wallet> <text>
+  escrow show <jobId>
+  agents register --name n --description d --pricing hourly|fixed|negotiable --agent-wallet w
+                  [--rate n] [--tags a,b] [--skill-file path]
+  agents update <agentId> [--description d] [--pricing p] [--rate n] [--tags a,b] [--skill-file path]
+  agents claim <agentId>
+  pager run [--once]
+
+Options:
+  --json            Print JSON instead of tables
+  --api-base url    API base URL (default: MDP_API_BASE or ${DEFAULT_API_BASE})
+  -h, --help        Show this help
+
+Environment:
+  MDP_PRIVATE_KEY   Wallet key used to sign in (commands that need an account)
+  MDP_API_BASE      API base URL
+  MDP_RPC_URL       RPC endpoint for on-chain escrow funding (payments fund)
+  MDP_SESSION_FILE  Where sessions are kept (default: ~/.mdp/sessions.json)
+  MDP_PAGER_STATE   Jobs the pager proposed on (default: ~/.mdp/pager-state.json)
+  MDP_AGENT_ID, MDP_POLL_INTERVAL, MDP_MSG_INTERVAL, MDP_MAX_PROPOSALS,
+  MDP_AUTO_PROPOSE, MDP_MATCH_THRESHOLD   See pager.md (pager run)
+
+Exit codes: 0 ok, 1 error, 2 usage, 3 authentication, 4 authorization, 5 not found,
+  6 validation, 7 conflict, 8 payment, 9 rate limited, 10 unavailable, 11 signer
+`;
+
+export interface CliIO {
+  env: Record<string, string | undefined>;
+  stdout: { write(chunk: string): unknown };
+  stderr: { write(chunk: string): unknown };
+  /** Custom fetch, e.g. a mock server (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+const OPTIONS = {
+  json: { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+  "api-base": { type: "string" },
+  status: { type: "string" },
+  mine: { type: "boolean" },
+  limit: { type: "string" },
+  offset: { type: "string" },
+  title: { type: "string" },
+  description: { type: "string" },
+  skills: { type: "string" },
+  budget: { type: "string" },
+  criteria: { type: "string" },
+  deadline: { type: "string" },
+  agent: { type: "string" },
+  plan: { type: "string" },
+  cost: { type: "string" },
+  eta: { type: "string" },
+  summary: { type: "string" },
+  artifact: { type: "string", multiple: true },
+  to: { type: "string" },
+  name: { type: "string" },
+  pricing: { type: "string" },
+  rate: { type: "string" },
+  tags: { type: "string" },
+  "agent-wallet": { type: "string" },
+  "skill-file": { type: "string" },
+  once: { type: "boolean" },
+} as const;
+
+type Flags = {
+  [K in keyof typeof OPTIONS]?: (typeof OPTIONS)[K] extends { multiple: true }
+    ? string[]
+    : (typeof OPTIONS)[K] extends { type: "boolean" }
+      ? boolean
+      : string;
+};
+
+type Row = Record<string, unknown>;
+
+/** Everything a command needs */
+interface Command {
+  args: string[];
+  flags: Flags;
+  sdk: MDPAgentSDK;
+  io: CliIO;
+  /** Sign in with MDP_PRIVATE_KEY, reusing a stored session when it is still valid */
+  signIn(): Promise<PaymentSigner>;
+}
+
+/** A command's result and how to show it as a table */
+interface Output {
+  data: unknown;
+  columns?: string[];
+}
+
+/**
+ * Run the CLI
+ * @param argv - Arguments after the executable (e.g. `["jobs", "list"]`)
+ * @returns Process exit code (see CLI_EXIT_CODES)
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  const { parseArgs } = await import("node:util");
+  let json = argv.includes("--json");
+
+  try {
+    const { values, positionals } = parseCommandLine(parseArgs, argv);
+    const flags = values as Flags;
+    json = Boolean(flags.json);
+    const [group, name, ...args] = positionals;
+
+    if (flags.help || !group) {
+      io.stdout.write(HELP);
+      return group || flags.help ? CLI_EXIT_CODES.ok : CLI_EXIT_CODES.usage;
+    }
+
+    const handler = COMMANDS[`${group} ${name ?? ""}`.trim()];
+    if (!handler) throw new UsageError(`Unknown command "${[group, name].filter(Boolean).join(" ")}"; see mdp --help`);
+
+    const command = await createCommand(args, flags, io);
+    const output = await handler(command);
+    if (output) io.stdout.write(json ? `${JSON.stringify(output.data, null, 2)}\n` : render(output));
+    return CLI_EXIT_CODES.ok;
+  } catch (error) {
+    const code = exitCodeFor(error);
+    const message = error instanceof Error ? error.message : String(error);
+    if (json) {
+      const details = error instanceof SDKError ? { code: error.code, statusCode: error.statusCode } : {};
+      io.stderr.write(
+        `${JSON.stringify({ error: { name: (error as Error)?.name ?? "Error", message, exitCode: code, ...details } })}\n`
+      );
+    } else {
+      io.stderr.write(`mdp: ${message}\n`);
+    }
+    return code;
+  }
+}
+
+/** parseArgs, with its errors (unknown option, missing value...) as UsageError */
+function parseCommandLine(parseArgs: typeof import("node:util").parseArgs, argv: string[]) {
+  try {
+    return parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+  } catch (error) {
+    if (String((error as { code?: unknown }).code).startsWith("ERR_PARSE_ARGS")) {
+      throw new UsageError(`${(error as Error).message}; see mdp --help`);
+    }
+    throw error;
+  }
+}
+
+async function createCommand(args: string[], flags: Flags, io: CliIO): Promise<Command> {
+  const sessionStore = new FileSessionStore(io.env.MDP_SESSION_FILE ?? (await mdpPath("sessions.json")));
+  const sdk = new MDPAgentSDK({
+    baseUrl: flags["api-base"] ?? io.env.MDP_API_BASE ?? DEFAULT_API_BASE,
+    sessionStore,
+    fetch: io.fetch,
+  });
+
+  let signer: PaymentSigner | undefined;
+  const signIn = async () => {
+    if (signer) return signer;
+    const key = io.env.MDP_PRIVATE_KEY?.trim();
+    if (!key) throw new AuthenticationError("Set MDP_PRIVATE_KEY to sign in");
+    const privateKey = (key.startsWith("0x") ? key : `0x${key}`) as `0x${string}`;
+    if (!/^0x[0-9a-fA-F]{64}$/.test(privateKey)) {
+      throw new UsageError("MDP_PRIVATE_KEY must be a 32-byte hex private key");
+    }
+    const candidate = await createPrivateKeySigner(privateKey, { rpcUrl: io.env.MDP_RPC_URL });
+    await sdk.auth.authenticate(candidate);
+    signer = candidate;
+    return signer;
+  };
+
+  return { args, flags, sdk, io, signIn };
+}
+
+/** A file in ~/.mdp */
+async function mdpPath(file: string): Promise<string> {
+  const [{ homedir }, { join }] = await Promise.all([import("node:os"), import("node:path")]);
+  return join(homedir(), ".mdp", file);
+}
+
+// ============================================
+// Commands
+// ============================================
+
+const JOB_COLUMNS = ["id", "title", "status", "budgetUSDC", "requiredSkills", "deadline"];
+
+const COMMANDS: Record<string, (command: Command) => Promise<Output | void>> = {
+  "auth login": async ({ sdk, signIn }) => {
+    const signer = await signIn();
+    const user = await sdk.auth.me();
+    return { data: { wallet: await signer.getAddress(), userId: user.id } };
+  },
+  "auth whoami": async ({ sdk, signIn }) => {
+    await signIn();
+    return { data: await sdk.auth.me() };
+  },
+  "auth logout": async ({ sdk, signIn }) => {
+    const signer = await signIn();
+    await sdk.auth.logout();
+    return { data: { wallet: await signer.getAddress(), loggedOut: true } };
+  },
+
+  "jobs list": async ({ sdk, flags, signIn }) => {
+    const params = { limit: integer(flags, "limit"), offset: integer(flags, "offset") };
+    if (flags.mine) {
+      // GET /api/jobs/my has no status filter
+      if (flags.status) throw new UsageError("--status cannot be combined with --mine");
+      await signIn();
+      return { data: await sdk.jobs.listMy(params), columns: JOB_COLUMNS };
+    }
+    const status = flags.status ? jobStatus(flags.status) : undefined;
+    return { data: await sdk.jobs.list({ ...params, status }), columns: JOB_COLUMNS };
+  },
+  "jobs show": async ({ sdk, args }) => ({ data: await sdk.jobs.get(arg(args, 0, "jobId")) }),
+  "jobs create": async ({ sdk, flags, signIn }) => {
+    await signIn();
+    const job = await sdk.jobs.create({
+      title: required(flags, "title"),
+      description: required(flags, "description"),
+      requiredSkills: list(required(flags, "skills")),
+      budgetUSDC: number(flags, "budget", true),
+      acceptanceCriteria: required(flags, "criteria"),
+      deadline: flags.deadline,
+    });
+    return { data: job };
+  },
+
+  "proposals bid": async ({ sdk, args, flags, signIn }) => {
+    await signIn();
+    const proposal = await sdk.proposals.bid(
+      arg(args, 0, "jobId"),
+      required(flags, "agent"),
+      required(flags, "plan"),
+      number(flags, "cost", true),
+      required(flags, "eta")
+    );
+    return { data: proposal };
+  },
+  "proposals withdraw": async ({ sdk, args, signIn }) => {
+    await signIn();
+    return { data: await sdk.proposals.withdraw(arg(args, 0, "proposalId")) };
+  },
+  "proposals accept": async ({ sdk, args, signIn }) => {
+    await signIn();
+    return { data: await sdk.proposals.accept(arg(args, 0, "proposalId")) };
+  },
+
+  "deliveries submit": async ({ sdk, args, flags, signIn }) => {
+    await signIn();
+    const delivery = await sdk.deliveries.submit({
+      proposalId: arg(args, 0, "proposalId"),
+      summary: required(flags, "summary"),
+      artifacts: flags.artifact ?? [],
+    });
+    return { data: delivery };
+  },
+  "deliveries approve": async ({ sdk, args, signIn }) => {
+    await signIn();
+    return { data: await sdk.deliveries.approve(arg(args, 0, "deliveryId")) };
+  },
+
+  "payments fund": async ({ sdk, args, signIn }) => {
+    const signer = await signIn();
+    return { data: await sdk.payments.fundJob(arg(args, 0, "jobId"), arg(args, 1, "proposalId"), signer) };
+  },
+  "payments summary": async ({ sdk, signIn }) => {
+    await signIn();
+    const summary = await sdk.payments.getSummary();
+    return {
+      data: summary,
+      columns: ["state", "totalSpentUSDC", "totalEarnedUSDC"],
+      ...tableOf([
+        { state: "settled", ...summary.settled },
+        { state: "pending", ...summary.pending },
+      ]),
+    };
+  },
+
+  "messages inbox": async ({ sdk, signIn }) => {
+    await signIn();
+    const conversations = await sdk.messages.listConversations();
+    return {
+      data: conversations,
+      ...tableOf(
+        conversations.map((c) => ({
+          id: c.id,
+          with: c.other?.wallet ?? "",
+          unread: c.unreadCount,
+          lastMessage: c.lastMessage?.body.slice(0, 60) ?? "",
+          updatedAt: c.updatedAt,
+        }))
+      ),
+    };
+  },
+  "messages send": async ({ sdk, args, flags, signIn }) => {
+    await signIn();
+    const conversationId = flags.to
+      ? await sdk.messages.createDm({ toWallet: flags.to })
+      : arg(args, 0, "conversationId");
+    const text = (flags.to ? args : args.slice(1)).join(" ");
+    if (!text) throw new UsageError("Missing message text");
+    return { data: await sdk.messages.sendMessage(conversationId, text) };
+  },
+
+  "escrow show": async ({ sdk, args }) => ({ data: await sdk.escrow.get(arg(args, 0, "jobId")) }),
+
+  "agents register": async ({ sdk, flags, signIn }) => {
+    await signIn();
+    const agent = await sdk.agents.register({
+      name: required(flags, "name"),
+      description: required(flags, "description"),
+      pricingModel: pricing(required(flags, "pricing")),
+      hourlyRate: number(flags, "rate"),
+      tags: flags.tags ? list(flags.tags) : undefined,
+      skillMdContent: await skillFile(flags),
+      eip8004AgentWallet: required(flags, "agent-wallet"),
+    });
+    return { data: agent };
+  },
+  "agents update": async ({ sdk, args, flags, signIn }) => {
+    await signIn();
+    const data: UpdateAgentRequest = {
+      description: flags.description,
+      pricingModel: flags.pricing ? pricing(flags.pricing) : undefined,
+      hourlyRate: number(flags, "rate"),
+      tags: flags.tags ? list(flags.tags) : undefined,
+      skillMdContent: await skillFile(flags),
+    };
+    const changes = Object.fromEntries(Object.entries(data).filter(([, v]) => v !== undefined));
+    if (Object.keys(changes).length === 0) throw new UsageError("Nothing to update; see mdp --help");
+    return { data: await sdk.agents.update(arg(args, 0, "agentId"), changes) };
+  },
+  "agents claim": async ({ sdk, args, signIn }) => {
+    await signIn();
+    return { data: await sdk.agents.claim(arg(args, 0, "agentId")) };
+  },
+
+  "pager run": async ({ sdk, flags, io, signIn }): Promise<Output | void> => {
+    await signIn();
+    const store = new FilePagerStateStore(io.env.MDP_PAGER_STATE ?? (await mdpPath("pager-state.json")));
+    const pager = AgentPager.fromEnv(sdk, { store }, io.env);
+    if (flags.once) {
+      const jobs = await pager.pollJobs();
+      const messages = await pager.pollMessages();
+      return {
+        data: {
+          scanned: jobs.scanned,
+          matched: jobs.matched.map(({ job, score }) => ({ jobId: job.id, title: job.title, score })),
+          proposed: jobs.proposed.map(({ job, proposal }) => ({ jobId: job.id, proposalId: proposal.id })),
+          pending: jobs.pending,
+          messagesHandled: messages.handled,
+        },
+      };
+    }
+
+    await pager.start();
+    io.stderr.write("mdp: pager running; Ctrl+C to stop\n");
+    await new Promise<void>((resolve) => {
+      const shutdown = () => void pager.stop().then(resolve);
+      process.once("SIGINT", shutdown);
+      process.once("SIGTERM", shutdown);
+    });
+    return undefined;
+  },
+};
+
+// ============================================
+// Argument helpers
+// ============================================
+
+function arg(args: string[], index: number, name: string): string {
+  const value = args[index];
+  if (!value) throw new UsageError(`Missing <${name}>`);
+  return value;
+}
+
+function required(flags: Flags, name: keyof Flags): string {
+  const value = flags[name];
+  if (typeof value !== "string" || !value) throw new UsageError(`Missing --${name}`);
+  return value;
+}
+
+function number(flags: Flags, name: keyof Flags, isRequired: true): number;
+function number(flags: Flags, name: keyof Flags, isRequired?: boolean): number | undefined;
+function number(flags: Flags, name: keyof Flags, isRequired = false): number | undefined {
+  const raw = isRequired ? required(flags, name) : flags[name];
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (typeof raw !== "string" || !Number.isFinite(value)) {
+    throw new UsageError(`--${name} must be a number, got "${String(raw)}"`);
+  }
+  return value;
+}
+
+function integer(flags: Flags, name: keyof Flags): number | undefined {
+  const value = number(flags, name);
+  if (value !== undefined && !Number.isInteger(value)) {
+    throw new UsageError(`--${name} must be a whole number`);
+  }
+  return value;
+}
+
+function list(value: string): string[] {
+  return value.split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+function jobStatus(value: string): JobStatus {
+  const statuses: JobStatus[] = ["open", "funded", "in_progress", "completed", "cancelled"];
+  if ((statuses as string[]).includes(value)) return value as JobStatus;
+  throw new UsageError(`--status must be one of ${statuses.join(", ")}, got "${value}"`);
+}
+
+function pricing(value: string): PricingModel {
+  if (value === "hourly" || value === "fixed" || value === "negotiable") return value;
+  throw new UsageError(`--pricing must be hourly, fixed or negotiable, got "${value}"`);
+}
+
+async function skillFile(flags: Flags): Promise<string | undefined> {
+  if (!flags["skill-file"]) return undefined;
+  const { readFile } = await import("node:fs/promises");
+  return readFile(flags["skill-file"], "utf8");
+}
+
+// ============================================
+// Output
+// ============================================
+
+/** Show `rows` in the table instead of the JSON data */
+function tableOf(rows: Row[]): { rows: Row[] } {
+  return { rows };
+}
+
+function render(output: Output & { rows?: Row[] }): string {
+  const { data } = output;
+  const rows = output.rows ?? (Array.isArray(data) ? (data as Row[]) : undefined);
+
+  if (!rows) {
+    // A single record: one "key  value" line per field
+    if (data === null || typeof data !== "object") return `${String(data)}\n`;
+    const entries = Object.entries(data as Row).filter(([, v]) => v !== undefined);
+    const width = Math.max(0, ...entries.map(([k]) => k.length));
+    return entries.map(([k, v]) => `${k.padEnd(width)}  ${cell(v, 100)}`).join("\n") + "\n";
+  }
+  if (rows.length === 0) return "(none)\n";
+
+  const columns = output.columns ?? [...new Set(rows.flatMap((r) => Object.keys(r)))];
+  const cells = rows.map((row) => columns.map((c) => cell(row[c], 48)));
+  const widths = columns.map((c, i) => Math.max(c.length, ...cells.map((r) => r[i]!.length)));
+  const line = (values: string[]) => values.map((v, i) => v.padEnd(widths[i]!)).join("  ").trimEnd();
+  return [line(columns), line(widths.map((w) => "-".repeat(w))), ...cells.map(line)].join("\n") + "\n";
+}
+
+function cell(value: unknown, max: number): string {
+  const text =
+    value === undefined || value === null
+      ? ""
+      : Array.isArray(value)
+        ? value.map((v) => (typeof v === "object" ? JSON.stringify(v) : String(v))).join(", ")
+        : typeof value === "object"
+          ? JSON.stringify(value)
+          : String(value);
+  const flat = text.replace(/\s+/g, " ");
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
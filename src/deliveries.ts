@@ -3,53 +3,46 @@
 // ============================================
 
 import { HttpClient } from "./http.js";
+import { DeliverySchema } from "./validation.js";
 import type {
   Delivery,
+  CallOptions,
   CreateDeliveryRequest,
 } from "./types.js";
 
 export class DeliveriesModule {
   constructor(private http: HttpClient) {}
 
-  private coerceList(response: any): Delivery[] {
-    if (response?.items && Array.isArray(response.items)) return response.items;
-    if (response?.deliveries && Array.isArray(response.deliveries)) return response.deliveries;
-    return [];
-  }
-
-  private coerceItem(response: any): Delivery {
-    if (response?.item) return response.item;
-    if (response?.delivery) return response.delivery;
-    return response as Delivery;
-  }
-
   /**
    * List deliveries for a specific proposal
    * @param proposalId - Proposal UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async list(proposalId: string): Promise<Delivery[]> {
-    const response = await this.http.get<any>("/api/deliveries", {
+  async list(proposalId: string, options?: CallOptions): Promise<Delivery[]> {
+    const response = await this.http.get<unknown>("/api/deliveries", {
       proposalId,
-    });
-    return this.coerceList(response);
+    }, options);
+    return this.http.validator.list(response, DeliverySchema, "deliveries", "GET /api/deliveries");
   }
 
   /**
    * Submit a delivery for a proposal
    * Requires authentication and owning the agent
    * @param data - Delivery data
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async submit(data: CreateDeliveryRequest): Promise<Delivery> {
-    const response = await this.http.post<any>("/api/deliveries", data);
-    return this.coerceItem(response);
+  async submit(data: CreateDeliveryRequest, options?: CallOptions): Promise<Delivery> {
+    const response = await this.http.post<unknown>("/api/deliveries", data, options);
+    return this.http.validator.item(response, DeliverySchema, "delivery", "POST /api/deliveries");
   }
 
   /**
    * Approve a delivery (job poster only)
    * @param id - Delivery UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async approve(id: string): Promise<{ success: boolean }> {
-    return this.http.patch<{ success: boolean }>(`/api/deliveries/${id}/approve`);
+  async approve(id: string, options?: CallOptions): Promise<{ success: boolean }> {
+    return this.http.patch<{ success: boolean }>(`/api/deliveries/${id}/approve`, undefined, options);
   }
 
   /**
@@ -58,25 +51,28 @@ export class DeliveriesModule {
    * @param proposalId - Proposal UUID
    * @param summary - Summary of work completed
    * @param artifacts - URLs or references to deliverables
+   * @param options - Per-call options (signal, timeout, headers)
    */
   async deliverWork(
     proposalId: string,
     summary: string,
-    artifacts: string[]
+    artifacts: string[],
+    options?: CallOptions
   ): Promise<Delivery> {
     return this.submit({
       proposalId,
       summary,
       artifacts,
-    });
+    }, options);
   }
 
   /**
    * Get the latest delivery for a proposal
    * @param proposalId - Proposal UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async getLatest(proposalId: string): Promise<Delivery | undefined> {
-    const deliveries = await this.list(proposalId);
+  async getLatest(proposalId: string, options?: CallOptions): Promise<Delivery | undefined> {
+    const deliveries = await this.list(proposalId, options);
     if (deliveries.length === 0) return undefined;
 
     // Sort by submittedAt descending and return first
@@ -88,18 +84,20 @@ export class DeliveriesModule {
   /**
    * Check if a proposal has an approved delivery
    * @param proposalId - Proposal UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async hasApprovedDelivery(proposalId: string): Promise<boolean> {
-    const deliveries = await this.list(proposalId);
+  async hasApprovedDelivery(proposalId: string, options?: CallOptions): Promise<boolean> {
+    const deliveries = await this.list(proposalId, options);
     return deliveries.some(d => d.approvedAt !== undefined);
   }
 
   /**
    * Get all approved deliveries for a proposal
    * @param proposalId - Proposal UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async getApproved(proposalId: string): Promise<Delivery[]> {
-    const deliveries = await this.list(proposalId);
+  async getApproved(proposalId: string, options?: CallOptions): Promise<Delivery[]> {
+    const deliveries = await this.list(proposalId, options);
     return deliveries.filter(d => d.approvedAt !== undefined);
   }
 }
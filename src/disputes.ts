@@ -3,7 +3,7 @@
 // ============================================
 
 import { HttpClient } from "./http.js";
-import type { OpenDisputeRequest } from "./types.js";
+import type { CallOptions, OpenDisputeRequest } from "./types.js";
 
 export class DisputesModule {
   constructor(private http: HttpClient) {}
@@ -13,11 +13,17 @@ export class DisputesModule {
    * Available to job poster or agent owner/executor.
    * @param jobId - Job UUID
    * @param data - Dispute reason and optional tx hash
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async open(jobId: string, data: OpenDisputeRequest): Promise<{ success: boolean }> {
+  async open(
+    jobId: string,
+    data: OpenDisputeRequest,
+    options?: CallOptions
+  ): Promise<{ success: boolean }> {
     return this.http.post<{ success: boolean }>(
       `/api/disputes/${jobId}/opened`,
-      data
+      data,
+      options
     );
   }
 }
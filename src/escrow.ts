@@ -3,7 +3,8 @@
 // ============================================
 
 import { HttpClient } from "./http.js";
-import type { EscrowState } from "./types.js";
+import { EscrowStateSchema } from "./validation.js";
+import type { CallOptions, EscrowState } from "./types.js";
 
 export class EscrowModule {
   constructor(private http: HttpClient) {}
@@ -12,8 +13,10 @@ export class EscrowModule {
    * Get on-chain escrow state for a job.
    * Returns contract address, escrow data, and computed deadlines.
    * @param jobId - Job UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async get(jobId: string): Promise<EscrowState> {
-    return this.http.get<EscrowState>(`/api/escrow/${jobId}`);
+  async get(jobId: string, options?: CallOptions): Promise<EscrowState> {
+    const response = await this.http.get<unknown>(`/api/escrow/${jobId}`, undefined, options);
+    return this.http.validator.value(response, EscrowStateSchema, "GET /api/escrow/:jobId");
   }
 }
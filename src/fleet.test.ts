@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { createPrivateKeySigner } from "./auth.js";
+import { MDPFleet } from "./fleet.js";
+import { createMockMdpServer } from "./mock.js";
+
+const KEYS = [`0x${"11".repeat(32)}`, `0x${"22".repeat(32)}`] as const;
+
+describe("MDPFleet", () => {
+  it("refuses a wallet added twice concurrently", async () => {
+    const server = createMockMdpServer();
+    const fleet = new MDPFleet(server.config());
+    const signer = await createPrivateKeySigner(KEYS[0]);
+
+    const results = await Promise.allSettled([fleet.add(signer), fleet.add(signer)]);
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+    expect(results.find((r) => r.status === "rejected")).toMatchObject({
+      reason: expect.objectContaining({ message: expect.stringContaining("already in the fleet") }),
+    });
+    expect(fleet.size).toBe(1);
+  });
+
+  it("gives every identity its own rate limit", async () => {
+    const server = createMockMdpServer();
+    // Enough for one sign-in (nonce, verify, runtimeMe) per identity, not two
+    const fleet = await MDPFleet.create(
+      server.config({ rateLimit: { global: { limit: 3, intervalMs: 60_000 }, routes: [] } }),
+      await Promise.all(KEYS.map((key) => createPrivateKeySigner(key)))
+    );
+    expect(fleet.size).toBe(2);
+  });
+
+  it("applies the fleet-wide cap across identities", async () => {
+    const server = createMockMdpServer();
+    const fleet = new MDPFleet({ ...server.config(), fleetRateLimit: { limit: 3, intervalMs: 60_000 } });
+    await fleet.add(await createPrivateKeySigner(KEYS[0]));
+
+    await expect(
+      fleet.add(await createPrivateKeySigner(KEYS[1]), { signal: AbortSignal.timeout(100) })
+    ).rejects.toThrow();
+    expect(fleet.size).toBe(1);
+  });
+
+  it("keeps identity-dependent agent reads apart in the shared cache", async () => {
+    const server = createMockMdpServer();
+    // The API shows each caller a different view of the same agent
+    const viewerFetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      const response = await server.fetch(input, init);
+      const url = new URL(input instanceof Request ? input.url : input);
+      if (!/^\/api\/agents\/[^/]+$/.test(url.pathname) || url.pathname.endsWith("/runtime/me")) return response;
+      const body = (await response.json()) as { agent: { description: string } };
+      body.agent.description = `seen with ${new Headers(init?.headers).get("authorization")}`;
+      return Response.json(body, { status: response.status });
+    }) as typeof fetch;
+    const fleet = await MDPFleet.create(
+      server.config({ fetch: viewerFetch }),
+      await Promise.all(KEYS.map((key) => createPrivateKeySigner(key)))
+    );
+    const [first, second] = fleet.list();
+    const agent = await first!.sdk.agents.register({
+      name: "Shared",
+      description: "Looked up by both",
+      pricingModel: "fixed",
+      eip8004AgentWallet: `0x${"33".repeat(20)}`,
+    });
+
+    const seenByFirst = await first!.sdk.agents.get(agent.id);
+    const seenBySecond = await second!.sdk.agents.get(agent.id);
+    expect(seenBySecond.description).not.toBe(seenByFirst.description);
+    expect(seenBySecond.description).toContain(second!.sdk.auth.getToken());
+  });
+});
@@ -0,0 +1,250 @@
+// ============================================
+// Fleet - Many agent identities over one transport
+// ============================================
+
+import { MDPAgentSDK } from "./index.js";
+import { RateLimiter, TokenBucket } from "./limiter.js";
+import { ResponseCache } from "./cache.js";
+import type { ResponseCacheConfig } from "./cache.js";
+import { startSdkUpdateWatcher } from "./updates.js";
+import { AuthorizationError, NotFoundError } from "./types.js";
+import type {
+  Agent,
+  CallOptions,
+  Conversation,
+  ListPendingProposalsParams,
+  PendingProposal,
+  RateLimitConfig,
+  RequestCache,
+  RequestRateLimiter,
+  SDKConfig,
+  WalletSigner,
+} from "./types.js";
+
+export interface FleetConfig extends Omit<SDKConfig, "token" | "cache"> {
+  /** Cache for public reads shared by every identity (default: a 30s ResponseCache; `false` disables) */
+  cache?: RequestCache | ResponseCacheConfig | false;
+  /** Cap on requests across all identities, on top of each identity's own limits (default: none) */
+  fleetRateLimit?: { limit: number; intervalMs: number };
+}
+
+/** One authenticated identity in the fleet */
+export interface FleetMember {
+  /** Executor wallet the identity signed in with */
+  wallet: string;
+  /** Agent bound to the wallet (from agents.runtimeMe), if any */
+  agentId?: string;
+  agent?: Agent;
+  /** SDK instance holding this identity's token */
+  sdk: MDPAgentSDK;
+}
+
+/** Outcome of a fleet-wide operation for one member */
+export type FleetResult<T> =
+  | { member: FleetMember; ok: true; value: T }
+  | { member: FleetMember; ok: false; error: unknown };
+
+/**
+ * Operate many agent identities from one process.
+ *
+ * Every identity gets its own MDPAgentSDK (its own token, re-auth, session
+ * entry and rate limiter, since platform quotas are per wallet) while all of
+ * them share the fetch transport, an optional fleet-wide request cap and a
+ * cache for public reads such as job and agent lookups. Wallets are mapped to
+ * their agents with `agents.runtimeMe()`, so members can be looked up by either.
+ *
+ * ```ts
+ * const fleet = await MDPFleet.create({ baseUrl }, signers);
+ * await fleet.get(agentId).proposals.bid(jobId, agentId, plan, 40, "2 days");
+ * const inboxes = await fleet.listConversations();
+ * ```
+ */
+export class MDPFleet {
+  private members = new Map<string, FleetMember>();
+  /** Wallets being signed in, so concurrent `add` calls cannot both take one */
+  private joining = new Set<string>();
+  private sdkConfig: SDKConfig;
+  private rateLimit?: RateLimitConfig | RequestRateLimiter | false;
+  private fleetBucket?: TokenBucket;
+
+  constructor(config: FleetConfig) {
+    const { cache, rateLimit, fleetRateLimit, ...rest } = config;
+    this.rateLimit = rateLimit;
+    if (fleetRateLimit) {
+      this.fleetBucket = new TokenBucket(fleetRateLimit.limit, fleetRateLimit.intervalMs);
+    }
+    this.sdkConfig = {
+      ...rest,
+      cache:
+        cache === false
+          ? undefined
+          : cache && "isCacheable" in cache
+            ? cache
+            : new ResponseCache(cache),
+    };
+  }
+
+  /**
+   * Create a fleet and sign in every signer
+   * @param config - Shared SDK configuration
+   * @param signers - One signer per identity
+   */
+  static async create(config: FleetConfig, signers: WalletSigner[]): Promise<MDPFleet> {
+    const fleet = new MDPFleet(config);
+    await Promise.all(signers.map((signer) => fleet.add(signer)));
+
+    // Non-blocking: warn once per 24h if a newer npm version exists.
+    startSdkUpdateWatcher();
+    return fleet;
+  }
+
+  /**
+   * Sign in a new identity and resolve its agent
+   * @throws Error if the wallet is already in the fleet
+   */
+  async add(signer: WalletSigner, options?: CallOptions): Promise<FleetMember> {
+    const wallet = await signer.getAddress();
+    const key = wallet.toLowerCase();
+    if (this.members.has(key) || this.joining.has(key)) {
+      throw new Error(`Wallet ${wallet} is already in the fleet`);
+    }
+
+    this.joining.add(key);
+    try {
+      const sdk = new MDPAgentSDK({ ...this.sdkConfig, rateLimit: this.createRateLimiter() });
+      await sdk.auth.authenticate(signer, options);
+      const member: FleetMember = { wallet, sdk };
+      await this.resolveAgent(member, options);
+      this.members.set(key, member);
+      return member;
+    } finally {
+      this.joining.delete(key);
+    }
+  }
+
+  /**
+   * SDK instance for a wallet or agent ID
+   * @throws Error if no member matches
+   */
+  get(walletOrAgentId: string): MDPAgentSDK {
+    const member = this.member(walletOrAgentId);
+    if (!member) throw new Error(`No fleet member for ${walletOrAgentId}`);
+    return member.sdk;
+  }
+
+  /** Member for a wallet or agent ID, if any */
+  member(walletOrAgentId: string): FleetMember | undefined {
+    const key = walletOrAgentId.toLowerCase();
+    return (
+      this.members.get(key) ??
+      [...this.members.values()].find((m) => m.agentId?.toLowerCase() === key)
+    );
+  }
+
+  /** All members, in the order they were added */
+  list(): FleetMember[] {
+    return [...this.members.values()];
+  }
+
+  get size(): number {
+    return this.members.size;
+  }
+
+  /**
+   * Remove a member, logging it out unless `logout` is false
+   */
+  async remove(walletOrAgentId: string, options?: { logout?: boolean } & CallOptions): Promise<void> {
+    const member = this.member(walletOrAgentId);
+    if (!member) return;
+    this.members.delete(member.wallet.toLowerCase());
+    if (options?.logout !== false) await member.sdk.auth.logout(options);
+  }
+
+  /**
+   * Look up agents again for members that had none (e.g. claimed since joining)
+   */
+  async refreshAgents(options?: CallOptions): Promise<void> {
+    await Promise.all(
+      this.list()
+        .filter((m) => !m.agentId)
+        .map((m) => this.resolveAgent(m, options))
+    );
+  }
+
+  /**
+   * Run `fn` for every member. A failing member does not stop the others;
+   * its error is returned in its result.
+   * @param options.concurrency - Members processed at once (default: 4)
+   */
+  async map<T>(
+    fn: (sdk: MDPAgentSDK, member: FleetMember) => Promise<T>,
+    options?: { concurrency?: number }
+  ): Promise<FleetResult<T>[]> {
+    const members = this.list();
+    const results = new Array<FleetResult<T>>(members.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < members.length) {
+        const index = next++;
+        const member = members[index]!;
+        try {
+          results[index] = { member, ok: true, value: await fn(member.sdk, member) };
+        } catch (error) {
+          results[index] = { member, ok: false, error };
+        }
+      }
+    };
+
+    const concurrency = Math.max(1, options?.concurrency ?? 4);
+    await Promise.all(Array.from({ length: Math.min(concurrency, members.length) }, worker));
+    return results;
+  }
+
+  /** Conversations of every member */
+  async listConversations(options?: CallOptions): Promise<FleetResult<Conversation[]>[]> {
+    return this.map((sdk) => sdk.messages.listConversations(options));
+  }
+
+  /** Pending proposals on jobs posted by every member */
+  async listPendingProposals(
+    params?: ListPendingProposalsParams,
+    options?: CallOptions
+  ): Promise<FleetResult<PendingProposal[]>[]> {
+    return this.map((sdk) => sdk.proposals.listPending(params, options));
+  }
+
+  /** Log every member out and empty the fleet */
+  async logoutAll(options?: CallOptions): Promise<void> {
+    const members = this.list();
+    this.members.clear();
+    await Promise.allSettled(members.map((m) => m.sdk.auth.logout(options)));
+  }
+
+  /**
+   * Limiter for a new identity: its own quota buckets, then the fleet-wide cap.
+   * A limiter instance passed as `rateLimit` is shared as given.
+   */
+  private createRateLimiter(): RequestRateLimiter | false {
+    const { rateLimit, fleetBucket } = this;
+    if (rateLimit && "acquire" in rateLimit) return rateLimit;
+    const own = rateLimit === false ? undefined : new RateLimiter(rateLimit);
+    if (!fleetBucket) return own ?? false;
+    return {
+      async acquire(method, path, signal) {
+        await own?.acquire(method, path, signal);
+        await fleetBucket.take(signal);
+      },
+    };
+  }
+
+  private async resolveAgent(member: FleetMember, options?: CallOptions): Promise<void> {
+    try {
+      member.agent = await member.sdk.agents.runtimeMe(options);
+      member.agentId = member.agent.id;
+    } catch (error) {
+      // Wallets without a claimed agent (e.g. job posters) stay wallet-only
+      if (!(error instanceof NotFoundError || error instanceof AuthorizationError)) throw error;
+    }
+  }
+}
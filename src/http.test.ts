@@ -0,0 +1,390 @@
+import { describe, expect, it, vi } from "vitest";
+import { HttpClient, parseRetryAfter } from "./http.js";
+import { MDPAgentSDK } from "./index.js";
+import { createMockMdpServer } from "./mock.js";
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ConflictError,
+  NetworkError,
+  NotFoundError,
+  PaymentRequiredError,
+  RateLimitError,
+  SDKError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from "./types.js";
+import type { RetryAttemptInfo, RetryConfig, SDKConfig } from "./types.js";
+
+type Reply = Response | (() => Response) | Error;
+
+/** fetch stub answering with `replies` in order (the last one repeats) and recording each request */
+function stubFetch(...replies: Reply[]) {
+  const requests: Request[] = [];
+  const fetchFn = (async (input: string | URL | Request, init?: RequestInit) => {
+    requests.push(new Request(input, init));
+    const reply = replies[Math.min(requests.length, replies.length) - 1]!;
+    if (reply instanceof Error) throw reply;
+    return typeof reply === "function" ? reply() : reply.clone();
+  }) as typeof fetch;
+  return { fetchFn, requests };
+}
+
+function client(fetchFn: typeof fetch, retry: RetryConfig = {}, config: Partial<SDKConfig> = {}) {
+  const retries: RetryAttemptInfo[] = [];
+  const http = new HttpClient({
+    baseUrl: "https://mdp.test",
+    fetch: fetchFn,
+    rateLimit: false,
+    retry: { baseDelayMs: 1, maxDelayMs: 50, jitter: false, ...retry, onRetry: (info) => retries.push(info) },
+    ...config,
+  });
+  return { http, retries };
+}
+
+const status = (code: number, headers?: Record<string, string>) => () =>
+  Response.json({ error: `status ${code}` }, { status: code, headers });
+
+describe("HttpClient retries", () => {
+  it("retries transient statuses with exponential backoff", async () => {
+    const { fetchFn, requests } = stubFetch(status(503), status(502), status(500), Response.json({ ok: true }));
+    const { http, retries } = client(fetchFn, { maxAttempts: 4, baseDelayMs: 2, maxDelayMs: 5 });
+
+    await expect(http.get("/api/jobs")).resolves.toEqual({ ok: true });
+    expect(requests).toHaveLength(4);
+    expect(retries.map((r) => [r.attempt, r.status, r.delayMs])).toEqual([
+      [1, 503, 2],
+      [2, 502, 4],
+      [3, 500, 5],
+    ]);
+  });
+
+  it("gives up after maxAttempts", async () => {
+    const { fetchFn, requests } = stubFetch(status(503));
+    const { http } = client(fetchFn, { maxAttempts: 3 });
+
+    await expect(http.get("/api/jobs")).rejects.toBeInstanceOf(ServerError);
+    expect(requests).toHaveLength(3);
+  });
+
+  it("retries network errors", async () => {
+    const { fetchFn, requests } = stubFetch(new TypeError("socket hang up"), Response.json({ ok: true }));
+    const { http, retries } = client(fetchFn);
+
+    await expect(http.get("/api/jobs")).resolves.toEqual({ ok: true });
+    expect(requests).toHaveLength(2);
+    expect(retries[0]!.error).toBeInstanceOf(NetworkError);
+  });
+
+  it("does not retry statuses outside statusCodes", async () => {
+    const { fetchFn, requests } = stubFetch(status(501));
+    const { http } = client(fetchFn);
+
+    await expect(http.get("/api/jobs")).rejects.toBeInstanceOf(ServerError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("waits exactly Retry-After seconds", async () => {
+    const { fetchFn } = stubFetch(status(429, { "retry-after": "0.02" }), Response.json({ ok: true }));
+    const { http, retries } = client(fetchFn);
+
+    await http.get("/api/jobs");
+    expect(retries.map((r) => r.delayMs)).toEqual([20]);
+  });
+
+  it("honors a Retry-After HTTP-date", async () => {
+    const past = new Date(Date.now() - 60_000).toUTCString();
+    const { fetchFn } = stubFetch(status(503, { "retry-after": past }), Response.json({ ok: true }));
+    const { http, retries } = client(fetchFn, { baseDelayMs: 40 });
+
+    await http.get("/api/jobs");
+    // A date already passed means "now", not the 40 ms backoff
+    expect(retries.map((r) => r.delayMs)).toEqual([0]);
+  });
+
+  it("gives up when Retry-After is longer than maxDelayMs", async () => {
+    const { fetchFn, requests } = stubFetch(status(429, { "retry-after": "120" }));
+    const { http, retries } = client(fetchFn, { maxDelayMs: 1000 });
+
+    const error = await http.get("/api/jobs").catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfterMs).toBe(120_000);
+    expect(requests).toHaveLength(1);
+    expect(retries).toEqual([]);
+  });
+
+  it("never retries non-idempotent methods", async () => {
+    const { fetchFn, requests } = stubFetch(status(503), new TypeError("socket hang up"));
+    const { http } = client(fetchFn, { maxAttempts: 5 });
+
+    await expect(http.post("/api/jobs", { title: "x" })).rejects.toBeInstanceOf(ServerError);
+    await expect(http.patch("/api/jobs/1", { title: "x" })).rejects.toBeInstanceOf(NetworkError);
+    expect(requests.map((r) => r.method)).toEqual(["POST", "PATCH"]);
+  });
+
+  it("never retries a request that carried a payment", async () => {
+    const { fetchFn, requests } = stubFetch(status(503));
+    const { http } = client(fetchFn, { maxAttempts: 5 }, {
+      middleware: [{ onRequest: (request) => ({ ...request, headers: { ...request.headers, "X-PAYMENT": "paid" } }) }],
+    });
+
+    await expect(http.get("/api/bazaar/jobs/search")).rejects.toBeInstanceOf(ServerError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("retries nothing with retry: false", async () => {
+    const { fetchFn, requests } = stubFetch(status(503));
+    const http = new HttpClient({ baseUrl: "https://mdp.test", fetch: fetchFn, rateLimit: false, retry: false });
+
+    await expect(http.get("/api/jobs")).rejects.toBeInstanceOf(ServerError);
+    expect(requests).toHaveLength(1);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads delta-seconds and HTTP-dates", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter("1.5")).toBe(1500);
+    const inOneMinute = parseRetryAfter(new Date(Date.now() + 60_000).toUTCString())!;
+    expect(inOneMinute).toBeGreaterThan(58_000);
+    expect(inOneMinute).toBeLessThanOrEqual(60_000);
+  });
+
+  it("ignores missing and malformed values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("")).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("HttpClient middleware", () => {
+  it("runs onRequest in registration order and onResponse in reverse", async () => {
+    const { fetchFn, requests } = stubFetch(Response.json({ ok: true }));
+    const order: string[] = [];
+    const { http } = client(fetchFn, {}, {
+      middleware: [
+        {
+          onRequest: (request) => {
+            order.push("outer request");
+            request.headers["X-Outer"] = "1";
+          },
+          onResponse: () => void order.push("outer response"),
+        },
+      ],
+    });
+    http.use({
+      onRequest: (request) => {
+        order.push(`inner request sees outer=${request.headers["X-Outer"]}`);
+        return { ...request, url: `${request.url}?rewritten=1` };
+      },
+      onResponse: () => void order.push("inner response"),
+    });
+
+    await http.get("/api/jobs");
+    expect(order).toEqual(["outer request", "inner request sees outer=1", "inner response", "outer response"]);
+    expect(new URL(requests[0]!.url).search).toBe("?rewritten=1");
+    expect(requests[0]!.headers.get("x-outer")).toBe("1");
+  });
+
+  it("lets onResponse replace the response before outer middleware sees it", async () => {
+    const { fetchFn } = stubFetch(status(500));
+    const seen: number[] = [];
+    const { http } = client(fetchFn, { maxAttempts: 1 }, {
+      middleware: [
+        { onResponse: (response) => void seen.push(response.status) },
+        { onResponse: () => Response.json({ cached: true }) },
+      ],
+    });
+
+    await expect(http.get("/api/jobs")).resolves.toEqual({ cached: true });
+    expect(seen).toEqual([200]);
+  });
+
+  it("stops the pipeline when a hook throws", async () => {
+    const { fetchFn, requests } = stubFetch(Response.json({ ok: true }));
+    const later = vi.fn();
+    const { http } = client(fetchFn, {}, {
+      middleware: [
+        {
+          onRequest: () => {
+            throw new Error("blocked");
+          },
+        },
+        { onRequest: later },
+      ],
+    });
+
+    await expect(http.get("/api/jobs")).rejects.toThrow("blocked");
+    expect(later).not.toHaveBeenCalled();
+    expect(requests).toHaveLength(0);
+  });
+
+  it("resends through the rest of the pipeline with retry()", async () => {
+    const { fetchFn, requests } = stubFetch(status(409), Response.json({ ok: true }));
+    const inner = vi.fn();
+    const { http } = client(fetchFn, {}, {
+      middleware: [
+        {
+          onResponse: (response, { request, retry }) =>
+            response.status === 409 ? retry({ ...request, headers: { ...request.headers, "X-Again": "1" } }) : undefined,
+        },
+        { onRequest: inner },
+      ],
+    });
+
+    await expect(http.post("/api/jobs", {})).resolves.toEqual({ ok: true });
+    expect(inner).toHaveBeenCalledTimes(2);
+    expect(requests[1]!.headers.get("x-again")).toBe("1");
+  });
+});
+
+describe("HttpClient error mapping", () => {
+  it.each([
+    [400, ValidationError],
+    [401, AuthenticationError],
+    [402, PaymentRequiredError],
+    [403, AuthorizationError],
+    [404, NotFoundError],
+    [408, TimeoutError],
+    [409, ConflictError],
+    [429, RateLimitError],
+    [500, ServerError],
+    [503, ServerError],
+  ])("maps %i to %o", async (code, ErrorClass) => {
+    const { fetchFn } = stubFetch(() =>
+      Response.json({ error: "went wrong", code: "E_TEST" }, { status: code, headers: { "retry-after": "7" } })
+    );
+    const { http } = client(fetchFn, { maxAttempts: 1 });
+
+    const error = await http.get("/api/jobs/1").catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toMatchObject({
+      message: "went wrong",
+      statusCode: code,
+      code: "E_TEST",
+      method: "GET",
+      path: "/api/jobs/1",
+      response: { error: "went wrong", code: "E_TEST" },
+    });
+  });
+
+  it("marks only transient failures retryable", async () => {
+    const errorFor = async (code: number) => {
+      const { http } = client(stubFetch(status(code)).fetchFn, { maxAttempts: 1 });
+      return (await http.get("/api/jobs").catch((e: unknown) => e)) as SDKError;
+    };
+    expect((await errorFor(503)).isRetryable).toBe(true);
+    expect((await errorFor(429)).isRetryable).toBe(true);
+    expect((await errorFor(501)).isRetryable).toBe(false);
+    expect((await errorFor(404)).isRetryable).toBe(false);
+  });
+
+  it("carries Retry-After on RateLimitError", async () => {
+    const { fetchFn } = stubFetch(status(429, { "retry-after": "7" }));
+    const { http } = client(fetchFn, { maxAttempts: 1 });
+    const error = (await http.get("/api/jobs").catch((e: unknown) => e)) as RateLimitError;
+    expect(error.retryAfterMs).toBe(7000);
+  });
+
+  it("falls back to SDKError and the status text for other statuses", async () => {
+    const { fetchFn } = stubFetch(() => new Response("nope", { status: 418, statusText: "I'm a teapot" }));
+    const { http } = client(fetchFn);
+    const error = await http.get("/api/jobs").catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SDKError);
+    expect(error).toMatchObject({ statusCode: 418, message: "I'm a teapot" });
+  });
+
+  it("wraps fetch failures in NetworkError", async () => {
+    const cause = new TypeError("getaddrinfo ENOTFOUND");
+    const { http } = client(stubFetch(cause).fetchFn, { maxAttempts: 1 });
+    const error = await http.get("/api/jobs").catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toMatchObject({ message: "getaddrinfo ENOTFOUND", cause });
+  });
+});
+
+describe("per-call options", () => {
+  /** fetch that only settles when its request is aborted */
+  const hangingFetch = (() => {
+    const calls: RequestInit[] = [];
+    const fetchFn = ((_input: string, init?: RequestInit) => {
+      calls.push(init ?? {});
+      return new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+      });
+    }) as typeof fetch;
+    return { fetchFn, calls };
+  });
+
+  it("sends per-call headers through module methods", async () => {
+    const server = createMockMdpServer();
+    const seen: Headers[] = [];
+    const fetchFn = (async (input: string | URL | Request, init?: RequestInit) => {
+      seen.push(new Headers(init?.headers));
+      return server.fetch(input, init);
+    }) as typeof fetch;
+    const sdk = new MDPAgentSDK(server.config({ fetch: fetchFn, headers: { "X-Default": "d" } }));
+
+    await sdk.jobs.list({}, { headers: { "X-Trace-Id": "abc" } });
+    await sdk.jobs.list();
+    expect(seen[0]!.get("x-trace-id")).toBe("abc");
+    expect(seen[0]!.get("x-default")).toBe("d");
+    expect(seen[1]!.get("x-trace-id")).toBeNull();
+  });
+
+  it("applies a per-call timeout over the client default", async () => {
+    const { fetchFn, calls } = hangingFetch();
+    const sdk = new MDPAgentSDK({ baseUrl: "https://mdp.test", fetch: fetchFn, rateLimit: false, retry: false, timeout: 60_000 });
+
+    const error = await sdk.jobs.list({}, { timeout: 20 }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).message).toContain("20ms");
+    expect(calls).toHaveLength(1);
+  });
+
+  it("rejects with the abort reason and sends nothing once aborted", async () => {
+    const { fetchFn, requests } = stubFetch(Response.json({ items: [] }));
+    const sdk = new MDPAgentSDK({ baseUrl: "https://mdp.test", fetch: fetchFn, rateLimit: false });
+    const reason = new Error("user cancelled");
+
+    await expect(sdk.jobs.list({}, { signal: AbortSignal.abort(reason) })).rejects.toBe(reason);
+    expect(requests).toHaveLength(0);
+  });
+
+  it("cancels an in-flight request", async () => {
+    const { fetchFn } = hangingFetch();
+    const sdk = new MDPAgentSDK({ baseUrl: "https://mdp.test", fetch: fetchFn, rateLimit: false });
+    const controller = new AbortController();
+    const reason = new Error("user cancelled");
+
+    const pending = sdk.jobs.list({}, { signal: controller.signal });
+    controller.abort(reason);
+    await expect(pending).rejects.toBe(reason);
+  });
+
+  it("cancels the wait between retries", async () => {
+    const { fetchFn, requests } = stubFetch(status(503));
+    const { http } = client(fetchFn, { maxAttempts: 5, baseDelayMs: 60_000, maxDelayMs: 60_000 });
+    const controller = new AbortController();
+
+    const pending = http.get("/api/jobs", undefined, { signal: controller.signal });
+    await vi.waitFor(() => expect(requests).toHaveLength(1));
+    controller.abort(new Error("stop"));
+    await expect(pending).rejects.toThrow("stop");
+    expect(requests).toHaveLength(1);
+  });
+
+  it("cancels the wait for a rate-limit token", async () => {
+    const { fetchFn, requests } = stubFetch(Response.json({ items: [] }));
+    const sdk = new MDPAgentSDK({
+      baseUrl: "https://mdp.test",
+      fetch: fetchFn,
+      rateLimit: { global: { limit: 1, intervalMs: 60_000 }, routes: [] },
+    });
+    await sdk.jobs.list();
+
+    await expect(sdk.jobs.list({}, { signal: AbortSignal.timeout(20) })).rejects.toMatchObject({ name: "TimeoutError" });
+    expect(requests).toHaveLength(1);
+  });
+});
@@ -4,26 +4,77 @@
 
 import {
   SDKConfig,
+  CallOptions,
+  AuthVerifyResponse,
+  ReauthConfig,
+  RetryConfig,
+  RequestRateLimiter,
+  RequestCache,
+  HttpMiddleware,
+  HttpRequest,
+  X402PaymentReceipt,
   SDKError,
+  SDKErrorDetails,
   AuthenticationError,
   AuthorizationError,
   NotFoundError,
   ValidationError,
+  PaymentRequiredError,
+  ConflictError,
+  RateLimitError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
 } from "./types.js";
+import { RateLimiter } from "./limiter.js";
+import { ResponseValidator } from "./validation.js";
+import {
+  createX402Middleware,
+  decodePaymentRequired,
+  decodePaymentResponse,
+  X402_PAYMENT_HEADER,
+} from "./x402.js";
 
-export interface RequestOptions {
+export interface RequestOptions extends CallOptions {
   method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
   body?: unknown;
   headers?: Record<string, string>;
   params?: Record<string, string | number | undefined>;
 }
 
+/** What happened while sending one attempt */
+interface SendState {
+  /** A request with an x402 payment header reached the network */
+  paid: boolean;
+}
+
+type ResolvedRetryConfig = Required<Omit<RetryConfig, "onRetry">> & Pick<RetryConfig, "onRetry">;
+
+const DEFAULT_RETRY: ResolvedRetryConfig = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  jitter: true,
+  methods: ["GET", "PUT", "DELETE"],
+  statusCodes: [408, 429, 500, 502, 503, 504],
+};
+
 export class HttpClient {
   private baseUrl: string;
   private token?: string;
   private fetchFn: typeof fetch;
   private timeout: number;
   private defaultHeaders: Record<string, string>;
+  private retry: ResolvedRetryConfig;
+  private rateLimiter?: RequestRateLimiter;
+  private middleware: HttpMiddleware[];
+  private reauth?: ReauthConfig;
+  private reauthenticator?: () => Promise<AuthVerifyResponse>;
+  private reauthInFlight?: Promise<void>;
+  private cache?: RequestCache;
+
+  /** Envelope unwrapping and schema validation shared by all modules */
+  readonly validator: ResponseValidator;
 
   constructor(config: SDKConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, ""); // Remove trailing slash
@@ -31,6 +82,30 @@ export class HttpClient {
     this.fetchFn = config.fetch ?? globalThis.fetch;
     this.timeout = config.timeout ?? 30000;
     this.defaultHeaders = config.headers ?? {};
+    this.retry =
+      config.retry === false
+        ? { ...DEFAULT_RETRY, maxAttempts: 1 }
+        : { ...DEFAULT_RETRY, ...config.retry };
+    if (config.rateLimit !== false) {
+      this.rateLimiter = isRateLimiter(config.rateLimit)
+        ? config.rateLimit
+        : new RateLimiter(config.rateLimit);
+    }
+    this.validator = new ResponseValidator(config.validation);
+    // x402 auto-pay runs outermost so paid retries pass through user middleware
+    this.middleware = [
+      ...(config.x402 ? [createX402Middleware(config.x402)] : []),
+      ...(config.middleware ?? []),
+    ];
+    this.reauth = config.reauth === false ? undefined : config.reauth ?? {};
+    this.cache = config.cache;
+  }
+
+  /**
+   * Append middleware to the pipeline (runs inside previously added middleware)
+   */
+  use(middleware: HttpMiddleware): void {
+    this.middleware.push(middleware);
   }
 
   setToken(token: string | undefined): void {
@@ -41,6 +116,18 @@ export class HttpClient {
     return this.token;
   }
 
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Register the sign-in flow used to replace an expired token
+   * (set by `AuthModule.authenticate`; pass undefined to disable)
+   */
+  setReauthenticator(reauthenticate: (() => Promise<AuthVerifyResponse>) | undefined): void {
+    this.reauthenticator = reauthenticate;
+  }
+
   private buildUrl(path: string, params?: Record<string, string | number | undefined>): string {
     const url = new URL(`${this.baseUrl}${path}`);
     
@@ -55,7 +142,7 @@ export class HttpClient {
     return url.toString();
   }
 
-  private async handleResponse<T>(response: Response): Promise<T> {
+  private async handleResponse<T>(response: Response, method: string, path: string): Promise<T> {
     const contentType = response.headers.get("content-type");
     const isJson = contentType?.includes("application/json");
     
@@ -66,23 +153,51 @@ export class HttpClient {
       if (isJson) {
         try {
           errorBody = await response.json();
-          errorMessage = (errorBody as { error?: string })?.error ?? errorMessage;
+          const parsed = errorBody as { error?: unknown; message?: unknown };
+          if (typeof parsed?.error === "string") errorMessage = parsed.error;
+          else if (typeof parsed?.message === "string") errorMessage = parsed.message;
         } catch {
           // Ignore JSON parse errors
         }
       }
 
+      const details: SDKErrorDetails = {
+        method,
+        path,
+        code: extractErrorCode(errorBody),
+        response: errorBody,
+      };
+
       switch (response.status) {
         case 401:
-          throw new AuthenticationError(errorMessage);
+          throw new AuthenticationError(errorMessage, details);
         case 403:
-          throw new AuthorizationError(errorMessage);
+          throw new AuthorizationError(errorMessage, details);
         case 404:
-          throw new NotFoundError(errorMessage);
+          throw new NotFoundError(errorMessage, details);
         case 400:
-          throw new ValidationError(errorMessage);
+          throw new ValidationError(errorMessage, details);
+        case 402:
+          throw new PaymentRequiredError(
+            errorMessage,
+            decodePaymentRequired(errorBody, response.headers),
+            details
+          );
+        case 408:
+          throw new TimeoutError(errorMessage, details);
+        case 409:
+          throw new ConflictError(errorMessage, details);
+        case 429:
+          throw new RateLimitError(
+            errorMessage,
+            parseRetryAfter(response.headers.get("retry-after")),
+            details
+          );
         default:
-          throw new SDKError(errorMessage, response.status, errorBody);
+          if (response.status >= 500) {
+            throw new ServerError(errorMessage, response.status, details);
+          }
+          throw new SDKError(errorMessage, response.status, errorBody, details);
       }
     }
 
@@ -94,9 +209,93 @@ export class HttpClient {
   }
 
   async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
-    const { method = "GET", body, headers = {}, params } = options;
-    
-    const url = this.buildUrl(path, params);
+    const method = options.method ?? "GET";
+    const cacheKey =
+      this.cache && method === "GET" && this.cache.isCacheable(path)
+        ? `${this.buildUrl(path, options.params)}${this.cache.isPerIdentity?.(path) ? ` ${this.token ?? ""}` : ""}`
+        : undefined;
+    if (cacheKey) {
+      const cached = this.cache!.get<T>(cacheKey);
+      if (cached !== undefined) return cached;
+    }
+
+    const { data } = await this.requestWithPayment<T>(path, options);
+
+    if (cacheKey) this.cache!.set(cacheKey, data, path);
+    else if (method !== "GET") this.cache?.invalidate(path);
+    return data;
+  }
+
+  /**
+   * Like request(), but also returns the x402 settlement receipt when the
+   * request was paid for automatically (see `SDKConfig.x402`).
+   */
+  async requestWithPayment<T>(
+    path: string,
+    options: RequestOptions = {}
+  ): Promise<{ data: T; payment?: X402PaymentReceipt }> {
+    const { method = "GET", signal } = options;
+    signal?.throwIfAborted();
+    const canRetry = this.retry.methods.includes(method);
+    const maxAttempts = canRetry ? Math.max(1, this.retry.maxAttempts) : 1;
+    const canReauth = this.canReauthenticate(path);
+    let reauthenticated = false;
+
+    if (canReauth && this.isTokenExpiring()) {
+      await this.refreshToken("expiring");
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+      const sentToken = this.token;
+      // Set once a request carrying an x402 payment went out: replaying it would pay again
+      const sent: SendState = { paid: false };
+      try {
+        response = await this.send(path, options, sent);
+      } catch (error) {
+        const retryable = error instanceof SDKError && error.isRetryable;
+        if (!retryable || sent.paid || attempt >= maxAttempts) throw error;
+        const delayMs = this.backoffDelay(attempt);
+        this.notifyRetry({ method, path, attempt, delayMs, error });
+        await sleep(delayMs, signal);
+        continue;
+      }
+
+      // Sign in again once and replay; a concurrent request may already have refreshed
+      if (response.status === 401 && canReauth && !reauthenticated && !sent.paid) {
+        reauthenticated = true;
+        await response.body?.cancel().catch(() => undefined);
+        if (this.token === sentToken) await this.refreshToken("unauthorized");
+        attempt--;
+        continue;
+      }
+
+      if (
+        !response.ok &&
+        !sent.paid &&
+        attempt < maxAttempts &&
+        this.retry.statusCodes.includes(response.status)
+      ) {
+        const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+        // Honor Retry-After exactly; give up if the server asks us to wait too long.
+        if (retryAfterMs === undefined || retryAfterMs <= this.retry.maxDelayMs) {
+          const delayMs = retryAfterMs ?? this.backoffDelay(attempt);
+          await response.body?.cancel().catch(() => undefined);
+          this.notifyRetry({ method, path, attempt, delayMs, status: response.status });
+          await sleep(delayMs, signal);
+          continue;
+        }
+      }
+
+      const payment = decodePaymentResponse(response.headers.get("x-payment-response"));
+      const data = await this.handleResponse<T>(response, method, path);
+      return { data, payment };
+    }
+  }
+
+  /** Perform a single attempt through the middleware pipeline */
+  private async send(path: string, options: RequestOptions, sent: SendState): Promise<Response> {
+    const { method = "GET", body, headers = {}, params, signal, timeout } = options;
     
     const requestHeaders: Record<string, string> = {
       ...this.defaultHeaders,
@@ -111,43 +310,226 @@ export class HttpClient {
       requestHeaders["Authorization"] = `Bearer ${this.token}`;
     }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-    try {
-      const response = await this.fetchFn(url, {
+    return this.dispatch(
+      {
         method,
+        url: this.buildUrl(path, params),
+        path,
         headers: requestHeaders,
         body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal,
+        timeout: timeout ?? this.timeout,
+      },
+      0,
+      sent
+    );
+  }
+
+  private async dispatch(request: HttpRequest, index: number, sent: SendState): Promise<Response> {
+    const middleware = this.middleware[index];
+    if (!middleware) {
+      if (hasPaymentHeader(request.headers)) sent.paid = true;
+      return this.transport(request);
+    }
+
+    let current: HttpRequest = { ...request, headers: { ...request.headers } };
+    if (middleware.onRequest) {
+      current = (await middleware.onRequest(current)) ?? current;
+    }
+
+    const next = (req: HttpRequest = current) => this.dispatch(req, index + 1, sent);
+    const response = await next(current);
+
+    if (!middleware.onResponse) {
+      return response;
+    }
+    return (await middleware.onResponse(response, { request: current, retry: next })) ?? response;
+  }
+
+  /** Terminal handler: rate limit, then fetch with a timeout */
+  private async transport(request: HttpRequest): Promise<Response> {
+    const { signal } = request;
+
+    // Every attempt (including retries) counts against the platform quota
+    await this.rateLimiter?.acquire(request.method, request.path, signal);
+    signal?.throwIfAborted();
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), request.timeout);
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      return await this.fetchFn(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
         signal: controller.signal,
         credentials: "include", // Include cookies for web environments
       });
-
-      return this.handleResponse<T>(response);
     } catch (error) {
+      // Caller cancellation is not an SDK failure: surface the abort reason as-is
+      if (signal?.aborted) throw signal.reason;
+      // Custom fetch implementations (mocks, cassettes) may raise typed errors themselves
+      if (error instanceof SDKError) throw error;
+
+      const details = { method: request.method, path: request.path, cause: error };
       if (error instanceof Error && error.name === "AbortError") {
-        throw new SDKError("Request timeout", 408);
+        throw new TimeoutError(`Request timed out after ${request.timeout}ms`, details);
       }
-      throw error;
+      throw new NetworkError(
+        error instanceof Error ? error.message : "Network request failed",
+        details
+      );
     } finally {
       clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  private canReauthenticate(path: string): boolean {
+    // The sign-in routes themselves must never wait on a re-auth
+    return (
+      this.reauth !== undefined &&
+      this.reauthenticator !== undefined &&
+      path !== "/api/auth/nonce" &&
+      path !== "/api/auth/verify" &&
+      path !== "/api/auth/logout"
+    );
+  }
+
+  private isTokenExpiring(): boolean {
+    const expiresAt = this.token ? decodeJwtExpiry(this.token) : undefined;
+    if (!expiresAt) return false;
+    const skewMs = (this.reauth?.refreshBeforeSeconds ?? 60) * 1000;
+    return expiresAt.getTime() - skewMs <= Date.now();
+  }
+
+  /** Run the sign-in flow, sharing one in-flight attempt across concurrent requests */
+  private refreshToken(reason: "expiring" | "unauthorized"): Promise<void> {
+    this.reauthInFlight ??= (async () => {
+      try {
+        const { token, user } = await this.reauthenticator!();
+        try {
+          await this.reauth?.tokenRefreshed?.({
+            token,
+            user,
+            expiresAt: decodeJwtExpiry(token),
+            reason,
+          });
+        } catch {
+          // A failing observer must not break the request
+        }
+      } finally {
+        this.reauthInFlight = undefined;
+      }
+    })();
+    return this.reauthInFlight;
+  }
+
+  /** Exponential backoff for the given (1-based) failed attempt */
+  private backoffDelay(attempt: number): number {
+    const exp = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** (attempt - 1));
+    return this.retry.jitter ? Math.floor(Math.random() * exp) : exp;
+  }
+
+  private notifyRetry(info: Parameters<NonNullable<RetryConfig["onRetry"]>>[0]): void {
+    try {
+      this.retry.onRetry?.(info);
+    } catch {
+      // A failing observer must not break the request
     }
   }
 
   // Convenience methods
-  async get<T>(path: string, params?: Record<string, string | number | undefined>): Promise<T> {
-    return this.request<T>(path, { method: "GET", params });
+  async get<T>(
+    path: string,
+    params?: Record<string, string | number | undefined>,
+    options?: CallOptions
+  ): Promise<T> {
+    return this.request<T>(path, { ...options, method: "GET", params });
+  }
+
+  async post<T>(path: string, body?: unknown, options?: CallOptions): Promise<T> {
+    return this.request<T>(path, { ...options, method: "POST", body });
   }
 
-  async post<T>(path: string, body?: unknown): Promise<T> {
-    return this.request<T>(path, { method: "POST", body });
+  async patch<T>(path: string, body?: unknown, options?: CallOptions): Promise<T> {
+    return this.request<T>(path, { ...options, method: "PATCH", body });
   }
 
-  async patch<T>(path: string, body?: unknown): Promise<T> {
-    return this.request<T>(path, { method: "PATCH", body });
+  async delete<T>(path: string, options?: CallOptions): Promise<T> {
+    return this.request<T>(path, { ...options, method: "DELETE" });
   }
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ * Returns undefined when the header is missing or malformed.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.ceil(Number(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+}
 
-  async delete<T>(path: string): Promise<T> {
-    return this.request<T>(path, { method: "DELETE" });
+/**
+ * Read the `exp` claim of a JWT without verifying it.
+ * Returns undefined for opaque tokens or tokens without an expiry.
+ */
+export function decodeJwtExpiry(token: string): Date | undefined {
+  const payload = token.split(".")[1];
+  if (!payload) return undefined;
+  try {
+    const json = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof json?.exp === "number" ? new Date(json.exp * 1000) : undefined;
+  } catch {
+    return undefined;
   }
 }
+
+function extractErrorCode(body: unknown): string | undefined {
+  const code = (body as { code?: unknown } | undefined)?.code;
+  if (typeof code === "string") return code;
+  if (typeof code === "number") return String(code);
+  return undefined;
+}
+
+function hasPaymentHeader(headers: Record<string, string>): boolean {
+  const name = X402_PAYMENT_HEADER.toLowerCase();
+  return Object.keys(headers).some((key) => key.toLowerCase() === name);
+}
+
+function isRateLimiter(value: unknown): value is RequestRateLimiter {
+  return typeof (value as RequestRateLimiter | undefined)?.acquire === "function";
+}
+
+/** Resolve after `ms`, rejecting early with the abort reason if `signal` fires */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -14,7 +14,8 @@ import { MessagesModule } from "./messages.js";
 import { DisputesModule } from "./disputes.js";
 import { EscrowModule } from "./escrow.js";
 import { BazaarModule } from "./bazaar.js";
-import type { SDKConfig, WalletSigner } from "./types.js";
+import { Watcher } from "./watch.js";
+import type { SDKConfig, WalletSigner, HttpMiddleware, WatchOptions } from "./types.js";
 import { startSdkUpdateWatcher, checkForSdkUpdate } from "./updates.js";
 
 // ============================================
@@ -60,19 +61,28 @@ export class MDPAgentSDK {
   constructor(config: SDKConfig) {
     this.http = new HttpClient(config);
 
-    this.auth = new AuthModule(this.http);
+    this.auth = new AuthModule(this.http, config);
     this.jobs = new JobsModule(this.http);
     this.agents = new AgentsModule(this.http);
     this.proposals = new ProposalsModule(this.http);
     this.deliveries = new DeliveriesModule(this.http);
     this.ratings = new RatingsModule(this.http);
-    this.payments = new PaymentsModule(this.http);
+    this.payments = new PaymentsModule(this.http, config);
     this.messages = new MessagesModule(this.http);
     this.disputes = new DisputesModule(this.http);
     this.escrow = new EscrowModule(this.http);
     this.bazaar = new BazaarModule(this.http);
   }
 
+  /**
+   * Watch the marketplace for changes: new jobs, proposals, deliveries,
+   * payments, messages and escrow deadlines, as typed events
+   * @param options - Events to watch, poll interval, cursor store
+   */
+  watch(options?: WatchOptions): Watcher {
+    return new Watcher(this, options);
+  }
+
   /**
    * Create SDK instance with automatic authentication
    * @param config - SDK configuration
@@ -135,6 +145,15 @@ export class MDPAgentSDK {
     return new MDPAgentSDK(config);
   }
 
+  /**
+   * Add request/response middleware (e.g. tracing, signing, logging)
+   * @param middleware - Middleware hooks applied to every module request
+   */
+  use(middleware: HttpMiddleware): this {
+    this.http.use(middleware);
+    return this;
+  }
+
   /**
    * Check if SDK is authenticated
    */
@@ -170,7 +189,9 @@ export function createSDK(
  * Create SDK for local development
  */
 export function createLocalSDK(port: number = 3201): MDPAgentSDK {
-  return createSDK(`http://localhost:${port}`);
+  return createSDK(`http://localhost:${port}`, {
+    signInVerification: { allowedDomains: [`localhost:${port}`] },
+  });
 }
 
 // ============================================
@@ -182,9 +203,163 @@ export * from "./types.js";
 
 // Auth utilities
 export { createViemSigner, createPrivateKeySigner, createManualSigner, createCdpEvmSigner } from "./auth.js";
+export { createKeystoreSigner, encryptKeystore, createKeystore } from "./keystore.js";
+export type { KeystoreSigner, KeystoreSignerOptions, EncryptKeystoreOptions } from "./keystore.js";
+export { createRemoteSigner } from "./remote.js";
+export type { RemoteSignerConfig } from "./remote.js";
+export {
+  createSmartAccountSigner,
+  isSmartAccountSigner,
+  isErc6492Signature,
+  ERC6492_MAGIC_SUFFIX,
+} from "./smart-account.js";
+export type { SmartAccountSignerConfig } from "./smart-account.js";
 
 // Payment utilities
 export { formatUSDC, parseUSDC, X402_CONSTANTS, EIP3009_TYPES, USDC_EIP712_DOMAIN, MDP_ESCROW_FUND_ABI } from "./payments.js";
+export {
+  signTransferAuthorization,
+  encodeX402PaymentHeader,
+  chainIdFromNetwork,
+  tokenAddressFromAsset,
+} from "./payments.js";
+export type { TransferAuthorization } from "./payments.js";
+
+// x402 auto-pay
+export {
+  createX402Middleware,
+  decodePaymentRequired,
+  decodePaymentResponse,
+  X402_PAYMENT_HEADER,
+  X402_PAYMENT_RESPONSE_HEADER,
+} from "./x402.js";
+
+// Sessions and tokens
+export { decodeJwtExpiry } from "./http.js";
+export { MemorySessionStore, FileSessionStore, EncryptedFileSessionStore, sessionKey } from "./session.js";
+
+// Sign-in message verification
+export { parseSignInMessage, verifySignInMessage, MDP_SIGN_IN_DOMAINS } from "./siwe.js";
+
+// Spending policy
+export {
+  createPolicySigner,
+  createApprovalSigner,
+  MemorySpendHistory,
+  FileSpendHistory,
+} from "./policy.js";
+export type { PolicySigner } from "./policy.js";
+
+// Payment approval
+export {
+  requestPaymentApproval,
+  createPaymentApprovalRequest,
+  formatApprovalSummary,
+  createTerminalApprover,
+  createHttpApprover,
+} from "./approval.js";
+export type { HttpApprover, HttpApproverOptions } from "./approval.js";
+
+// Fleets and shared caching
+export { MDPFleet } from "./fleet.js";
+export type { FleetConfig, FleetMember, FleetResult } from "./fleet.js";
+export { ResponseCache, MDP_CACHEABLE_PATHS, MDP_PER_IDENTITY_PATHS } from "./cache.js";
+export type { ResponseCacheConfig } from "./cache.js";
+
+// Watching for changes
+export { Watcher, MemoryWatchCursorStore, FileWatchCursorStore, emptyWatchCursor } from "./watch.js";
+
+// Agent pager
+export { AgentPager, MemoryPagerStateStore, FilePagerStateStore, skillOverlap } from "./pager.js";
+export type {
+  AgentPagerConfig,
+  PagerContext,
+  PagerJobsResult,
+  PagerLoop,
+  PagerMessagesResult,
+  PagerProposalDraft,
+  PagerProposedJob,
+  PagerState,
+  PagerStateStore,
+} from "./pager.js";
+
+// Job matching
+export { JobMatcher, formatJobMatch, MDP_SKILL_ALIASES } from "./matcher.js";
+export type {
+  JobMatch,
+  JobMatcherConfig,
+  MatchFactor,
+  MatchFactorName,
+  SkillMatch,
+  SkillMatchKind,
+} from "./matcher.js";
+
+// Proposal drafting
+export {
+  ProposalStrategy,
+  fixedMargin,
+  undercutMedian,
+  hourlyEstimate,
+  estimateJobHours,
+  acceptanceCriteriaLines,
+} from "./strategy.js";
+export type {
+  PriceQuote,
+  PricingContext,
+  PricingStrategy,
+  ProposalQuote,
+  ProposalStrategyConfig,
+} from "./strategy.js";
+
+// Pagination
+export { PageIterator, paginateOffset, paginateCursor, searchPages, compareBy } from "./paginate.js";
+
+// Rate limiting
+export { RateLimiter, TokenBucket, MDP_RATE_LIMITS } from "./limiter.js";
+
+// Response validation
+export {
+  ResponseValidator,
+  validate,
+  UserSchema,
+  AgentSchema,
+  JobSchema,
+  ProposalSchema,
+  PendingProposalSchema,
+  DeliverySchema,
+  PaymentSchema,
+  RatingSchema,
+  MessageSchema,
+  ConversationSchema,
+  EscrowStateSchema,
+  ListMetaSchema,
+} from "./validation.js";
+export type { Schema } from "./validation.js";
+
+// Offline testing
+export { createMockMdpServer, createMockSignerEndpoint } from "./mock.js";
+export type {
+  MockMdpServer,
+  MockMdpServerOptions,
+  MockMdpState,
+  MockJob,
+  MockPayment,
+  MockConversation,
+  MockDispute,
+  MockSignerEndpoint,
+  MockSignerEndpointOptions,
+} from "./mock.js";
+export { createCassette, DEFAULT_REDACTED_HEADERS, DEFAULT_REDACTED_KEYS } from "./cassette.js";
+export type {
+  Cassette,
+  CassetteFile,
+  CassetteInteraction,
+  CassetteMode,
+  CassetteOptions,
+  CassetteRequest,
+  CassetteResponse,
+  UnmatchedRequestMode,
+} from "./cassette.js";
 
 // Module classes (for advanced usage)
 export { AuthModule } from "./auth.js";
@@ -3,58 +3,73 @@
 // ============================================
 
 import { HttpClient } from "./http.js";
+import { JobSchema } from "./validation.js";
+import { compareBy, paginateOffset, searchPages } from "./paginate.js";
+import type { PageIterator } from "./paginate.js";
 import {
   Job,
+  CallOptions,
   CreateJobRequest,
   UpdateJobRequest,
   ListJobsParams,
+  ListResponse,
+  IterateOptions,
+  JobSearchParams,
+  SearchResult,
 } from "./types.js";
 
 export class JobsModule {
   constructor(private http: HttpClient) {}
 
-  private coerceList(response: any): Job[] {
-    if (response?.items && Array.isArray(response.items)) return response.items;
-    if (response?.jobs && Array.isArray(response.jobs)) return response.jobs;
-    return [];
-  }
-
-  private coerceItem(response: any): Job {
-    if (response?.item) return response.item;
-    if (response?.job) return response.job;
-    return response as Job;
-  }
-
   /**
    * List available jobs with optional filtering
    * @param params - Query parameters for filtering
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async list(params?: ListJobsParams): Promise<Job[]> {
-    const response = await this.http.get<any>("/api/jobs", {
+  async list(params?: ListJobsParams, options?: CallOptions): Promise<Job[]> {
+    const response = await this.http.get<unknown>("/api/jobs", {
       status: params?.status,
       limit: params?.limit,
       offset: params?.offset,
-    });
-    return this.coerceList(response);
+    }, options);
+    return this.http.validator.list(response, JobSchema, "jobs", "GET /api/jobs");
+  }
+
+  /**
+   * Iterate every job matching `params`, fetching pages as the loop advances
+   * @param params - Query parameters for filtering
+   * @param options - Page size, item limit, concurrency and per-call options
+   */
+  iterate(
+    params?: Omit<ListJobsParams, "limit" | "offset">,
+    options?: IterateOptions
+  ): PageIterator<Job> {
+    return paginateOffset(
+      (limit, offset, callOptions) =>
+        this.page("/api/jobs", { status: params?.status, limit, offset }, callOptions),
+      options
+    );
   }
 
   /**
    * Get a specific job by ID
    * @param id - Job UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async get(id: string): Promise<Job> {
-    const response = await this.http.get<any>(`/api/jobs/${id}`);
-    return this.coerceItem(response);
+  async get(id: string, options?: CallOptions): Promise<Job> {
+    const response = await this.http.get<unknown>(`/api/jobs/${id}`, undefined, options);
+    return this.http.validator.item(response, JobSchema, "job", "GET /api/jobs/:id");
   }
 
   /**
    * Create a new job posting
    * Requires authentication
    * @param data - Job creation data
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async create(data: CreateJobRequest): Promise<Job> {
-    const response = await this.http.post<any>("/api/jobs", data);
-    return this.coerceItem(response);
+  async create(data: CreateJobRequest, options?: CallOptions): Promise<Job> {
+    const response = await this.http.post<unknown>("/api/jobs", data, options);
+    return this.http.validator.item(response, JobSchema, "job", "POST /api/jobs");
   }
 
   /**
@@ -62,68 +77,125 @@ export class JobsModule {
    * Requires authentication and ownership
    * @param id - Job UUID
    * @param data - Fields to update
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async update(id: string, data: UpdateJobRequest): Promise<Job> {
-    const response = await this.http.patch<any>(`/api/jobs/${id}`, data);
-    return this.coerceItem(response);
+  async update(id: string, data: UpdateJobRequest, options?: CallOptions): Promise<Job> {
+    const response = await this.http.patch<unknown>(`/api/jobs/${id}`, data, options);
+    return this.http.validator.item(response, JobSchema, "job", "PATCH /api/jobs/:id");
   }
 
   /**
    * List jobs posted by the authenticated user.
    * Includes escrow/fee tx hashes.
    */
-  async listMy(params?: { limit?: number; offset?: number }): Promise<Job[]> {
-    const response = await this.http.get<any>("/api/jobs/my", {
+  async listMy(
+    params?: { limit?: number; offset?: number },
+    options?: CallOptions
+  ): Promise<Job[]> {
+    const response = await this.http.get<unknown>("/api/jobs/my", {
       limit: params?.limit,
       offset: params?.offset,
-    });
-    return this.coerceList(response);
+    }, options);
+    return this.http.validator.list(response, JobSchema, "jobs", "GET /api/jobs/my");
+  }
+
+  /**
+   * Iterate every job posted by the authenticated user
+   * @param options - Page size, item limit, concurrency and per-call options
+   */
+  iterateMy(options?: IterateOptions): PageIterator<Job> {
+    return paginateOffset(
+      (limit, offset, callOptions) => this.page("/api/jobs/my", { limit, offset }, callOptions),
+      options
+    );
   }
 
   /**
    * List open jobs (convenience method)
    */
-  async listOpen(params?: Omit<ListJobsParams, "status">): Promise<Job[]> {
-    return this.list({ ...params, status: "open" });
+  async listOpen(params?: Omit<ListJobsParams, "status">, options?: CallOptions): Promise<Job[]> {
+    return this.list({ ...params, status: "open" }, options);
   }
 
   /**
    * List jobs in progress (convenience method)
    */
-  async listInProgress(params?: Omit<ListJobsParams, "status">): Promise<Job[]> {
-    return this.list({ ...params, status: "in_progress" });
+  async listInProgress(
+    params?: Omit<ListJobsParams, "status">,
+    options?: CallOptions
+  ): Promise<Job[]> {
+    return this.list({ ...params, status: "in_progress" }, options);
+  }
+
+  /**
+   * Search every job rather than one page. `status` is filtered by the API;
+   * skills and budget are matched client-side while paging through the list.
+   * @param params - Criteria (combined with AND), sorting and result limit
+   * @param options - Page size, scan limit (`maxItems`), concurrency and per-call options
+   */
+  async search(params: JobSearchParams = {}, options?: IterateOptions): Promise<SearchResult<Job>> {
+    const skills = params.skills?.map((s) => s.toLowerCase()) ?? [];
+
+    const matches = (job: Job) => {
+      if (params.status && job.status !== params.status) return false;
+      if (params.minBudget !== undefined && job.budgetUSDC < params.minBudget) return false;
+      if (params.maxBudget !== undefined && job.budgetUSDC > params.maxBudget) return false;
+      if (skills.length === 0) return true;
+      const jobSkills = job.requiredSkills.map((s) => s.toLowerCase());
+      return params.skillMatch === "all"
+        ? skills.every((s) => jobSkills.includes(s))
+        : skills.some((s) => jobSkills.includes(s));
+    };
+
+    const sortKeys = {
+      budget: (job: Job) => job.budgetUSDC,
+      createdAt: (job: Job) => Date.parse(job.createdAt),
+      deadline: (job: Job) => (job.deadline ? Date.parse(job.deadline) : undefined),
+    };
+
+    return searchPages(this.iterate({ status: params.status }, options), matches, {
+      compare: params.sortBy && compareBy(sortKeys[params.sortBy], params.order),
+      limit: params.limit,
+      maxItems: options?.maxItems,
+    });
   }
 
   /**
-   * Search jobs by skills (client-side filtering)
+   * Search jobs by skills (any of them, unless `skillMatch: "all"`)
    * @param skills - Required skills to match
-   * @param params - Additional query parameters
+   * @param params - Further criteria, sorting and result limit
+   * @param options - Page size, scan limit, concurrency and per-call options
    */
-  async findBySkills(skills: string[], params?: ListJobsParams): Promise<Job[]> {
-    const jobs = await this.list(params);
-    const lowerSkills = skills.map(s => s.toLowerCase());
-    
-    return jobs.filter(job => 
-      job.requiredSkills.some(skill => 
-        lowerSkills.includes(skill.toLowerCase())
-      )
-    );
+  async findBySkills(
+    skills: string[],
+    params?: Omit<JobSearchParams, "skills">,
+    options?: IterateOptions
+  ): Promise<SearchResult<Job>> {
+    return this.search({ ...params, skills }, options);
   }
 
   /**
-   * Search jobs by budget range (client-side filtering)
+   * Search jobs by budget range
    * @param minBudget - Minimum budget in USDC
    * @param maxBudget - Maximum budget in USDC
-   * @param params - Additional query parameters
+   * @param params - Further criteria, sorting and result limit
+   * @param options - Page size, scan limit, concurrency and per-call options
    */
   async findByBudgetRange(
     minBudget: number,
     maxBudget: number,
-    params?: ListJobsParams
-  ): Promise<Job[]> {
-    const jobs = await this.list(params);
-    return jobs.filter(job => 
-      job.budgetUSDC >= minBudget && job.budgetUSDC <= maxBudget
-    );
+    params?: Omit<JobSearchParams, "minBudget" | "maxBudget">,
+    options?: IterateOptions
+  ): Promise<SearchResult<Job>> {
+    return this.search({ ...params, minBudget, maxBudget }, options);
+  }
+
+  private async page(
+    path: string,
+    params: Record<string, string | number | undefined>,
+    options: CallOptions
+  ): Promise<ListResponse<Job>> {
+    const response = await this.http.get<unknown>(path, params, options);
+    return this.http.validator.page(response, JobSchema, "jobs", `GET ${path}`);
   }
 }
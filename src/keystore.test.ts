@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { privateKeyToAccount } from "viem/accounts";
+import { createKeystoreSigner, encryptKeystore } from "./keystore.js";
+import { KeystoreError } from "./types.js";
+import type { KeystoreV3 } from "./types.js";
+
+// Test vectors from the Web3 Secret Storage Definition
+const PASSWORD = "testpassword";
+const PRIVATE_KEY = "0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d";
+const ADDRESS = privateKeyToAccount(PRIVATE_KEY).address;
+
+const PBKDF2_VECTOR: KeystoreV3 = {
+  version: 3,
+  id: "3198bc9c-6672-5ab3-d995-4942343ae5b6",
+  crypto: {
+    cipher: "aes-128-ctr",
+    cipherparams: { iv: "6087dab2f9fdbbfaddc31a909735c1e6" },
+    ciphertext: "5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46",
+    kdf: "pbkdf2",
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: "hmac-sha256",
+      salt: "ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd",
+    },
+    mac: "517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2",
+  },
+};
+
+const SCRYPT_VECTOR: KeystoreV3 = {
+  version: 3,
+  id: "3198bc9c-6672-5ab3-d995-4942343ae5b6",
+  crypto: {
+    cipher: "aes-128-ctr",
+    cipherparams: { iv: "83dbcc02d8ccb40e466191a123791e0e" },
+    ciphertext: "d172bf743a674da9cdad04534d56926ef8358534d458fffccd4e6ad2fbde479c",
+    kdf: "scrypt",
+    kdfparams: {
+      dklen: 32,
+      n: 262144,
+      r: 1,
+      p: 8,
+      salt: "ab0c7876052600dd703518d6fc3fe8984592145b591fc8fb5c6d43190334ba19",
+    },
+    mac: "2103ac29920d71da29f15d75b4a16dbe95cfd7ff8faea1056c33131d846e3097",
+  },
+};
+
+describe("createKeystoreSigner", () => {
+  it("decrypts the spec's pbkdf2 vector", async () => {
+    const signer = await createKeystoreSigner(JSON.stringify(PBKDF2_VECTOR), PASSWORD);
+    expect(await signer.getAddress()).toBe(ADDRESS);
+    signer.lock();
+  });
+
+  it("decrypts the spec's scrypt vector", async () => {
+    const signer = await createKeystoreSigner(SCRYPT_VECTOR, PASSWORD);
+    expect(await signer.getAddress()).toBe(ADDRESS);
+    signer.lock();
+  }, 30_000);
+
+  it("rejects a wrong password", async () => {
+    const error = await createKeystoreSigner(PBKDF2_VECTOR, "wrong").catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(KeystoreError);
+    expect((error as KeystoreError).reason).toBe("password");
+  });
+
+  it("rejects a keystore whose address does not match its key", async () => {
+    const keystore = { ...PBKDF2_VECTOR, address: "11".repeat(20) };
+    const error = await createKeystoreSigner(keystore, PASSWORD).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(KeystoreError);
+    expect((error as KeystoreError).reason).toBe("invalid");
+  });
+
+  it("locks the key again after the TTL", async () => {
+    const keystore = await encryptKeystore(PRIVATE_KEY, PASSWORD, { kdf: "pbkdf2", pbkdf2Iterations: 1000 });
+    const signer = await createKeystoreSigner(keystore, PASSWORD, { unlockTtlMs: 50 });
+    // Corrupt the keystore: only a fresh decryption notices
+    keystore.crypto.mac = "00".repeat(32);
+
+    await expect(signer.signMessage("still unlocked")).resolves.toMatch(/^0x/);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await expect(signer.signMessage("locked again")).rejects.toBeInstanceOf(KeystoreError);
+  });
+
+  it("round-trips encryptKeystore with scrypt", async () => {
+    const keystore = await encryptKeystore(PRIVATE_KEY, PASSWORD, { scryptN: 1024 });
+    expect(keystore.address).toBe(ADDRESS.slice(2).toLowerCase());
+    const signer = await createKeystoreSigner(keystore, PASSWORD);
+    expect(await signer.getAddress()).toBe(ADDRESS);
+    signer.lock();
+  });
+});
@@ -0,0 +1,286 @@
+// ============================================
+// Keystore Signer - Encrypted keys (Web3 Secret Storage v3)
+// ============================================
+
+import { KeystoreError } from "./types.js";
+import type {
+  KeystorePbkdf2Params,
+  KeystoreScryptParams,
+  KeystoreV3,
+  PaymentSigner,
+} from "./types.js";
+import { createPrivateKeySigner } from "./auth.js";
+
+/** A PaymentSigner backed by an encrypted keystore */
+export interface KeystoreSigner extends PaymentSigner {
+  /** Wipe the decrypted key now; the next operation decrypts again */
+  lock(): void;
+}
+
+export interface KeystoreSignerOptions {
+  /** RPC endpoint for sendTransaction (defaults to Base mainnet public RPC) */
+  rpcUrl?: string;
+  /**
+   * Milliseconds the decrypted key stays in memory after its last use
+   * (default: 30000). `0` decrypts for every operation.
+   */
+  unlockTtlMs?: number;
+}
+
+export interface EncryptKeystoreOptions {
+  /** Key derivation function (default: "scrypt") */
+  kdf?: "scrypt" | "pbkdf2";
+  /** scrypt cost parameter N (default: 262144, as geth) */
+  scryptN?: number;
+  /** PBKDF2 iteration count (default: 262144) */
+  pbkdf2Iterations?: number;
+}
+
+/**
+ * Create a signer from an encrypted V3 keystore (geth, Foundry `cast wallet`,
+ * MetaMask exports...), so agents never keep a plaintext key on disk.
+ *
+ * The password is checked up front. Afterwards the key is decrypted on use and
+ * wiped `unlockTtlMs` after the last operation (or immediately via `lock()`).
+ *
+ * ```ts
+ * const signer = await createKeystoreSigner(".mdp/keystore.json", process.env.MDP_KEYSTORE_PASSWORD!);
+ * const sdk = await MDPAgentSDK.createAuthenticated({}, signer);
+ * ```
+ * @param jsonOrPath - Keystore JSON (string or parsed) or a path to the file
+ * @param password - Keystore password
+ * @throws KeystoreError if the keystore is malformed or the password is wrong
+ */
+export async function createKeystoreSigner(
+  jsonOrPath: string | KeystoreV3,
+  password: string,
+  opts: KeystoreSignerOptions = {}
+): Promise<KeystoreSigner> {
+  const keystore = await loadKeystore(jsonOrPath);
+  const ttl = opts.unlockTtlMs ?? 30_000;
+
+  let key: Buffer | undefined;
+  let unlocking: Promise<Buffer> | undefined;
+  let lockTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const lock = () => {
+    clearTimeout(lockTimer);
+    key?.fill(0);
+    key = undefined;
+  };
+
+  /** Decrypt (or reuse) the key and hand it to a short-lived private-key signer */
+  const unlocked = async (): Promise<PaymentSigner> => {
+    key ??= await (unlocking ??= decryptKeystore(keystore, password).finally(() => {
+      unlocking = undefined;
+    }));
+    const hex = `0x${key.toString("hex")}` as const;
+    clearTimeout(lockTimer);
+    lockTimer = setTimeout(lock, ttl);
+    lockTimer.unref?.();
+    return createPrivateKeySigner(hex, { rpcUrl: opts.rpcUrl });
+  };
+
+  const address = await (await unlocked()).getAddress();
+  if (keystore.address && keystore.address.replace(/^0x/, "").toLowerCase() !== address.slice(2).toLowerCase()) {
+    lock();
+    throw new KeystoreError(
+      `Keystore address ${keystore.address} does not match its decrypted key (${address})`,
+      "invalid"
+    );
+  }
+
+  return {
+    lock,
+    async getAddress() {
+      return address;
+    },
+    async signMessage(message) {
+      return (await unlocked()).signMessage(message);
+    },
+    async signTypedData(params) {
+      return (await unlocked()).signTypedData(params);
+    },
+    async sendTransaction(params) {
+      return (await unlocked()).sendTransaction!(params);
+    },
+  };
+}
+
+/**
+ * Encrypt a private key into a V3 keystore
+ * @param privateKey - Hex-encoded private key
+ * @param password - Password the keystore will be unlocked with
+ */
+export async function encryptKeystore(
+  privateKey: `0x${string}`,
+  password: string,
+  options: EncryptKeystoreOptions = {}
+): Promise<KeystoreV3> {
+  if (!password) throw new KeystoreError("A keystore password is required", "password");
+  const [{ createCipheriv, randomBytes, randomUUID }, { keccak256 }, { privateKeyToAccount }] =
+    await Promise.all([import("node:crypto"), import("viem"), import("viem/accounts")]);
+
+  const secret = Buffer.from(privateKey.slice(2), "hex");
+  if (secret.length !== 32) {
+    throw new KeystoreError("Private key must be 32 bytes of hex", "invalid");
+  }
+
+  const salt = randomBytes(32).toString("hex");
+  const kdfparams: KeystoreScryptParams | KeystorePbkdf2Params =
+    options.kdf === "pbkdf2"
+      ? { dklen: 32, c: options.pbkdf2Iterations ?? 262_144, prf: "hmac-sha256", salt }
+      : { dklen: 32, n: options.scryptN ?? 262_144, r: 8, p: 1, salt };
+  const derived = await deriveKey(password, kdfparams);
+
+  const iv = randomBytes(16);
+  const cipher = createCipheriv("aes-128-ctr", derived.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret), cipher.final()]);
+  const mac = keccak256(Buffer.concat([derived.subarray(16, 32), ciphertext])).slice(2);
+  derived.fill(0);
+  secret.fill(0);
+
+  return {
+    version: 3,
+    id: randomUUID(),
+    address: privateKeyToAccount(privateKey).address.slice(2).toLowerCase(),
+    crypto: {
+      cipher: "aes-128-ctr",
+      cipherparams: { iv: iv.toString("hex") },
+      ciphertext: ciphertext.toString("hex"),
+      kdf: options.kdf ?? "scrypt",
+      kdfparams,
+      mac,
+    },
+  };
+}
+
+/**
+ * Generate a new wallet and encrypt it into a V3 keystore. The private key is
+ * never returned; back up the keystore and its password.
+ * @param password - Password the keystore will be unlocked with
+ * @param options.path - Also write the keystore here (mode 0600, never overwrites)
+ */
+export async function createKeystore(
+  password: string,
+  options: EncryptKeystoreOptions & { path?: string } = {}
+): Promise<{ address: string; keystore: KeystoreV3 }> {
+  const { generatePrivateKey, privateKeyToAccount } = await import("viem/accounts");
+  const privateKey = generatePrivateKey();
+  const keystore = await encryptKeystore(privateKey, password, options);
+
+  if (options.path) {
+    const [{ writeFile, mkdir }, { dirname }] = await Promise.all([
+      import("node:fs/promises"),
+      import("node:path"),
+    ]);
+    await mkdir(dirname(options.path), { recursive: true });
+    await writeFile(options.path, `${JSON.stringify(keystore, null, 2)}\n`, {
+      mode: 0o600,
+      flag: "wx",
+    });
+  }
+
+  return { address: privateKeyToAccount(privateKey).address, keystore };
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+async function loadKeystore(jsonOrPath: string | KeystoreV3): Promise<KeystoreV3> {
+  let raw: unknown = jsonOrPath;
+  if (typeof jsonOrPath === "string") {
+    let text = jsonOrPath;
+    if (!jsonOrPath.trimStart().startsWith("{")) {
+      const { readFile } = await import("node:fs/promises");
+      text = await readFile(jsonOrPath, "utf8");
+    }
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new KeystoreError("Keystore is not valid JSON", "invalid");
+    }
+  }
+
+  // Some wallets capitalize the "Crypto" key
+  const file = raw as KeystoreV3 & { Crypto?: KeystoreV3["crypto"] };
+  const crypto = file?.crypto ?? file?.Crypto;
+  if (file?.version !== 3 || !crypto) {
+    throw new KeystoreError("Only version 3 keystores are supported", "invalid");
+  }
+  if (crypto.cipher !== "aes-128-ctr") {
+    throw new KeystoreError(`Unsupported keystore cipher "${crypto.cipher}"`, "invalid");
+  }
+  if (crypto.kdf !== "scrypt" && crypto.kdf !== "pbkdf2") {
+    throw new KeystoreError(`Unsupported keystore KDF "${crypto.kdf}"`, "invalid");
+  }
+  return { ...file, crypto };
+}
+
+async function decryptKeystore(keystore: KeystoreV3, password: string): Promise<Buffer> {
+  const [{ createDecipheriv, timingSafeEqual }, { keccak256 }] = await Promise.all([
+    import("node:crypto"),
+    import("viem"),
+  ]);
+  const { crypto } = keystore;
+  const derived = await deriveKey(password, crypto.kdfparams);
+  const ciphertext = Buffer.from(crypto.ciphertext, "hex");
+  const mac = Buffer.from(
+    keccak256(Buffer.concat([derived.subarray(16, 32), ciphertext])).slice(2),
+    "hex"
+  );
+  const expected = Buffer.from(crypto.mac, "hex");
+  if (mac.length !== expected.length || !timingSafeEqual(mac, expected)) {
+    derived.fill(0);
+    throw new KeystoreError("Wrong keystore password (MAC mismatch)", "password");
+  }
+
+  const decipher = createDecipheriv(
+    "aes-128-ctr",
+    derived.subarray(0, 16),
+    Buffer.from(crypto.cipherparams.iv, "hex")
+  );
+  const key = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  derived.fill(0);
+  return key;
+}
+
+async function deriveKey(
+  password: string,
+  params: KeystoreScryptParams | KeystorePbkdf2Params
+): Promise<Buffer> {
+  const { scrypt, pbkdf2 } = await import("node:crypto");
+  const salt = Buffer.from(params.salt, "hex");
+
+  if ("n" in params) {
+    const { n, r, p, dklen } = params;
+    // Node's default 32 MB cap is too small for geth's standard N = 2^18
+    const maxmem = 128 * n * r * p + 32 * 1024 * 1024;
+    const fail = (error: unknown) =>
+      new KeystoreError(`Unsupported scrypt parameters: ${(error as Error).message}`, "invalid");
+    try {
+      return await new Promise<Buffer>((resolve, reject) => {
+        scrypt(password, salt, dklen, { N: n, r, p, maxmem }, (error, key) => (error ? reject(error) : resolve(key)));
+      });
+    } catch (error) {
+      // OpenSSL refuses N >= 2^(16r), e.g. r = 1 with N = 2^18 as in the spec's test vector
+      if ((error as { code?: string }).code !== "ERR_CRYPTO_INVALID_SCRYPT_PARAMS") throw fail(error);
+    }
+    try {
+      const { scryptAsync } = await import("@noble/hashes/scrypt");
+      return Buffer.from(await scryptAsync(password, salt, { N: n, r, p, dkLen: dklen, maxmem }));
+    } catch (error) {
+      throw fail(error);
+    }
+  }
+
+  if (params.prf !== "hmac-sha256") {
+    throw new KeystoreError(`Unsupported PBKDF2 PRF "${params.prf}"`, "invalid");
+  }
+  return new Promise((resolve, reject) => {
+    pbkdf2(password, salt, params.c, params.dklen, "sha256", (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { RateLimiter, TokenBucket } from "./limiter.js";
+import type { RateLimitRule } from "./types.js";
+
+describe("TokenBucket", () => {
+  it("serves tokens up to its capacity", async () => {
+    const bucket = new TokenBucket(2, 60_000);
+    await bucket.take();
+    await bucket.take();
+    expect(bucket.available()).toBeLessThan(1);
+  });
+
+  it("does not consume a token when the wait is aborted", async () => {
+    const bucket = new TokenBucket(1, 60_000);
+    await bucket.take();
+    const controller = new AbortController();
+    const waiting = bucket.take(controller.signal);
+    controller.abort(new Error("stop"));
+    await expect(waiting).rejects.toThrow("stop");
+    expect(bucket.available()).toBeLessThan(1);
+  });
+
+  it("rejects a queued waiter as soon as its wait is aborted", async () => {
+    const bucket = new TokenBucket(1, 60_000);
+    await bucket.take();
+    const first = new AbortController();
+    const second = new AbortController();
+    const ahead = bucket.take(first.signal);
+    const behind = bucket.take(second.signal);
+
+    second.abort(new Error("cancelled"));
+    await expect(behind).rejects.toThrow("cancelled");
+
+    first.abort(new Error("done"));
+    await expect(ahead).rejects.toThrow("done");
+    expect(bucket.available()).toBeLessThan(1);
+  });
+
+  it("refunds a token, up to capacity", () => {
+    const bucket = new TokenBucket(1, 60_000);
+    bucket.refund();
+    expect(bucket.available()).toBe(1);
+  });
+});
+
+describe("RateLimiter", () => {
+  const route: RateLimitRule = { method: "POST", path: "/api/things/:id/messages", limit: 5, intervalMs: 60_000 };
+
+  it("returns the route token when the global wait is aborted", async () => {
+    const limiter = new RateLimiter({ global: { limit: 1, intervalMs: 60_000 }, routes: [route] });
+    await limiter.acquire("GET", "/api/other");
+
+    const controller = new AbortController();
+    const waiting = limiter.acquire("POST", "/api/things/1/messages", controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort(new Error("cancelled"));
+    await expect(waiting).rejects.toThrow("cancelled");
+
+    const bucket = (limiter as unknown as { rules: { bucket: TokenBucket }[] }).rules[0]!.bucket;
+    expect(bucket.available()).toBeGreaterThanOrEqual(5 - 0.01);
+  });
+
+  it("only applies route buckets to matching method and path", async () => {
+    const limiter = new RateLimiter({ global: false, routes: [{ ...route, limit: 1 }] });
+    await limiter.acquire("POST", "/api/things/1/messages");
+    // GET on the same path and POST elsewhere are not limited by the route
+    await limiter.acquire("GET", "/api/things/1/messages");
+    await limiter.acquire("POST", "/api/things/1");
+  });
+});
@@ -0,0 +1,193 @@
+// ============================================
+// Rate Limiter - Client-side token buckets
+// ============================================
+
+import { sleep } from "./http.js";
+import type { RateLimitConfig, RateLimitRule, RequestRateLimiter } from "./types.js";
+
+/** Documented MDP platform quotas */
+export const MDP_RATE_LIMITS = {
+  /** 60 API requests per minute */
+  global: { limit: 60, intervalMs: 60_000 },
+  routes: [
+    /** 20 message sends per 2 minutes */
+    {
+      method: "POST",
+      path: "/api/messages/conversations/:id/messages",
+      limit: 20,
+      intervalMs: 120_000,
+    },
+  ] as RateLimitRule[],
+} as const;
+
+/**
+ * Token bucket that refills continuously.
+ * Callers are served in FIFO order; `take()` waits instead of failing.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    public readonly capacity: number,
+    public readonly intervalMs: number
+  ) {
+    if (capacity <= 0 || intervalMs <= 0) {
+      throw new Error("TokenBucket requires a positive capacity and interval");
+    }
+    this.tokens = capacity;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Wait for and consume one token
+   * @param signal - Abort the wait, even while queued behind other callers (no token is consumed)
+   */
+  take(signal?: AbortSignal): Promise<void> {
+    const next = this.queue.then(() => this.waitForToken(signal));
+    this.queue = next.catch(() => undefined);
+    if (!signal) return next;
+
+    // Reject as soon as the signal fires instead of when this caller reaches the head of the queue
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      if (signal.aborted) onAbort();
+      else signal.addEventListener("abort", onAbort, { once: true });
+      next.then(
+        () => {
+          signal.removeEventListener("abort", onAbort);
+          // Aborted between getting the token and hearing about it
+          if (signal.aborted) this.refund();
+          resolve();
+        },
+        (error: unknown) => {
+          signal.removeEventListener("abort", onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /** Return a token that was taken but not used */
+  refund(): void {
+    this.refill();
+    this.tokens = Math.min(this.capacity, this.tokens + 1);
+  }
+
+  /** Tokens currently available (fractional) */
+  available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.updatedAt;
+    if (elapsed > 0) {
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + (elapsed * this.capacity) / this.intervalMs
+      );
+      this.updatedAt = now;
+    }
+  }
+
+  private async waitForToken(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      signal?.throwIfAborted();
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      const waitMs = Math.ceil(((1 - this.tokens) * this.intervalMs) / this.capacity);
+      await sleep(waitMs, signal);
+    }
+  }
+}
+
+interface CompiledRule {
+  method?: string;
+  pattern: RegExp;
+  bucket: TokenBucket;
+}
+
+const shared = new Map<string, RateLimiter>();
+
+/**
+ * Global + per-route rate limiter used by HttpClient.
+ * Share one instance between SDK instances that act for the same wallet.
+ */
+export class RateLimiter implements RequestRateLimiter {
+  private global?: TokenBucket;
+  private rules: CompiledRule[];
+
+  constructor(config: RateLimitConfig = {}) {
+    const global = config.global === undefined ? MDP_RATE_LIMITS.global : config.global;
+    if (global) {
+      this.global = new TokenBucket(global.limit, global.intervalMs);
+    }
+
+    this.rules = (config.routes ?? MDP_RATE_LIMITS.routes).map((rule) => ({
+      method: rule.method,
+      pattern: compilePath(rule.path),
+      bucket: new TokenBucket(rule.limit, rule.intervalMs),
+    }));
+  }
+
+  /**
+   * Get (or create) a limiter shared under `key`, e.g. a wallet address.
+   * @param key - Sharing key (case-insensitive)
+   * @param config - Used only when the limiter is first created
+   */
+  static shared(key: string, config?: RateLimitConfig): RateLimiter {
+    const normalized = key.toLowerCase();
+    let limiter = shared.get(normalized);
+    if (!limiter) {
+      limiter = new RateLimiter(config);
+      shared.set(normalized, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * Wait until a request may be sent.
+   * Route buckets are drained before the global bucket so a queued message
+   * send does not hold a global token while it waits. If the wait is
+   * aborted, route tokens already taken are returned.
+   */
+  async acquire(method: string, path: string, signal?: AbortSignal): Promise<void> {
+    const pathname = path.split("?")[0] ?? path;
+    const taken: TokenBucket[] = [];
+    try {
+      for (const rule of this.rules) {
+        if (rule.method && rule.method !== method.toUpperCase()) continue;
+        if (rule.pattern.test(pathname)) {
+          await rule.bucket.take(signal);
+          taken.push(rule.bucket);
+        }
+      }
+      await this.global?.take(signal);
+    } catch (error) {
+      for (const bucket of taken) bucket.refund();
+      throw error;
+    }
+  }
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+/** Compile "/api/things/:id/sub" into an anchored regular expression */
+function compilePath(path: string): RegExp {
+  const source = path
+    .replace(/\/$/, "")
+    .split("/")
+    .map((segment) =>
+      segment.startsWith(":") ? "[^/]+" : segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("/");
+  return new RegExp(`^${source}/?$`);
+}
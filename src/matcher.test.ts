@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { MDPAgentSDK } from "./index.js";
+import { JobMatcher } from "./matcher.js";
+import { createMockMdpServer } from "./mock.js";
+
+const KEY = `0x${"11".repeat(32)}` as const;
+
+async function fixture(description: string) {
+  const server = createMockMdpServer();
+  const sdk = await MDPAgentSDK.createWithPrivateKey(server.config(), KEY);
+  const job = await sdk.jobs.create({
+    title: "Market research",
+    description,
+    requiredSkills: ["research"],
+    budgetUSDC: 50,
+    acceptanceCriteria: "A written report",
+  });
+  const agent = await sdk.agents.register({
+    name: "Researcher",
+    description: "Writes research reports",
+    pricingModel: "fixed",
+    tags: ["research"],
+    constraints: "No crypto trading bots.",
+    eip8004AgentWallet: `0x${"33".repeat(20)}`,
+  });
+  return { job, agent };
+}
+
+describe("JobMatcher constraints", () => {
+  it("blocks a job that names the constrained work", async () => {
+    const { job, agent } = await fixture("Build crypto trading bots for our desk");
+    const match = new JobMatcher().score(job, agent);
+    expect(match.score).toBe(0);
+    expect(match.blockers).toEqual(['agent constraint "No crypto trading bots" applies to this job']);
+  });
+
+  it("ignores the constraint's words scattered over different sentences", async () => {
+    const { job, agent } = await fixture("Not a bot. We want trading insights on crypto news");
+    const match = new JobMatcher().score(job, agent);
+    expect(match.blockers).toEqual([]);
+    expect(match.score).toBeGreaterThan(0);
+  });
+
+  it("applies excludeKeywords the same way", async () => {
+    const { job, agent } = await fixture("Compare gambling sites. Online reviews of each");
+    expect(new JobMatcher({ excludeKeywords: ["online gambling"] }).score(job, agent).blockers).toEqual([]);
+    expect(new JobMatcher({ excludeKeywords: ["gambling sites"] }).score(job, agent).blockers).toHaveLength(1);
+  });
+});
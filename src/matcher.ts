@@ -0,0 +1,509 @@
+// ============================================
+// Job Matcher - Weighted, explainable job scoring
+// ============================================
+
+import type { MDPAgentSDK } from "./index.js";
+import type { PagerContext } from "./pager.js";
+import { NotFoundError } from "./types.js";
+import type { Agent, CallOptions, Job } from "./types.js";
+
+/** Signals that make up a match score */
+export type MatchFactorName = "skills" | "description" | "budget" | "deadline";
+
+export interface MatchFactor {
+  /** 0-1 */
+  score: number;
+  /** Share of the total this factor carried (weights are renormalized over applicable factors) */
+  weight: number;
+  /** False when there was nothing to judge, e.g. no deadline; the factor is then left out of the total */
+  applicable: boolean;
+  /** Why the factor scored as it did */
+  detail: string;
+}
+
+/** How a required skill was matched */
+export type SkillMatchKind = "exact" | "alias" | "token" | "fuzzy" | "skillSheet" | "none";
+
+export interface SkillMatch {
+  /** Required skill as the job lists it */
+  skill: string;
+  /** Agent tag it matched */
+  tag?: string;
+  via: SkillMatchKind;
+  /** Credit given for the skill, 0-1 */
+  score: number;
+}
+
+/** A job scored against an agent, with the reasons behind the score */
+export interface JobMatch {
+  jobId: string;
+  agentId: string;
+  /** Weighted score, 0-1; 0 when blocked */
+  score: number;
+  factors: Record<MatchFactorName, MatchFactor>;
+  /** One entry per required skill */
+  skills: SkillMatch[];
+  /** Reasons the agent can't take the job at all (deadline passed, a constraint applies) */
+  blockers: string[];
+}
+
+export interface JobMatcherConfig {
+  /** Relative factor weights (default: skills 0.5, description 0.2, budget 0.15, deadline 0.15) */
+  weights?: Partial<Record<MatchFactorName, number>>;
+  /** Extra aliases, canonical skill -> other names; merged into MDP_SKILL_ALIASES */
+  aliases?: Record<string, string[]>;
+  /** Lowest edit-distance similarity counted as a fuzzy skill match, 0-1 (default: 0.8) */
+  fuzzyThreshold?: number;
+  /** Fetch the agent's skill sheet for the description factor (default: true) */
+  useSkillSheet?: boolean;
+  /** Hours of work an hourly agent wants the budget to cover (default: 4) */
+  minBillableHours?: number;
+  /** Smallest budget worth taking for fixed or negotiable pricing (default: none, budget not scored) */
+  minBudgetUSDC?: number;
+  /** Hours before the deadline needed to do any job well (default: 24) */
+  minLeadTimeHours?: number;
+  /** Job text that rules a job out, on top of the agent's `constraints` */
+  excludeKeywords?: string[];
+  /** Clock for deadline checks (default: Date.now) */
+  now?: () => number;
+}
+
+/** Common alternative names for skills, canonical name -> aliases */
+export const MDP_SKILL_ALIASES: Record<string, string[]> = {
+  typescript: ["ts"],
+  javascript: ["js", "ecmascript", "es6"],
+  nodejs: ["node", "node.js"],
+  react: ["reactjs", "react.js"],
+  nextjs: ["next.js"],
+  vue: ["vuejs", "vue.js"],
+  python: ["py", "python3"],
+  golang: ["go"],
+  rust: ["rustlang"],
+  csharp: ["c#", ".net", "dotnet"],
+  cpp: ["c++"],
+  postgresql: ["postgres", "psql", "pg"],
+  mongodb: ["mongo"],
+  kubernetes: ["k8s"],
+  aws: ["amazon web services"],
+  gcp: ["google cloud", "google cloud platform"],
+  "ci cd": ["cicd", "continuous integration"],
+  "machine learning": ["ml"],
+  "artificial intelligence": ["ai"],
+  "natural language processing": ["nlp"],
+  llm: ["llms", "large language models", "large language model"],
+  "web scraping": ["scraping", "scraper", "crawling", "web crawling"],
+  "smart contracts": ["smart contract", "solidity contracts"],
+  ethereum: ["eth", "evm"],
+  "data analysis": ["data analytics", "analytics"],
+  "technical writing": ["documentation", "docs"],
+  "user interface": ["ui"],
+  "user experience": ["ux"],
+};
+
+const DEFAULT_WEIGHTS: Record<MatchFactorName, number> = {
+  skills: 0.5,
+  description: 0.2,
+  budget: 0.15,
+  deadline: 0.15,
+};
+
+const FACTORS: MatchFactorName[] = ["skills", "description", "budget", "deadline"];
+
+/** Share of a job's keywords the agent's profile must cover for full description credit */
+const KEYWORD_SATURATION = 0.5;
+
+/** Other keywords allowed between those of a constraint ("crypto and DeFi trading bots") */
+const CONSTRAINT_GAP = 2;
+
+const STOPWORDS = new Set(
+  (
+    "the and for with that this from your you our are was were will would should could can into onto " +
+    "about have has had not but all any each other some such than then them they their there these " +
+    "those what when where which while who whom why how also just only very more most must need needs " +
+    "want wants using use used make build create job jobs task tasks work working project please able " +
+    "via per its it's etc one two new get set like well good based include including"
+  ).split(" ")
+);
+
+/** Aliases too common as plain words to read into free text ("ready to go") */
+const AMBIGUOUS_WORDS = new Set(["go"]);
+
+const CONSTRAINT_PATTERN =
+  /^(?:no|not|never|avoid|won'?t|will not|don'?t|do not|cannot|can'?t)\s+(?:do\s+|accept\s+|take\s+|work\s+on\s+|handle\s+|touch\s+)?(.+)$/i;
+
+/**
+ * Scores jobs against an agent on several weighted signals and explains
+ * the result:
+ *
+ * - **skills**: each required skill against the agent's tags, through
+ *   aliases ("ts" = "typescript"), shared tokens and edit distance; a skill
+ *   only named in the skill sheet or description earns partial credit
+ * - **description**: how many of the job's keywords the agent's skill sheet,
+ *   description and tags cover
+ * - **budget**: hours the budget buys at the agent's hourly rate, or the
+ *   budget against `minBudgetUSDC`
+ * - **deadline**: time left against `minLeadTimeHours`
+ *
+ * A passed deadline, or a sentence of the job naming one of the agent's
+ * `constraints` ("No gambling sites.") or `excludeKeywords` with its words
+ * close together, blocks the job with score 0.
+ *
+ * ```ts
+ * const matcher = new JobMatcher({ minBillableHours: 6 });
+ * const match = await matcher.match(job, { sdk, agent });
+ * console.log(formatJobMatch(match));
+ *
+ * AgentPager.fromEnv(sdk, { matchJob: matcher.toMatchJob() });
+ * ```
+ */
+export class JobMatcher {
+  private readonly aliases = new Map<string, string>();
+  private readonly skillSheets = new Map<string, Promise<string | undefined>>();
+
+  constructor(private readonly config: JobMatcherConfig = {}) {
+    for (const aliases of [MDP_SKILL_ALIASES, config.aliases ?? {}]) {
+      for (const [canonical, names] of Object.entries(aliases)) {
+        const key = normalize(canonical);
+        this.aliases.set(key, key);
+        for (const name of names) this.aliases.set(normalize(name), key);
+      }
+    }
+  }
+
+  /**
+   * Score a job, fetching the agent's skill sheet when it has one.
+   * Skill sheets are cached per agent version, so scanning many jobs
+   * fetches each sheet once.
+   */
+  async match(job: Job, context: { sdk: MDPAgentSDK; agent: Agent }, options?: CallOptions): Promise<JobMatch> {
+    const skillSheet = await this.skillSheet(context.sdk, context.agent, options);
+    return this.score(job, context.agent, skillSheet);
+  }
+
+  /**
+   * Score a job without any API calls
+   * @param skillSheet - The agent's skill sheet markdown, if known
+   */
+  score(job: Job, agent: Agent, skillSheet?: string): JobMatch {
+    const jobText = [job.title, job.description, job.acceptanceCriteria, ...job.requiredSkills].join(" ");
+    const jobKeywords = this.keywords(jobText);
+    const profile = [skillSheet ?? agent.skillMdContent ?? "", agent.description, ...agent.tags].join(" ");
+    const profileKeywords = this.keywords(profile);
+
+    const skills = job.requiredSkills.map((skill) => this.matchSkill(skill, agent.tags, profileKeywords));
+    const factors: Record<MatchFactorName, MatchFactor> = {
+      skills: this.skillsFactor(skills),
+      description: this.descriptionFactor(jobKeywords, profileKeywords, Boolean(skillSheet ?? agent.skillMdContent)),
+      budget: this.budgetFactor(job, agent),
+      deadline: this.deadlineFactor(job),
+    };
+    const blockers = [...this.constraintBlockers(agent, this.sentences(job))];
+    if (factors.deadline.applicable && factors.deadline.score === 0) blockers.unshift(factors.deadline.detail);
+
+    const weights = { ...DEFAULT_WEIGHTS, ...this.config.weights };
+    const total = FACTORS.reduce((sum, name) => sum + (factors[name].applicable ? Math.max(0, weights[name]) : 0), 0);
+    let score = 0;
+    for (const name of FACTORS) {
+      const factor = factors[name];
+      factor.weight = factor.applicable && total > 0 ? Math.max(0, weights[name]) / total : 0;
+      score += factor.score * factor.weight;
+    }
+
+    return {
+      jobId: job.id,
+      agentId: agent.id,
+      score: blockers.length ? 0 : round(score),
+      factors,
+      skills,
+      blockers,
+    };
+  }
+
+  /**
+   * `AgentPagerConfig.matchJob` backed by this matcher
+   * @param onMatch - Sees every breakdown, e.g. to log why jobs were skipped
+   */
+  toMatchJob(onMatch?: (match: JobMatch, job: Job) => void): (job: Job, context: PagerContext) => Promise<number> {
+    return async (job, context) => {
+      const match = await this.match(job, context);
+      onMatch?.(match, job);
+      return match.score;
+    };
+  }
+
+  /** Forget cached skill sheets */
+  clearCache(): void {
+    this.skillSheets.clear();
+  }
+
+  /** Canonical form of a skill name: "React.js" -> "react", "TS" -> "typescript" */
+  canonicalSkill(skill: string): string {
+    const normalized = normalize(skill);
+    return this.aliases.get(normalized) ?? normalized;
+  }
+
+  private async skillSheet(sdk: MDPAgentSDK, agent: Agent, options?: CallOptions): Promise<string | undefined> {
+    if (this.config.useSkillSheet === false) return undefined;
+    if (agent.skillMdContent) return agent.skillMdContent;
+    if (!agent.hasSkillMd && !agent.skillMdUrl) return undefined;
+
+    const key = `${agent.id}:${agent.updatedAt}`;
+    let sheet = this.skillSheets.get(key);
+    if (!sheet) {
+      sheet = sdk.agents.getSkillSheet(agent.id, options).catch((error: unknown) => {
+        if (error instanceof NotFoundError) return undefined;
+        this.skillSheets.delete(key);
+        throw error;
+      });
+      this.skillSheets.set(key, sheet);
+    }
+    return sheet;
+  }
+
+  private matchSkill(skill: string, tags: string[], profileKeywords: Set<string>): SkillMatch {
+    const wanted = this.canonicalSkill(skill);
+    let best: SkillMatch = { skill, via: "none", score: 0 };
+    const consider = (candidate: SkillMatch) => {
+      if (candidate.score > best.score) best = candidate;
+    };
+
+    for (const tag of tags) {
+      const have = this.canonicalSkill(tag);
+      if (normalize(tag) === normalize(skill)) return { skill, tag, via: "exact", score: 1 };
+      if (have === wanted) {
+        consider({ skill, tag, via: "alias", score: 1 });
+        continue;
+      }
+
+      // "react native" vs "react": credit for the share of the skill's tokens the tag covers
+      const wantedTokens = this.tokens(wanted);
+      const haveTokens = new Set(this.tokens(have));
+      const shared = wantedTokens.filter((t) => haveTokens.has(t)).length;
+      if (wantedTokens.length && shared / wantedTokens.length >= 0.5) {
+        consider({ skill, tag, via: "token", score: round(0.75 * (shared / wantedTokens.length)) });
+      }
+
+      // Typos and spelling variants: "postgressql", "kubernets"
+      if (wanted.length >= 4 && have.length >= 4) {
+        const similarity = 1 - levenshtein(wanted, have) / Math.max(wanted.length, have.length);
+        if (similarity >= (this.config.fuzzyThreshold ?? 0.8)) {
+          consider({ skill, tag, via: "fuzzy", score: round(0.9 * similarity) });
+        }
+      }
+    }
+
+    const tokens = this.tokens(wanted);
+    if (best.score < 0.5 && tokens.length && tokens.every((t) => profileKeywords.has(t))) {
+      consider({ skill, via: "skillSheet", score: 0.5 });
+    }
+    return best;
+  }
+
+  private skillsFactor(skills: SkillMatch[]): MatchFactor {
+    if (!skills.length) {
+      return { score: 0, weight: 0, applicable: false, detail: "job lists no required skills" };
+    }
+    const score = skills.reduce((sum, s) => sum + s.score, 0) / skills.length;
+    const found = skills.filter((s) => s.via !== "none");
+    const missing = skills.filter((s) => s.via === "none").map((s) => s.skill);
+    const described = found.map((s) =>
+      s.via === "exact" ? s.skill : s.via === "skillSheet" ? `${s.skill} (skill sheet)` : `${s.skill} (${s.via}: ${s.tag})`
+    );
+    return {
+      score: round(score),
+      weight: 0,
+      applicable: true,
+      detail:
+        `${found.length}/${skills.length} required skills` +
+        (described.length ? `: ${described.join(", ")}` : "") +
+        (missing.length ? `; missing ${missing.join(", ")}` : ""),
+    };
+  }
+
+  private descriptionFactor(jobKeywords: Set<string>, profileKeywords: Set<string>, hasSkillSheet: boolean): MatchFactor {
+    if (!jobKeywords.size || !profileKeywords.size) {
+      return { score: 0, weight: 0, applicable: false, detail: "no text to compare" };
+    }
+    const shared = [...jobKeywords].filter((k) => profileKeywords.has(k));
+    const coverage = shared.length / jobKeywords.size;
+    return {
+      score: round(Math.min(1, coverage / KEYWORD_SATURATION)),
+      weight: 0,
+      applicable: true,
+      detail:
+        `${shared.length}/${jobKeywords.size} job keywords in the agent's ` +
+        `${hasSkillSheet ? "skill sheet and profile" : "profile"}` +
+        (shared.length ? ` (${shared.slice(0, 8).join(", ")}${shared.length > 8 ? ", ..." : ""})` : ""),
+    };
+  }
+
+  private budgetFactor(job: Job, agent: Agent): MatchFactor {
+    if (!(job.budgetUSDC > 0)) {
+      return { score: 0, weight: 0, applicable: true, detail: "job has no budget" };
+    }
+    if (agent.pricingModel === "hourly" && agent.hourlyRate && agent.hourlyRate > 0) {
+      const minHours = this.config.minBillableHours ?? 4;
+      const hours = job.budgetUSDC / agent.hourlyRate;
+      return {
+        score: round(Math.min(1, hours / minHours)),
+        weight: 0,
+        applicable: true,
+        detail: `${job.budgetUSDC} USDC buys ${hours.toFixed(1)} h at ${agent.hourlyRate} USDC/h (want ${minHours} h)`,
+      };
+    }
+    if (this.config.minBudgetUSDC !== undefined && this.config.minBudgetUSDC > 0) {
+      return {
+        score: round(Math.min(1, job.budgetUSDC / this.config.minBudgetUSDC)),
+        weight: 0,
+        applicable: true,
+        detail: `${job.budgetUSDC} USDC against a ${this.config.minBudgetUSDC} USDC minimum`,
+      };
+    }
+    return {
+      score: 0,
+      weight: 0,
+      applicable: false,
+      detail: `${agent.pricingModel} pricing without an hourly rate or minBudgetUSDC`,
+    };
+  }
+
+  private deadlineFactor(job: Job): MatchFactor {
+    const deadline = job.deadline ? Date.parse(job.deadline) : NaN;
+    if (Number.isNaN(deadline)) {
+      return { score: 0, weight: 0, applicable: false, detail: job.deadline ? "unreadable deadline" : "no deadline" };
+    }
+    const hoursLeft = (deadline - (this.config.now ?? Date.now)()) / 3_600_000;
+    if (hoursLeft <= 0) {
+      return { score: 0, weight: 0, applicable: true, detail: `deadline passed (${job.deadline})` };
+    }
+    const lead = this.config.minLeadTimeHours ?? 24;
+    return {
+      score: round(Math.min(1, hoursLeft / lead)),
+      weight: 0,
+      applicable: true,
+      detail: `${hoursLeft.toFixed(1)} h until the deadline (want ${lead} h)`,
+    };
+  }
+
+  /**
+   * Negative clauses in the agent's constraints ("No crypto trading bots.")
+   * and excludeKeywords that a sentence of the job names
+   */
+  private *constraintBlockers(agent: Agent, sentences: string[][]): Iterable<string> {
+    const clauses = (agent.constraints ?? "").split(/[.;\n]+|,\s*(?=(?:no|not|never|avoid)\b)/i);
+    for (const clause of clauses) {
+      const phrase = CONSTRAINT_PATTERN.exec(clause.trim())?.[1];
+      if (phrase && this.mentions(sentences, phrase)) {
+        yield `agent constraint "${clause.trim()}" applies to this job`;
+      }
+    }
+    for (const excluded of this.config.excludeKeywords ?? []) {
+      if (this.mentions(sentences, excluded)) {
+        yield `excluded keyword "${excluded}" found in the job`;
+      }
+    }
+  }
+
+  /**
+   * Whether one sentence holds every keyword of `phrase` within a few
+   * keywords of each other, so "Not a bot. We want trading insights on
+   * crypto news" does not read as "crypto trading bots"
+   */
+  private mentions(sentences: string[][], phrase: string): boolean {
+    const keywords = [...this.keywords(phrase)];
+    if (!keywords.length) return false;
+    const span = keywords.length + CONSTRAINT_GAP;
+    return sentences.some((sentence) =>
+      sentence.some((keyword, i) => {
+        if (!keywords.includes(keyword)) return false;
+        const window = sentence.slice(i, i + span);
+        return keywords.every((k) => window.includes(k));
+      })
+    );
+  }
+
+  /** Keywords of each sentence of the job, in order */
+  private sentences(job: Job): string[][] {
+    return [job.title, job.description, job.acceptanceCriteria, ...job.requiredSkills]
+      .flatMap((text) => text.split(/[.!?;\n]+/))
+      .map((sentence) => this.keywordList(sentence))
+      .filter((sentence) => sentence.length > 0);
+  }
+
+  /** Keywords of a skill name, for token matching ("react native" -> react, native) */
+  private tokens(skill: string): string[] {
+    return [...this.keywords(skill)];
+  }
+
+  /** Distinct meaningful words of free text, canonicalized, including multi-word aliases */
+  private keywords(text: string): Set<string> {
+    return new Set(this.keywordList(text));
+  }
+
+  /** Meaningful words of free text in order, canonicalized, including multi-word aliases */
+  private keywordList(text: string): string[] {
+    const words = normalize(text).split(/[^a-z0-9#+]+/).filter(Boolean);
+    const keywords: string[] = [];
+    for (let i = 0; i < words.length; i++) {
+      // Two- and three-word phrases that name a skill ("google cloud", "large language models")
+      for (const length of [3, 2]) {
+        if (i + length > words.length) continue;
+        const canonical = this.aliases.get(words.slice(i, i + length).join(" "));
+        if (canonical) for (const t of canonical.split(" ")) keywords.push(t);
+      }
+      const word = words[i]!;
+      const canonical = AMBIGUOUS_WORDS.has(word) ? undefined : this.aliases.get(word);
+      if (canonical) {
+        for (const t of canonical.split(" ")) keywords.push(t);
+      } else if (word.length >= 3 && !STOPWORDS.has(word)) {
+        // Crude plural folding so "bots" meets "bot"
+        keywords.push(word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word);
+      }
+    }
+    return keywords;
+  }
+}
+
+/**
+ * Render a match as a short multi-line explanation
+ */
+export function formatJobMatch(match: JobMatch): string {
+  const lines = [`Job ${match.jobId}: score ${match.score.toFixed(2)} for agent ${match.agentId}`];
+  for (const blocker of match.blockers) lines.push(`  Blocked:     ${blocker}`);
+  for (const name of FACTORS) {
+    const factor = match.factors[name];
+    const value = factor.applicable ? `${factor.score.toFixed(2)} x ${factor.weight.toFixed(2)}` : "n/a        ";
+    lines.push(`  ${`${name[0]!.toUpperCase()}${name.slice(1)}:`.padEnd(12)} ${value}  ${factor.detail}`);
+  }
+  return lines.join("\n");
+}
+
+/** Lowercase, unify separators and drop dots inside names ("Node.js" -> "nodejs", "CI/CD" -> "ci cd") */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/(\w)\.(?=\w)/g, "$1")
+    .replace(/[_\-/]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
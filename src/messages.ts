@@ -3,7 +3,12 @@
 // ============================================
 
 import { HttpClient } from "./http.js";
+import { ConversationSchema, MessageSchema } from "./validation.js";
+import { paginateCursor } from "./paginate.js";
+import type { PageIterator } from "./paginate.js";
 import type {
+  CallOptions,
+  IterateOptions,
   Conversation,
   Message,
   CreateDmRequest,
@@ -17,57 +22,89 @@ export class MessagesModule {
   /**
    * Create (or get existing) DM conversation
    */
-  async createDmRaw(data: CreateDmRequest): Promise<CreateDmResponse> {
-    return this.http.post<CreateDmResponse>("/api/messages/dm", data);
+  async createDmRaw(data: CreateDmRequest, options?: CallOptions): Promise<CreateDmResponse> {
+    return this.http.post<CreateDmResponse>("/api/messages/dm", data, options);
   }
 
   /**
    * Create (or get existing) DM conversation and return conversation id directly.
    */
-  async createDm(data: CreateDmRequest): Promise<string> {
-    const res = await this.createDmRaw(data);
+  async createDm(data: CreateDmRequest, options?: CallOptions): Promise<string> {
+    const res = await this.createDmRaw(data, options);
     return res.conversationId;
   }
 
   /**
    * List all conversations for the authenticated user
    */
-  async listConversations(): Promise<Conversation[]> {
-    const res = await this.http.get<{ conversations: Conversation[] }>(
-      "/api/messages/conversations"
+  async listConversations(options?: CallOptions): Promise<Conversation[]> {
+    const res = await this.http.get<unknown>(
+      "/api/messages/conversations",
+      undefined,
+      options
+    );
+    return this.http.validator.list(
+      res,
+      ConversationSchema,
+      "conversations",
+      "GET /api/messages/conversations"
     );
-    return res.conversations;
   }
 
   /**
    * Get conversation metadata
    */
-  async getConversation(id: string): Promise<{
+  async getConversation(id: string, options?: CallOptions): Promise<{
     conversation: Conversation;
     other: { id: string; wallet: string } | null;
     participants: { userId: string; lastReadAt: string | null }[];
   }> {
-    return this.http.get(`/api/messages/conversations/${id}`);
+    return this.http.get(`/api/messages/conversations/${id}`, undefined, options);
   }
 
   /**
    * List messages in a conversation
    */
-  async listMessages(id: string, params?: ListMessagesParams): Promise<Message[]> {
-    const res = await this.http.get<{ messages: Message[] }>(
+  async listMessages(
+    id: string,
+    params?: ListMessagesParams,
+    options?: CallOptions
+  ): Promise<Message[]> {
+    const res = await this.http.get<unknown>(
       `/api/messages/conversations/${id}/messages`,
       {
         limit: params?.limit,
         before: params?.before,
-      }
+      },
+      options
+    );
+    return this.http.validator.list(
+      res,
+      MessageSchema,
+      "messages",
+      "GET /api/messages/conversations/:id/messages"
+    );
+  }
+
+  /**
+   * Iterate a conversation's history from newest to oldest, walking the
+   * `before` cursor until the first message
+   * @param id - Conversation ID
+   * @param options - Page size, item limit and per-call options
+   */
+  iterateHistory(id: string, options?: IterateOptions): PageIterator<Message> {
+    return paginateCursor(
+      (limit, before, callOptions) => this.listMessages(id, { limit, before }, callOptions),
+      (message) => message.createdAt,
+      (message) => message.id,
+      options
     );
-    return res.messages;
   }
 
   /**
    * Send a message to a conversation
    */
-  async sendMessage(id: string, body: string): Promise<Message> {
+  async sendMessage(id: string, body: string, options?: CallOptions): Promise<Message> {
     const conversationId = String(id ?? "").trim();
     if (!conversationId || conversationId === "undefined" || conversationId === "null") {
       throw new Error(
@@ -75,19 +112,27 @@ export class MessagesModule {
       );
     }
 
-    const res = await this.http.post<{ message: Message }>(
+    const res = await this.http.post<unknown>(
       `/api/messages/conversations/${conversationId}/messages`,
-      { body }
+      { body },
+      options
+    );
+    return this.http.validator.item(
+      res,
+      MessageSchema,
+      "message",
+      "POST /api/messages/conversations/:id/messages"
     );
-    return res.message;
   }
 
   /**
    * Mark a conversation as read
    */
-  async markRead(id: string): Promise<boolean> {
+  async markRead(id: string, options?: CallOptions): Promise<boolean> {
     const res = await this.http.post<{ success: boolean }>(
-      `/api/messages/conversations/${id}/read`
+      `/api/messages/conversations/${id}/read`,
+      undefined,
+      options
     );
     return Boolean(res.success);
   }
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { MDPAgentSDK } from "./index.js";
+import { createPrivateKeySigner } from "./auth.js";
+import { createMockMdpServer } from "./mock.js";
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  SDKError,
+  ValidationError,
+} from "./types.js";
+
+const POSTER_KEY = `0x${"11".repeat(32)}` as const;
+const OWNER_KEY = `0x${"22".repeat(32)}` as const;
+const RUNTIME_WALLET = `0x${"33".repeat(20)}`;
+
+async function signIn(server: ReturnType<typeof createMockMdpServer>, key: `0x${string}`) {
+  const signer = await createPrivateKeySigner(key);
+  const sdk = await MDPAgentSDK.createAuthenticated(server.config(), signer);
+  return { sdk, signer };
+}
+
+async function openJob(sdk: MDPAgentSDK) {
+  return sdk.jobs.create({
+    title: "Summarize a paper",
+    description: "One-page summary of an arXiv paper",
+    requiredSkills: ["writing"],
+    budgetUSDC: 10,
+    acceptanceCriteria: "A summary under 500 words",
+  });
+}
+
+async function claimedAgent(sdk: MDPAgentSDK) {
+  const agent = await sdk.agents.register({
+    name: "Summarizer",
+    description: "Summarizes papers",
+    pricingModel: "fixed",
+    eip8004AgentWallet: RUNTIME_WALLET,
+  });
+  await sdk.agents.claim(agent.id);
+  return agent;
+}
+
+describe("mock MDP server", () => {
+  it("runs a job from posting to an approved, paid delivery", async () => {
+    const server = createMockMdpServer();
+    const poster = await signIn(server, POSTER_KEY);
+    const owner = await signIn(server, OWNER_KEY);
+
+    const job = await openJob(poster.sdk);
+    const agent = await claimedAgent(owner.sdk);
+    const proposal = await owner.sdk.proposals.submit({
+      jobId: job.id,
+      agentId: agent.id,
+      plan: "Read it, then write it up",
+      estimatedCostUSDC: 8,
+      eta: "1 day",
+    });
+    expect(proposal.status).toBe("pending");
+
+    await poster.sdk.proposals.accept(proposal.id);
+    const funded = await poster.sdk.payments.fundJob(job.id, proposal.id, poster.signer, { pollIntervalMs: 1 });
+    expect(funded.paymentId).toBeTruthy();
+    expect((await poster.sdk.jobs.get(job.id)).status).toBe("funded");
+
+    const delivery = await owner.sdk.deliveries.submit({
+      proposalId: proposal.id,
+      artifacts: ["https://example.com/summary.md"],
+      summary: "Summary attached",
+    });
+    await poster.sdk.deliveries.approve(delivery.id);
+
+    expect((await poster.sdk.jobs.get(job.id)).status).toBe("completed");
+    expect(await poster.sdk.deliveries.hasApprovedDelivery(proposal.id)).toBe(true);
+  });
+
+  it("refuses bids from unclaimed agents", async () => {
+    const server = createMockMdpServer();
+    const poster = await signIn(server, POSTER_KEY);
+    const owner = await signIn(server, OWNER_KEY);
+    const job = await openJob(poster.sdk);
+    const agent = await owner.sdk.agents.register({
+      name: "Unclaimed",
+      description: "Not yet claimed",
+      pricingModel: "fixed",
+      eip8004AgentWallet: RUNTIME_WALLET,
+    });
+
+    await expect(
+      owner.sdk.proposals.submit({ jobId: job.id, agentId: agent.id, plan: "p", estimatedCostUSDC: 1, eta: "1h" })
+    ).rejects.toBeInstanceOf(AuthorizationError);
+  });
+
+  it("does not rate-limit by default", async () => {
+    const server = createMockMdpServer();
+    const { sdk } = await signIn(server, POSTER_KEY);
+    const started = Date.now();
+    for (let i = 0; i < 80; i++) await sdk.jobs.list();
+    expect(Date.now() - started).toBeLessThan(1000);
+
+    const limited = server.config({ rateLimit: { global: { limit: 1, intervalMs: 60_000 }, routes: [] } });
+    expect(limited.rateLimit).toMatchObject({ global: { limit: 1 } });
+  });
+
+  it("resets all state", async () => {
+    const server = createMockMdpServer();
+    const poster = await signIn(server, POSTER_KEY);
+    await openJob(poster.sdk);
+    server.reset();
+    expect(server.state.jobs.size).toBe(0);
+  });
+});
+
+describe("error classes", () => {
+  it("maps mock responses to typed errors", async () => {
+    const server = createMockMdpServer();
+    const anonymous = new MDPAgentSDK(server.config());
+    const poster = await signIn(server, POSTER_KEY);
+    const owner = await signIn(server, OWNER_KEY);
+    const job = await openJob(poster.sdk);
+
+    await expect(anonymous.auth.me()).rejects.toBeInstanceOf(AuthenticationError);
+    await expect(poster.sdk.jobs.get("00000000-0000-0000-0000-000000000000")).rejects.toBeInstanceOf(NotFoundError);
+    await expect(owner.sdk.jobs.update(job.id, { title: "Mine now" })).rejects.toBeInstanceOf(AuthorizationError);
+    await expect(
+      poster.sdk.jobs.create({ title: "", description: "", requiredSkills: [], budgetUSDC: 1 } as never)
+    ).rejects.toBeInstanceOf(ValidationError);
+
+    const agent = await claimedAgent(owner.sdk);
+    const bid = { jobId: job.id, agentId: agent.id, plan: "p", estimatedCostUSDC: 1, eta: "1h" };
+    await owner.sdk.proposals.submit(bid);
+    await expect(owner.sdk.proposals.submit(bid)).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it("carries the status code and response body", async () => {
+    const server = createMockMdpServer();
+    const poster = await signIn(server, POSTER_KEY);
+    const error = await poster.sdk.jobs.get("missing").catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SDKError);
+    expect((error as SDKError).statusCode).toBe(404);
+    expect((error as SDKError).response).toBeDefined();
+  });
+});
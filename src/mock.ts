@@ -0,0 +1,1482 @@
+// ============================================
+// Mock MDP Server - In-memory fake API for offline testing
+// ============================================
+
+import type {
+  Agent,
+  Conversation,
+  CreateAgentRequest,
+  CreateJobRequest,
+  Delivery,
+  Eip8004Feedback,
+  EscrowState,
+  Job,
+  JobStatus,
+  Message,
+  Payment,
+  PaymentIntentResponse,
+  Proposal,
+  Rating,
+  SDKConfig,
+  User,
+} from "./types.js";
+import { X402_CONSTANTS, parseUSDC } from "./payments.js";
+
+export interface MockMdpServerOptions {
+  /** Base URL the mock answers on (default: "http://mdp.mock") */
+  baseUrl?: string;
+  /** Domain used in sign-in messages (default: "moltdomesticproduct.com") */
+  domain?: string;
+  /** Lifetime of issued JWTs in seconds (default: 3600) */
+  tokenTtlSeconds?: number;
+  /** Verify sign-in signatures with viem (default: false, any non-empty signature passes) */
+  verifySignatures?: boolean;
+  /** Network named in payment intent requirements (default: "eip155:8453") */
+  network?: string;
+  /** Use contract escrow mode for payment intents (default: false, facilitator mode) */
+  contractMode?: boolean;
+  /** Platform fee in basis points, charged as a second requirement (default: 0) */
+  platformFeeBps?: number;
+  /** Number of /api/payments/confirm calls answering "pending" before "settled" (default: 0) */
+  confirmationPolls?: number;
+  /** Price of a bazaar search in USDC; 0 disables the x402 gate (default: 0.01) */
+  bazaarPriceUSDC?: number;
+  /** Escrow auto-release delay after delivery, in seconds (default: 3 days) */
+  autoReleaseDelaySeconds?: number;
+  /** Deadline for the agent to deliver after funding, in seconds (default: 7 days) */
+  acceptDeadlineSeconds?: number;
+}
+
+/** A job with mock-internal bookkeeping */
+export interface MockJob extends Job {
+  fundedAt?: string;
+  jobKey: `0x${string}`;
+}
+
+/** A payment with mock-internal bookkeeping */
+export interface MockPayment extends Payment {
+  kind: "escrow" | "fee";
+  intentId: string;
+  requirement: PaymentIntentResponse["requirement"];
+  confirmPolls: number;
+}
+
+export interface MockConversation {
+  id: string;
+  participants: string[];
+  lastReadAt: Record<string, string | null>;
+  updatedAt: string;
+}
+
+export interface MockDispute {
+  jobId: string;
+  openedBy: string;
+  reason: string;
+  txHash?: string;
+  createdAt: string;
+}
+
+/** Complete mock state, exposed for assertions in tests */
+export interface MockMdpState {
+  users: Map<string, User>;
+  agents: Map<string, Agent>;
+  jobs: Map<string, MockJob>;
+  proposals: Map<string, Proposal>;
+  deliveries: Map<string, Delivery>;
+  payments: Map<string, MockPayment>;
+  ratings: Map<string, Rating>;
+  feedback: Map<string, Eip8004Feedback[]>;
+  conversations: Map<string, MockConversation>;
+  messages: Map<string, Message[]>;
+  disputes: MockDispute[];
+  nonces: Map<string, { nonce: string; message: string }>;
+  tokens: Map<string, { userId: string; exp: number }>;
+}
+
+export interface MockMdpServer {
+  /** Base URL to pass as `SDKConfig.baseUrl` */
+  readonly baseUrl: string;
+  /** Fetch implementation to pass as `SDKConfig.fetch` */
+  readonly fetch: typeof fetch;
+  /** Live server state */
+  readonly state: MockMdpState;
+  /** SDK configuration wired to this server, without client-side rate limiting unless overridden */
+  config(overrides?: Partial<SDKConfig>): SDKConfig;
+  /** Move the server clock forward (token expiry, escrow deadlines) */
+  advanceTime(ms: number): void;
+  /** Current server time */
+  now(): Date;
+  /** Clear all state */
+  reset(): void;
+}
+
+/**
+ * Create an in-memory fake of the MDP API.
+ *
+ * Implements every route the SDK calls with realistic permissions and state
+ * transitions: a job is `open` until its escrow is funded (`funded`), moves to
+ * `in_progress` on the first delivery and to `completed` when the poster
+ * approves. Plug it in via `SDKConfig.fetch`:
+ *
+ * ```ts
+ * const server = createMockMdpServer();
+ * const sdk = await MDPAgentSDK.createWithPrivateKey(server.config(), key);
+ * ```
+ */
+export function createMockMdpServer(options: MockMdpServerOptions = {}): MockMdpServer {
+  const baseUrl = (options.baseUrl ?? "http://mdp.mock").replace(/\/$/, "");
+  const domain = options.domain ?? "moltdomesticproduct.com";
+  const tokenTtl = options.tokenTtlSeconds ?? 3600;
+  const feeBps = options.platformFeeBps ?? 0;
+  const bazaarPrice = options.bazaarPriceUSDC ?? 0.01;
+  const autoReleaseDelay = options.autoReleaseDelaySeconds ?? 3 * 86400;
+  const acceptDeadline = options.acceptDeadlineSeconds ?? 7 * 86400;
+  const escrowWallet = "0x000000000000000000000000000000000000e5c0";
+  const escrowContract = "0x000000000000000000000000000000000000e5c1";
+  const feeWallet = "0x000000000000000000000000000000000000fee0";
+
+  let clockOffset = 0;
+  const now = () => new Date(Date.now() + clockOffset);
+  const iso = () => now().toISOString();
+
+  const state = emptyState();
+
+  // ------------------------------------------
+  // Helpers bound to state
+  // ------------------------------------------
+
+  const userByWallet = (wallet: string) =>
+    [...state.users.values()].find((u) => sameAddress(u.wallet, wallet));
+
+  const getOrCreateUser = (wallet: string): User => {
+    const existing = userByWallet(wallet);
+    if (existing) return existing;
+    const user: User = { id: uuid(), wallet, createdAt: iso(), updatedAt: iso() };
+    state.users.set(user.id, user);
+    return user;
+  };
+
+  const requireUser = (req: MockRequest): User => {
+    const auth = req.headers.get("authorization") ?? "";
+    const token = auth.startsWith("Bearer ") ? auth.slice(7) : "";
+    if (!token) throw new MockHttpError(401, "Authentication required");
+    const session = state.tokens.get(token);
+    if (!session) throw new MockHttpError(401, "Invalid token", "INVALID_TOKEN");
+    if (session.exp * 1000 <= now().getTime()) {
+      throw new MockHttpError(401, "Token expired", "TOKEN_EXPIRED");
+    }
+    const user = state.users.get(session.userId);
+    if (!user) throw new MockHttpError(401, "Invalid token", "INVALID_TOKEN");
+    return user;
+  };
+
+  const issueToken = (user: User): string => {
+    const iat = Math.floor(now().getTime() / 1000);
+    const exp = iat + tokenTtl;
+    const token = [
+      base64Url(JSON.stringify({ alg: "none", typ: "JWT" })),
+      base64Url(JSON.stringify({ sub: user.id, wallet: user.wallet, iat, exp, jti: uuid() })),
+      "mock",
+    ].join(".");
+    state.tokens.set(token, { userId: user.id, exp });
+    return token;
+  };
+
+  const getJob = (id: string): MockJob => {
+    const job = state.jobs.get(id);
+    if (!job) throw new MockHttpError(404, "Job not found");
+    return job;
+  };
+
+  const getAgent = (id: string): Agent => {
+    const agent = state.agents.get(id);
+    if (!agent) throw new MockHttpError(404, "Agent not found");
+    return agent;
+  };
+
+  const getProposal = (id: string): Proposal => {
+    const proposal = state.proposals.get(id);
+    if (!proposal) throw new MockHttpError(404, "Proposal not found");
+    return proposal;
+  };
+
+  const controlsAgent = (agent: Agent, user: User) =>
+    sameAddress(agent.ownerWallet, user.wallet) || sameAddress(agent.eip8004AgentWallet, user.wallet);
+
+  const isClaimed = (agent: Agent) => Boolean(agent.eip8004Active);
+
+  const acceptedProposal = (jobId: string) =>
+    [...state.proposals.values()].find((p) => p.jobId === jobId && p.status === "accepted");
+
+  const setJobStatus = (job: MockJob, status: JobStatus) => {
+    job.status = status;
+    job.updatedAt = iso();
+  };
+
+  const enrichProposal = (proposal: Proposal): Proposal => {
+    const agent = state.agents.get(proposal.agentId);
+    return {
+      ...proposal,
+      agentName: agent?.name,
+      agentWallet: agent?.eip8004AgentWallet,
+      agentVerified: agent?.verified,
+    };
+  };
+
+  const publicPayment = (payment: MockPayment): Payment => {
+    const { kind: _kind, intentId: _intentId, requirement: _req, confirmPolls: _polls, ...rest } =
+      payment;
+    return rest;
+  };
+
+  const markFunded = (job: MockJob) => {
+    const pending = [...state.payments.values()].some(
+      (p) => p.jobId === job.id && p.status !== "settled"
+    );
+    if (!pending && job.status === "open") {
+      job.fundedAt = iso();
+      setJobStatus(job, "funded");
+    }
+  };
+
+  const conversationFor = (req: MockRequest, user: User): MockConversation => {
+    const conversation = state.conversations.get(req.params.id!);
+    if (!conversation) throw new MockHttpError(404, "Conversation not found");
+    if (!conversation.participants.includes(user.id)) {
+      throw new MockHttpError(403, "Not a participant in this conversation");
+    }
+    return conversation;
+  };
+
+  const otherParticipant = (conversation: MockConversation, user: User) => {
+    const otherId = conversation.participants.find((id) => id !== user.id);
+    const other = otherId ? state.users.get(otherId) : undefined;
+    return other ? { id: other.id, wallet: other.wallet } : null;
+  };
+
+  const toConversation = (conversation: MockConversation, user: User): Conversation => {
+    const messages = state.messages.get(conversation.id) ?? [];
+    const lastReadAt = conversation.lastReadAt[user.id] ?? null;
+    const last = messages[messages.length - 1];
+    return {
+      id: conversation.id,
+      type: "dm",
+      updatedAt: conversation.updatedAt,
+      other: otherParticipant(conversation, user),
+      lastReadAt,
+      unreadCount: messages.filter(
+        (m) => m.senderUserId !== user.id && (!lastReadAt || m.createdAt > lastReadAt)
+      ).length,
+      lastMessage: last
+        ? { senderUserId: last.senderUserId, body: last.body, createdAt: last.createdAt }
+        : null,
+    };
+  };
+
+  // ------------------------------------------
+  // Routes
+  // ------------------------------------------
+
+  const routes: Route[] = [
+    // Auth
+    route("GET", "/api/auth/nonce", (req) => {
+      const wallet = req.query.get("wallet");
+      if (!wallet || !isAddress(wallet)) throw new MockHttpError(400, "Valid wallet is required");
+      const nonce = randomHex(16).slice(2);
+      const issuedAt = now();
+      const message = [
+        `${domain} wants you to sign in with your Ethereum account:`,
+        wallet,
+        "",
+        "Sign in to Molt Domestic Product.",
+        "",
+        `URI: https://${domain}`,
+        "Version: 1",
+        `Chain ID: ${X402_CONSTANTS.CHAIN_ID}`,
+        `Nonce: ${nonce}`,
+        `Issued At: ${issuedAt.toISOString()}`,
+        `Expiration Time: ${new Date(issuedAt.getTime() + 10 * 60_000).toISOString()}`,
+      ].join("\n");
+      state.nonces.set(wallet.toLowerCase(), { nonce, message });
+      return json(200, { nonce, message, userId: userByWallet(wallet)?.id });
+    }),
+    route("POST", "/api/auth/verify", async (req) => {
+      const { wallet, signature } = bodyOf(req);
+      if (!wallet || !signature) throw new MockHttpError(400, "wallet and signature are required");
+      const pending = state.nonces.get(String(wallet).toLowerCase());
+      if (!pending) throw new MockHttpError(401, "No pending nonce for wallet");
+      if (options.verifySignatures) {
+        const { verifyMessage } = await import("viem");
+        const valid = await verifyMessage({
+          address: wallet as `0x${string}`,
+          message: pending.message,
+          signature: signature as `0x${string}`,
+        }).catch(() => false);
+        if (!valid) throw new MockHttpError(401, "Invalid signature");
+      }
+      state.nonces.delete(String(wallet).toLowerCase());
+      const user = getOrCreateUser(str(wallet));
+      return json(200, { success: true, token: issueToken(user), user });
+    }),
+    route("POST", "/api/auth/logout", (req) => {
+      const auth = req.headers.get("authorization") ?? "";
+      if (auth.startsWith("Bearer ")) state.tokens.delete(auth.slice(7));
+      return json(200, { success: true });
+    }),
+    route("GET", "/api/auth/me", (req) => json(200, { user: requireUser(req) })),
+
+    // Jobs
+    route("GET", "/api/jobs", (req) => {
+      const status = req.query.get("status");
+      const jobs = [...state.jobs.values()]
+        .filter((j) => !status || j.status === status)
+        .sort(newestFirst);
+      return json(200, paginate(jobs.map(publicJob), req.query));
+    }),
+    route("GET", "/api/jobs/my", (req) => {
+      const user = requireUser(req);
+      const jobs = [...state.jobs.values()].filter((j) => j.posterId === user.id).sort(newestFirst);
+      return json(200, paginate(jobs.map(publicJob), req.query));
+    }),
+    route("GET", "/api/jobs/:id", (req) => json(200, { job: publicJob(getJob(req.params.id!)) })),
+    route("POST", "/api/jobs", (req) => {
+      const user = requireUser(req);
+      const data = (bodyOf(req)) as Partial<CreateJobRequest>;
+      requireFields(data, ["title", "description", "acceptanceCriteria"]);
+      if (!Array.isArray(data.requiredSkills)) {
+        throw new MockHttpError(400, "requiredSkills must be an array");
+      }
+      if (typeof data.budgetUSDC !== "number" || data.budgetUSDC <= 0) {
+        throw new MockHttpError(400, "budgetUSDC must be a positive number");
+      }
+      const job: MockJob = {
+        id: uuid(),
+        posterId: user.id,
+        title: data.title!,
+        description: data.description!,
+        requiredSkills: data.requiredSkills,
+        budgetUSDC: data.budgetUSDC,
+        deadline: data.deadline,
+        acceptanceCriteria: data.acceptanceCriteria!,
+        attachments: data.attachments ?? [],
+        status: "open",
+        createdAt: iso(),
+        updatedAt: iso(),
+        jobKey: randomHex(32),
+      };
+      state.jobs.set(job.id, job);
+      return json(201, { job: publicJob(job) });
+    }),
+    route("PATCH", "/api/jobs/:id", (req) => {
+      const user = requireUser(req);
+      const job = getJob(req.params.id!);
+      if (job.posterId !== user.id) throw new MockHttpError(403, "Only the poster can update this job");
+      const { status, ...fields } = (bodyOf(req)) as Partial<Job>;
+      if (status !== undefined && status !== job.status) {
+        if (status !== "cancelled" || job.status !== "open") {
+          throw new MockHttpError(409, `Cannot change job status from ${job.status} to ${status}`);
+        }
+        setJobStatus(job, "cancelled");
+      }
+      if (Object.keys(fields).length > 0) {
+        if (job.status !== "open") throw new MockHttpError(409, "Only open jobs can be edited");
+        const allowed = pick(fields, [
+          "title",
+          "description",
+          "requiredSkills",
+          "budgetUSDC",
+          "deadline",
+          "acceptanceCriteria",
+          "attachments",
+        ]);
+        Object.assign(job, allowed, { updatedAt: iso() });
+      }
+      return json(200, { job: publicJob(job) });
+    }),
+
+    // Agents
+    route("GET", "/api/agents", (req) => {
+      const agents = [...state.agents.values()].filter(isClaimed).sort(newestFirst);
+      return json(200, paginate(agents, req.query));
+    }),
+    route("GET", "/api/agents/pending-claims", (req) => {
+      const user = requireUser(req);
+      const drafts = [...state.agents.values()].filter(
+        (a) => !isClaimed(a) && sameAddress(a.ownerWallet, user.wallet)
+      );
+      return json(200, { items: drafts });
+    }),
+    route("GET", "/api/agents/runtime/me", (req) => {
+      const user = requireUser(req);
+      const agent = [...state.agents.values()].find(
+        (a) => isClaimed(a) && sameAddress(a.eip8004AgentWallet, user.wallet)
+      );
+      if (!agent) throw new MockHttpError(404, "No claimed agent bound to this wallet");
+      return json(200, { agent });
+    }),
+    route("PATCH", "/api/agents/runtime/me", (req) => {
+      const user = requireUser(req);
+      const agent = [...state.agents.values()].find(
+        (a) => isClaimed(a) && sameAddress(a.eip8004AgentWallet, user.wallet)
+      );
+      if (!agent) throw new MockHttpError(404, "No claimed agent bound to this wallet");
+      Object.assign(agent, pick(bodyOf(req), EDITABLE_AGENT_FIELDS), { updatedAt: iso() });
+      return json(200, { agent });
+    }),
+    route("POST", "/api/agents/self-register", (req) => {
+      const user = requireUser(req);
+      const data = bodyOf(req) as unknown as CreateAgentRequest & { ownerWallet?: string };
+      requireFields(data, ["name", "description", "pricingModel", "ownerWallet"]);
+      const runtimeWallet = data.eip8004AgentWallet ?? user.wallet;
+      if (sameAddress(runtimeWallet, data.ownerWallet)) {
+        throw new MockHttpError(400, "Agent wallet must differ from the owner wallet");
+      }
+      const agent = newAgent(data, data.ownerWallet!, runtimeWallet, user, iso());
+      state.agents.set(agent.id, agent);
+      return json(201, { agentId: agent.id });
+    }),
+    route("POST", "/api/agents", (req) => {
+      const user = requireUser(req);
+      const data = bodyOf(req) as unknown as CreateAgentRequest;
+      requireFields(data, ["name", "description", "pricingModel", "eip8004AgentWallet"]);
+      if (sameAddress(data.eip8004AgentWallet, user.wallet)) {
+        throw new MockHttpError(400, "Agent wallet must differ from the owner wallet");
+      }
+      const agent = newAgent(data, user.wallet, data.eip8004AgentWallet, user, iso());
+      state.agents.set(agent.id, agent);
+      return json(201, { agent });
+    }),
+    route("GET", "/api/agents/:id", (req) => json(200, { agent: getAgent(req.params.id!) })),
+    route("PATCH", "/api/agents/:id", (req) => {
+      const user = requireUser(req);
+      const agent = getAgent(req.params.id!);
+      if (!sameAddress(agent.ownerWallet, user.wallet)) {
+        throw new MockHttpError(403, "Only the owner can update this agent");
+      }
+      Object.assign(agent, pick(bodyOf(req), EDITABLE_AGENT_FIELDS), { updatedAt: iso() });
+      return json(200, { agent });
+    }),
+    route("POST", "/api/agents/:id/claim", (req) => {
+      const user = requireUser(req);
+      const agent = getAgent(req.params.id!);
+      if (!sameAddress(agent.ownerWallet, user.wallet)) {
+        throw new MockHttpError(403, "Only the designated owner can claim this agent");
+      }
+      if (isClaimed(agent)) throw new MockHttpError(409, "Agent already claimed");
+      const bound = [...state.agents.values()].some(
+        (a) => isClaimed(a) && sameAddress(a.eip8004AgentWallet, agent.eip8004AgentWallet)
+      );
+      if (bound) throw new MockHttpError(409, "Executor wallet is already bound to a claimed agent");
+      Object.assign(agent, { verified: true, eip8004Active: true, updatedAt: iso() });
+      return json(200, { success: true, agentId: agent.id });
+    }),
+    route("GET", "/api/agents/:id/skill.md", (req) => {
+      const agent = getAgent(req.params.id!);
+      if (!agent.skillMdContent) throw new MockHttpError(404, "Agent has no skill sheet");
+      return text(200, agent.skillMdContent, "text/markdown; charset=utf-8");
+    }),
+    route("GET", "/api/agents/:id/registration.json", (req) => {
+      const agent = getAgent(req.params.id!);
+      return json(200, {
+        type: "https://eips.ethereum.org/EIPS/eip-8004#registration-v1",
+        name: agent.name,
+        description: agent.description,
+        image: agent.avatarUrl,
+        services: agent.eip8004Services ?? [],
+        x402Support: Boolean(agent.eip8004X402Support),
+        active: Boolean(agent.eip8004Active),
+        registrations: agent.eip8004Registrations ?? [],
+        supportedTrust: agent.eip8004SupportedTrust,
+      });
+    }),
+    route("GET", "/api/agents/:id/feedback", (req) => {
+      getAgent(req.params.id!);
+      const feedback = state.feedback.get(req.params.id!) ?? [];
+      const scored = feedback.filter((f) => typeof f.value === "number" || typeof f.score === "number");
+      const total = scored.reduce((sum, f) => sum + (f.value ?? (f.score ?? 0) * 20), 0);
+      return json(200, {
+        feedback,
+        summary: {
+          count: feedback.length,
+          summaryValue: scored.length ? Math.round(total / scored.length) : 0,
+          summaryValueDecimals: 0,
+        },
+      });
+    }),
+    route("POST", "/api/agents/:id/feedback", (req) => {
+      const user = requireUser(req);
+      const agent = getAgent(req.params.id!);
+      const data = bodyOf(req);
+      requireFields(data, ["jobId"]);
+      const job = getJob(str(data.jobId));
+      if (job.posterId !== user.id) throw new MockHttpError(403, "Only the job poster can leave feedback");
+      if (job.status !== "completed") throw new MockHttpError(409, "Job is not completed");
+      if (acceptedProposal(job.id)?.agentId !== agent.id) {
+        throw new MockHttpError(400, "Agent did not complete this job");
+      }
+      const list = state.feedback.get(agent.id) ?? [];
+      list.push({ ...pick(data, FEEDBACK_FIELDS), jobId: job.id, createdAt: iso() });
+      state.feedback.set(agent.id, list);
+      return json(201, { success: true });
+    }),
+    route("GET", "/api/agents/:id/avatar", (req) => {
+      const agent = getAgent(req.params.id!);
+      const match = /^data:([^;]+);base64,(.*)$/.exec(agent.avatarUrl ?? "");
+      if (!match) throw new MockHttpError(404, "Agent has no avatar");
+      const bytes = Uint8Array.from(atob(match[2]!), (c) => c.charCodeAt(0));
+      return new Response(bytes, { status: 200, headers: { "content-type": match[1]! } });
+    }),
+    route("POST", "/api/agents/:id/avatar", (req) => {
+      const user = requireUser(req);
+      const agent = getAgent(req.params.id!);
+      if (!sameAddress(agent.ownerWallet, user.wallet)) {
+        throw new MockHttpError(403, "Only the owner can upload an avatar");
+      }
+      const { contentType, dataBase64 } = bodyOf(req);
+      if (!["image/png", "image/jpeg", "image/webp"].includes(str(contentType))) {
+        throw new MockHttpError(400, "Unsupported avatar content type");
+      }
+      if (typeof dataBase64 !== "string" || (dataBase64.length * 3) / 4 > 512 * 1024) {
+        throw new MockHttpError(400, "Avatar must be base64 and at most 512KB");
+      }
+      Object.assign(agent, { avatarUrl: `data:${contentType};base64,${dataBase64}`, updatedAt: iso() });
+      return json(200, { agent });
+    }),
+
+    // Proposals
+    route("GET", "/api/proposals/pending", (req) => {
+      const user = requireUser(req);
+      const status = req.query.get("status") ?? "pending";
+      const proposals = [...state.proposals.values()]
+        .filter((p) => state.jobs.get(p.jobId)?.posterId === user.id)
+        .filter((p) => status === "all" || p.status === status)
+        .sort(newestFirst)
+        .map((p) => {
+          const job = state.jobs.get(p.jobId);
+          return { ...enrichProposal(p), jobTitle: job?.title, jobStatus: job?.status };
+        });
+      return json(200, paginate(proposals, req.query));
+    }),
+    route("GET", "/api/proposals", (req) => {
+      const jobId = req.query.get("jobId");
+      if (!jobId) throw new MockHttpError(400, "jobId is required");
+      const proposals = [...state.proposals.values()]
+        .filter((p) => p.jobId === jobId)
+        .sort(newestFirst)
+        .map(enrichProposal);
+      return json(200, { items: proposals });
+    }),
+    route("POST", "/api/proposals", (req) => {
+      const user = requireUser(req);
+      const data = bodyOf(req);
+      requireFields(data, ["jobId", "agentId", "plan", "eta"]);
+      if (typeof data.estimatedCostUSDC !== "number" || data.estimatedCostUSDC <= 0) {
+        throw new MockHttpError(400, "estimatedCostUSDC must be a positive number");
+      }
+      const job = getJob(str(data.jobId));
+      const agent = getAgent(str(data.agentId));
+      if (!controlsAgent(agent, user)) throw new MockHttpError(403, "You do not control this agent");
+      if (!isClaimed(agent)) throw new MockHttpError(403, "Agent must be claimed before bidding");
+      if (job.posterId === user.id) throw new MockHttpError(403, "Cannot bid on your own job");
+      if (job.status !== "open") throw new MockHttpError(409, "Job is not open for proposals");
+      const duplicate = [...state.proposals.values()].some(
+        (p) =>
+          p.jobId === job.id &&
+          p.agentId === agent.id &&
+          (p.status === "pending" || p.status === "accepted")
+      );
+      if (duplicate) {
+        throw new MockHttpError(409, "Agent already has an active proposal on this job", "DUPLICATE_PROPOSAL");
+      }
+      const proposal: Proposal = {
+        id: uuid(),
+        jobId: job.id,
+        agentId: agent.id,
+        plan: str(data.plan),
+        estimatedCostUSDC: data.estimatedCostUSDC,
+        eta: str(data.eta),
+        status: "pending",
+        createdAt: iso(),
+        updatedAt: iso(),
+      };
+      state.proposals.set(proposal.id, proposal);
+      return json(201, { proposal: enrichProposal(proposal) });
+    }),
+    route("PATCH", "/api/proposals/:id/accept", (req) => {
+      const user = requireUser(req);
+      const proposal = getProposal(req.params.id!);
+      const job = getJob(proposal.jobId);
+      if (job.posterId !== user.id) throw new MockHttpError(403, "Only the poster can accept proposals");
+      if (proposal.status !== "pending") throw new MockHttpError(409, `Proposal is ${proposal.status}`);
+      if (job.status !== "open" || acceptedProposal(job.id)) {
+        throw new MockHttpError(409, "Job already has an accepted proposal");
+      }
+      for (const other of state.proposals.values()) {
+        if (other.jobId === job.id && other.status === "pending") {
+          other.status = other.id === proposal.id ? "accepted" : "rejected";
+          other.updatedAt = iso();
+        }
+      }
+      return json(200, { proposal: enrichProposal(proposal) });
+    }),
+    route("PATCH", "/api/proposals/:id/withdraw", (req) => {
+      const user = requireUser(req);
+      const proposal = getProposal(req.params.id!);
+      if (!controlsAgent(getAgent(proposal.agentId), user)) {
+        throw new MockHttpError(403, "You do not control this agent");
+      }
+      if (proposal.status !== "pending") throw new MockHttpError(409, `Proposal is ${proposal.status}`);
+      Object.assign(proposal, { status: "withdrawn", updatedAt: iso() });
+      return json(200, { proposal: enrichProposal(proposal) });
+    }),
+
+    // Deliveries
+    route("GET", "/api/deliveries", (req) => {
+      const proposalId = req.query.get("proposalId");
+      if (!proposalId) throw new MockHttpError(400, "proposalId is required");
+      const deliveries = [...state.deliveries.values()].filter((d) => d.proposalId === proposalId);
+      return json(200, { items: deliveries });
+    }),
+    route("POST", "/api/deliveries", (req) => {
+      const user = requireUser(req);
+      const data = bodyOf(req);
+      requireFields(data, ["proposalId", "summary"]);
+      const proposal = getProposal(str(data.proposalId));
+      if (!controlsAgent(getAgent(proposal.agentId), user)) {
+        throw new MockHttpError(403, "You do not control this agent");
+      }
+      if (proposal.status !== "accepted") throw new MockHttpError(409, "Proposal is not accepted");
+      const job = getJob(proposal.jobId);
+      if (job.status !== "funded" && job.status !== "in_progress") {
+        throw new MockHttpError(409, "Job must be funded before delivery");
+      }
+      const delivery: Delivery = {
+        id: uuid(),
+        proposalId: proposal.id,
+        artifacts: Array.isArray(data.artifacts) ? data.artifacts : [],
+        summary: str(data.summary),
+        submittedAt: iso(),
+        createdAt: iso(),
+      };
+      state.deliveries.set(delivery.id, delivery);
+      if (job.status === "funded") setJobStatus(job, "in_progress");
+      return json(201, { delivery });
+    }),
+    route("PATCH", "/api/deliveries/:id/approve", (req) => {
+      const user = requireUser(req);
+      const delivery = state.deliveries.get(req.params.id!);
+      if (!delivery) throw new MockHttpError(404, "Delivery not found");
+      const job = getJob(getProposal(delivery.proposalId).jobId);
+      if (job.posterId !== user.id) throw new MockHttpError(403, "Only the poster can approve deliveries");
+      if (delivery.approvedAt) throw new MockHttpError(409, "Delivery already approved");
+      delivery.approvedAt = iso();
+      setJobStatus(job, "completed");
+      return json(200, { success: true });
+    }),
+
+    // Payments
+    route("GET", "/api/payments/summary", (req) => {
+      const user = requireUser(req);
+      const summary = {
+        settled: { totalSpentUSDC: 0, totalEarnedUSDC: 0 },
+        pending: { totalSpentUSDC: 0, totalEarnedUSDC: 0 },
+      };
+      for (const p of state.payments.values()) {
+        const completed = state.jobs.get(p.jobId)?.status === "completed";
+        if (sameAddress(p.payerWallet, user.wallet)) {
+          if (p.status === "settled") summary.settled.totalSpentUSDC += p.amountUSDC;
+          else summary.pending.totalSpentUSDC += p.amountUSDC;
+        }
+        if (p.kind === "escrow" && sameAddress(p.payeeWallet, user.wallet)) {
+          if (p.status === "settled" && completed) summary.settled.totalEarnedUSDC += p.amountUSDC;
+          else summary.pending.totalEarnedUSDC += p.amountUSDC;
+        }
+      }
+      return json(200, summary);
+    }),
+    route("POST", "/api/payments/intent", (req) => {
+      const user = requireUser(req);
+      const { jobId, proposalId } = bodyOf(req);
+      if (!jobId || !proposalId) throw new MockHttpError(400, "jobId and proposalId are required");
+      const job = getJob(str(jobId));
+      const proposal = getProposal(str(proposalId));
+      if (job.posterId !== user.id) throw new MockHttpError(403, "Only the poster can fund this job");
+      if (proposal.jobId !== job.id || proposal.status !== "accepted") {
+        throw new MockHttpError(409, "Proposal is not the accepted proposal for this job");
+      }
+      if (job.status !== "open") throw new MockHttpError(409, "Job is already funded");
+
+      // A new intent replaces any unsettled one
+      for (const [id, p] of state.payments) {
+        if (p.jobId === job.id && p.status !== "settled") state.payments.delete(id);
+      }
+
+      const agent = getAgent(proposal.agentId);
+      const agentWallet = agent.eip8004AgentWallet ?? agent.ownerWallet ?? "";
+      const intentId = uuid();
+      const contractMode = Boolean(options.contractMode);
+      const requirementFor = (amount: number, payTo: string, description: string) => ({
+        scheme: "exact",
+        network: options.network ?? `eip155:${X402_CONSTANTS.CHAIN_ID}`,
+        maxAmountRequired: parseUSDC(amount).toString(),
+        resource: `${baseUrl}/api/payments/intent`,
+        description,
+        mimeType: "application/json",
+        payTo,
+        maxTimeoutSeconds: 300,
+        asset: `eip155:${X402_CONSTANTS.CHAIN_ID}/erc20:${X402_CONSTANTS.USDC_ADDRESS}`,
+        extra: {
+          contractMode,
+          jobKey: job.jobKey,
+          agentWallet,
+          agentExecutorWallet: agentWallet,
+          agentPayoutWallet: agentWallet,
+        },
+      });
+
+      const entries: Array<{ kind: MockPayment["kind"]; amount: number; payTo: string; payee: string }> = [
+        {
+          kind: "escrow",
+          amount: proposal.estimatedCostUSDC,
+          payTo: contractMode ? escrowContract : escrowWallet,
+          payee: agentWallet,
+        },
+      ];
+      if (feeBps > 0) {
+        const fee = Math.round(proposal.estimatedCostUSDC * feeBps) / 10_000;
+        entries.push({ kind: "fee", amount: fee, payTo: feeWallet, payee: feeWallet });
+      }
+
+      const payments = entries.map((entry) => {
+        const payment: MockPayment = {
+          id: uuid(),
+          jobId: job.id,
+          proposalId: proposal.id,
+          payerWallet: user.wallet,
+          payeeWallet: entry.payee,
+          amountUSDC: entry.amount,
+          status: "pending",
+          createdAt: iso(),
+          kind: entry.kind,
+          intentId,
+          requirement: requirementFor(
+            entry.amount,
+            entry.payTo,
+            entry.kind === "escrow" ? `Escrow for job: ${job.title}` : "MDP platform fee"
+          ),
+          confirmPolls: 0,
+        };
+        state.payments.set(payment.id, payment);
+        return payment;
+      });
+
+      const primary = payments[0]!;
+      return json(201, {
+        paymentId: primary.id,
+        requirement: primary.requirement,
+        encodedRequirement: btoa(JSON.stringify(primary.requirement)),
+        paymentIds: payments.map((p) => p.id),
+        requirements: payments.map((p) => p.requirement),
+      });
+    }),
+    route("POST", "/api/payments/settle", (req) => {
+      const user = requireUser(req);
+      const { paymentId, paymentHeader } = bodyOf(req);
+      const payment = state.payments.get(str(paymentId));
+      if (!payment) throw new MockHttpError(404, "Payment not found");
+      if (!sameAddress(payment.payerWallet, user.wallet)) {
+        throw new MockHttpError(403, "Only the payer can settle this payment");
+      }
+      if (payment.requirement.extra?.contractMode) {
+        throw new MockHttpError(409, "Contract escrow mode: use /api/payments/confirm");
+      }
+      if (payment.status === "settled") throw new MockHttpError(409, "Payment already settled");
+      const authorization = decodeAuthorization(paymentHeader);
+      if (
+        !sameAddress(authorization.to, payment.requirement.payTo) ||
+        authorization.value !== payment.requirement.maxAmountRequired
+      ) {
+        throw new MockHttpError(400, "Payment authorization does not match the requirement");
+      }
+      Object.assign(payment, { status: "settled", settledAt: iso(), x402TxHash: randomHex(32) });
+      markFunded(getJob(payment.jobId));
+      return json(200, {
+        success: true,
+        status: "settled",
+        paymentId: payment.id,
+        txHash: payment.x402TxHash,
+      });
+    }),
+    route("POST", "/api/payments/confirm", (req) => {
+      const user = requireUser(req);
+      const { paymentId, txHash } = bodyOf(req);
+      const payment = state.payments.get(str(paymentId));
+      if (!payment) throw new MockHttpError(404, "Payment not found");
+      if (!sameAddress(payment.payerWallet, user.wallet)) {
+        throw new MockHttpError(403, "Only the payer can confirm this payment");
+      }
+      if (!txHash) throw new MockHttpError(400, "txHash is required");
+      if (payment.status !== "settled" && payment.confirmPolls < (options.confirmationPolls ?? 0)) {
+        payment.confirmPolls++;
+        return json(200, { success: true, status: "pending", txHash, paymentId: payment.id });
+      }
+      // The escrow contract pulls every requirement of the intent in one transaction
+      for (const p of state.payments.values()) {
+        if (p.intentId === payment.intentId && p.status !== "settled") {
+          Object.assign(p, { status: "settled", settledAt: iso(), x402TxHash: txHash });
+        }
+      }
+      markFunded(getJob(payment.jobId));
+      return json(200, { success: true, status: "settled", txHash, paymentId: payment.id });
+    }),
+    route("GET", "/api/payments", (req) => {
+      const user = requireUser(req);
+      const jobId = req.query.get("jobId");
+      if (!jobId) throw new MockHttpError(400, "jobId is required");
+      const job = getJob(jobId);
+      const accepted = acceptedProposal(job.id);
+      const agent = accepted ? state.agents.get(accepted.agentId) : undefined;
+      if (job.posterId !== user.id && !(agent && controlsAgent(agent, user))) {
+        throw new MockHttpError(403, "Not a party to this job");
+      }
+      const payments = [...state.payments.values()].filter((p) => p.jobId === job.id);
+      return json(200, { items: payments.map(publicPayment) });
+    }),
+
+    // Ratings
+    route("GET", "/api/ratings", (req) => {
+      const agentId = req.query.get("agentId");
+      if (!agentId) throw new MockHttpError(400, "agentId is required");
+      const ratings = [...state.ratings.values()].filter((r) => r.agentId === agentId).sort(newestFirst);
+      return json(200, { items: ratings });
+    }),
+    route("POST", "/api/ratings", (req) => {
+      const user = requireUser(req);
+      const { agentId, jobId, score, comment } = bodyOf(req);
+      if (typeof score !== "number" || !Number.isInteger(score) || score < 1 || score > 5) {
+        throw new MockHttpError(400, "score must be an integer between 1 and 5");
+      }
+      const job = getJob(str(jobId));
+      if (job.posterId !== user.id) throw new MockHttpError(403, "Only the poster can rate");
+      if (job.status !== "completed") throw new MockHttpError(409, "Job is not completed");
+      if (acceptedProposal(job.id)?.agentId !== agentId) {
+        throw new MockHttpError(400, "Agent did not complete this job");
+      }
+      const duplicate = [...state.ratings.values()].some((r) => r.jobId === job.id);
+      if (duplicate) throw new MockHttpError(409, "Job already rated");
+      const rating: Rating = {
+        id: uuid(),
+        raterId: user.id,
+        agentId: str(agentId),
+        jobId: job.id,
+        score,
+        comment: typeof comment === "string" ? comment : undefined,
+        createdAt: iso(),
+      };
+      state.ratings.set(rating.id, rating);
+      return json(201, { rating });
+    }),
+
+    // Messages
+    route("POST", "/api/messages/dm", (req) => {
+      const user = requireUser(req);
+      const data = bodyOf(req);
+      let other: User | undefined;
+      if (data.toUserId) {
+        other = state.users.get(str(data.toUserId));
+      } else if (data.toWallet) {
+        if (!isAddress(str(data.toWallet))) throw new MockHttpError(400, "Invalid wallet");
+        other = getOrCreateUser(str(data.toWallet));
+      } else if (data.toAgentId) {
+        const agent = getAgent(str(data.toAgentId));
+        const wallet = data.mode === "agent" ? agent.eip8004AgentWallet : agent.ownerWallet;
+        other = wallet ? getOrCreateUser(wallet) : undefined;
+      } else {
+        throw new MockHttpError(400, "toUserId, toWallet or toAgentId is required");
+      }
+      if (!other) throw new MockHttpError(404, "Recipient not found");
+      if (other.id === user.id) throw new MockHttpError(400, "Cannot message yourself");
+
+      const existing = [...state.conversations.values()].find(
+        (c) => c.participants.includes(user.id) && c.participants.includes(other!.id)
+      );
+      if (existing) return json(200, { conversationId: existing.id });
+
+      const conversation: MockConversation = {
+        id: uuid(),
+        participants: [user.id, other.id],
+        lastReadAt: { [user.id]: null, [other.id]: null },
+        updatedAt: iso(),
+      };
+      state.conversations.set(conversation.id, conversation);
+      state.messages.set(conversation.id, []);
+      return json(201, { conversationId: conversation.id });
+    }),
+    route("GET", "/api/messages/conversations", (req) => {
+      const user = requireUser(req);
+      const conversations = [...state.conversations.values()]
+        .filter((c) => c.participants.includes(user.id))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map((c) => toConversation(c, user));
+      return json(200, { conversations });
+    }),
+    route("GET", "/api/messages/conversations/:id", (req) => {
+      const user = requireUser(req);
+      const conversation = conversationFor(req, user);
+      return json(200, {
+        conversation: toConversation(conversation, user),
+        other: otherParticipant(conversation, user),
+        participants: conversation.participants.map((userId) => ({
+          userId,
+          lastReadAt: conversation.lastReadAt[userId] ?? null,
+        })),
+      });
+    }),
+    route("GET", "/api/messages/conversations/:id/messages", (req) => {
+      const user = requireUser(req);
+      const conversation = conversationFor(req, user);
+      const all = state.messages.get(conversation.id) ?? [];
+      const limit = clamp(Number(req.query.get("limit") ?? 50), 1, 100);
+      const before = req.query.get("before");
+      const cursor = before ? all.find((m) => m.id === before)?.createdAt ?? before : undefined;
+      const older = cursor ? all.filter((m) => m.createdAt < cursor) : all;
+      return json(200, { messages: older.slice(-limit) });
+    }),
+    route("POST", "/api/messages/conversations/:id/messages", (req) => {
+      const user = requireUser(req);
+      const conversation = conversationFor(req, user);
+      const body = bodyOf(req).body;
+      if (typeof body !== "string" || body.trim().length === 0 || body.length > 4000) {
+        throw new MockHttpError(400, "Message body must be 1-4000 characters");
+      }
+      const message: Message = {
+        id: uuid(),
+        conversationId: conversation.id,
+        senderUserId: user.id,
+        body,
+        createdAt: iso(),
+      };
+      state.messages.get(conversation.id)!.push(message);
+      conversation.updatedAt = message.createdAt;
+      conversation.lastReadAt[user.id] = message.createdAt;
+      return json(201, { message });
+    }),
+    route("POST", "/api/messages/conversations/:id/read", (req) => {
+      const user = requireUser(req);
+      const conversation = conversationFor(req, user);
+      conversation.lastReadAt[user.id] = iso();
+      return json(200, { success: true });
+    }),
+
+    // Escrow
+    route("GET", "/api/escrow/:jobId", (req) => {
+      const job = getJob(req.params.jobId!);
+      const contractMode = Boolean(options.contractMode);
+      const escrowState: EscrowState = {
+        usingContract: contractMode,
+        escrowContract: contractMode ? escrowContract : undefined,
+        chainId: X402_CONSTANTS.CHAIN_ID,
+        jobId: job.id,
+        jobKey: job.jobKey,
+      };
+      if (job.fundedAt) {
+        const proposal = acceptedProposal(job.id);
+        const deliveries = [...state.deliveries.values()]
+          .filter((d) => d.proposalId === proposal?.id)
+          .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+        const latest = deliveries[0];
+        const acceptDeadlineAt = new Date(Date.parse(job.fundedAt) + acceptDeadline * 1000);
+        const autoReleaseAt = new Date(
+          Date.parse(latest?.submittedAt ?? acceptDeadlineAt.toISOString()) + autoReleaseDelay * 1000
+        );
+        const current = now().getTime();
+        const released = job.status === "completed";
+        escrowState.escrow = {
+          status: released ? "released" : "funded",
+          fundedAt: job.fundedAt,
+          amountUSDC: proposal?.estimatedCostUSDC,
+        };
+        escrowState.computed = {
+          acceptDeadlineSeconds: acceptDeadline,
+          autoReleaseDelaySeconds: autoReleaseDelay,
+          acceptDeadlineAt: acceptDeadlineAt.toISOString(),
+          autoReleaseAt: autoReleaseAt.toISOString(),
+          canAutoRelease:
+            !released && Boolean(latest) && !latest?.approvedAt && current >= autoReleaseAt.getTime(),
+          canRefundExpired: !released && !latest && current >= acceptDeadlineAt.getTime(),
+        };
+      }
+      return json(200, escrowState);
+    }),
+
+    // Disputes
+    route("POST", "/api/disputes/:jobId/opened", (req) => {
+      const user = requireUser(req);
+      const job = getJob(req.params.jobId!);
+      const { reason, txHash } = bodyOf(req);
+      if (!reason) throw new MockHttpError(400, "reason is required");
+      const accepted = acceptedProposal(job.id);
+      const agent = accepted ? state.agents.get(accepted.agentId) : undefined;
+      if (job.posterId !== user.id && !(agent && controlsAgent(agent, user))) {
+        throw new MockHttpError(403, "Only the poster or the hired agent can open a dispute");
+      }
+      if (job.status !== "funded" && job.status !== "in_progress") {
+        throw new MockHttpError(409, "Only funded jobs can be disputed");
+      }
+      if (state.disputes.some((d) => d.jobId === job.id)) {
+        throw new MockHttpError(409, "Dispute already open for this job");
+      }
+      state.disputes.push({ jobId: job.id, openedBy: user.id, reason: str(reason), txHash: typeof txHash === "string" ? txHash : undefined, createdAt: iso() });
+      return json(200, { success: true });
+    }),
+
+    // Bazaar (x402-gated)
+    route("GET", "/api/bazaar/jobs/search", (req) => {
+      const requirement = {
+        scheme: "exact",
+        network: "base",
+        maxAmountRequired: parseUSDC(bazaarPrice).toString(),
+        resource: `${baseUrl}/api/bazaar/jobs/search`,
+        description: "MDP bazaar job search",
+        mimeType: "application/json",
+        payTo: feeWallet,
+        maxTimeoutSeconds: 60,
+        asset: X402_CONSTANTS.USDC_ADDRESS,
+        extra: { name: "USD Coin", version: "2" },
+      };
+      const headers: Record<string, string> = {};
+      if (bazaarPrice > 0) {
+        const header = req.headers.get("x-payment");
+        if (!header) {
+          return json(402, { x402Version: 1, error: "X-PAYMENT header is required", accepts: [requirement] });
+        }
+        const authorization = decodeAuthorization(header);
+        if (
+          !sameAddress(authorization.to, requirement.payTo) ||
+          BigInt(authorization.value) < BigInt(requirement.maxAmountRequired)
+        ) {
+          return json(402, { x402Version: 1, error: "Invalid payment", accepts: [requirement] });
+        }
+        headers["x-payment-response"] = btoa(
+          JSON.stringify({
+            success: true,
+            transaction: randomHex(32),
+            network: requirement.network,
+            payer: authorization.from,
+          })
+        );
+      }
+      const q = (req.query.get("q") ?? "").toLowerCase();
+      const limit = clamp(Number(req.query.get("limit") ?? 10), 1, 25);
+      const jobs = [...state.jobs.values()]
+        .filter((j) => j.status === "open")
+        .filter(
+          (j) =>
+            !q ||
+            j.title.toLowerCase().includes(q) ||
+            j.description.toLowerCase().includes(q) ||
+            j.requiredSkills.some((s) => s.toLowerCase().includes(q))
+        )
+        .sort(newestFirst)
+        .slice(0, limit)
+        .map(publicJob);
+      return json(200, { jobs, count: jobs.length }, headers);
+    }),
+  ];
+
+  const handle = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const request = input instanceof Request ? input : undefined;
+    const url = new URL(request ? request.url : String(input));
+    const method = (init?.method ?? request?.method ?? "GET").toUpperCase();
+    const headers = new Headers(init?.headers ?? request?.headers);
+    const rawBody = init?.body ?? (request ? await request.text() : undefined);
+
+    if (`${url.protocol}//${url.host}` !== new URL(baseUrl).origin) {
+      return json(502, { error: `Mock MDP server does not serve ${url.origin}` });
+    }
+
+    let body: unknown;
+    if (typeof rawBody === "string" && rawBody.length > 0) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return json(400, { error: "Invalid JSON body" });
+      }
+    }
+
+    const pathname = url.pathname.replace(/\/$/, "") || "/";
+    for (const r of routes) {
+      if (r.method !== method) continue;
+      const params = r.match(pathname);
+      if (!params) continue;
+      try {
+        return await r.handler({ method, path: pathname, params, query: url.searchParams, headers, body });
+      } catch (error) {
+        if (error instanceof MockHttpError) {
+          return json(error.status, { error: error.message, code: error.code });
+        }
+        return json(500, { error: error instanceof Error ? error.message : "Internal error" });
+      }
+    }
+    return json(404, { error: `No mock route for ${method} ${pathname}` });
+  };
+
+  return {
+    baseUrl,
+    fetch: handle as typeof fetch,
+    state,
+    config(overrides) {
+      // Sign-in messages carry mock time, so check them against the mock clock
+      const verification = overrides?.signInVerification;
+      return {
+        baseUrl,
+        fetch: handle as typeof fetch,
+        // The mock has no quotas; the default 60/min limiter would stall longer suites
+        rateLimit: false,
+        ...overrides,
+        signInVerification:
+          verification === false ? false : { allowedDomains: [domain], now, ...verification },
+      };
+    },
+    advanceTime(ms) {
+      clockOffset += ms;
+    },
+    now,
+    reset() {
+      Object.assign(state, emptyState());
+      clockOffset = 0;
+    },
+  };
+}
+
+// ============================================
+// Mock Remote Signer
+// ============================================
+
+export interface MockSignerEndpointOptions {
+  /** URL the endpoint answers on (default: "http://signer.mock") */
+  url?: string;
+  /** Bearer token required on every call (default: none) */
+  token?: string;
+  /** Return true to answer a call with EIP-1193 4001 "User rejected the request" */
+  reject?: (method: string, params: unknown[]) => boolean;
+}
+
+export interface MockSignerEndpoint {
+  /** URL to pass as `RemoteSignerConfig.url` */
+  readonly url: string;
+  /** Fetch implementation to pass as `RemoteSignerConfig.fetch` */
+  readonly fetch: typeof fetch;
+  /** Every JSON-RPC call received, in order */
+  readonly calls: Array<{ method: string; params: unknown[] }>;
+}
+
+/**
+ * Stand-in for a remote JSON-RPC signer (Web3Signer, Frame...) holding
+ * `privateKey`, for testing createRemoteSigner offline. Transactions are
+ * signed but not broadcast; the returned hash is the signed transaction's.
+ */
+export function createMockSignerEndpoint(
+  privateKey: `0x${string}`,
+  options: MockSignerEndpointOptions = {}
+): MockSignerEndpoint {
+  const url = options.url ?? "http://signer.mock";
+  const calls: MockSignerEndpoint["calls"] = [];
+
+  const handle = async (method: string, params: unknown[]): Promise<unknown> => {
+    const [{ privateKeyToAccount }, viem] = await Promise.all([
+      import("viem/accounts"),
+      import("viem"),
+    ]);
+    const account = privateKeyToAccount(privateKey);
+    const own = (address: unknown) => sameAddress(String(address), account.address);
+
+    switch (method) {
+      case "eth_accounts":
+        return [account.address];
+      case "personal_sign":
+        if (!own(params[1])) throw new MockRpcError(4100, "Unknown account");
+        return account.signMessage({ message: { raw: params[0] as `0x${string}` } });
+      case "eth_signTypedData_v4": {
+        if (!own(params[0])) throw new MockRpcError(4100, "Unknown account");
+        const typedData = JSON.parse(params[1] as string);
+        const { EIP712Domain: _domain, ...types } = typedData.types;
+        return account.signTypedData({ ...typedData, types });
+      }
+      case "eth_sendTransaction": {
+        const tx = (params[0] ?? {}) as Record<string, string | undefined>;
+        if (!own(tx.from)) throw new MockRpcError(4100, "Unknown account");
+        const signed = await account.signTransaction({
+          to: tx.to as `0x${string}` | undefined,
+          data: tx.data as `0x${string}` | undefined,
+          value: BigInt(tx.value ?? "0x0"),
+          chainId: Number(tx.chainId ?? "0x2105"),
+          nonce: calls.filter((c) => c.method === "eth_sendTransaction").length - 1,
+          gas: 300_000n,
+          maxFeePerGas: 1_000_000_000n,
+          maxPriorityFeePerGas: 1_000_000n,
+        });
+        return viem.keccak256(signed);
+      }
+      default:
+        throw new MockRpcError(-32601, `Method ${method} not supported`);
+    }
+  };
+
+  const endpointFetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const request = new Request(input, init);
+    if (options.token && request.headers.get("authorization") !== `Bearer ${options.token}`) {
+      return json(401, { error: "Unauthorized" });
+    }
+    const { id, method, params = [] } = (await request.json()) as {
+      id: number;
+      method: string;
+      params?: unknown[];
+    };
+    calls.push({ method, params });
+    try {
+      if (options.reject?.(method, params)) {
+        throw new MockRpcError(4001, "User rejected the request");
+      }
+      return json(200, { jsonrpc: "2.0", id, result: await handle(method, params) });
+    } catch (error) {
+      const code = error instanceof MockRpcError ? error.code : -32603;
+      const message = error instanceof Error ? error.message : String(error);
+      return json(200, { jsonrpc: "2.0", id, error: { code, message } });
+    }
+  };
+
+  return { url, fetch: endpointFetch as typeof fetch, calls };
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+interface MockRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: Headers;
+  /** Parsed JSON body; read it through bodyOf() */
+  body: unknown;
+}
+
+interface Route {
+  method: string;
+  match(path: string): Record<string, string> | undefined;
+  handler(req: MockRequest): Response | Promise<Response>;
+}
+
+class MockHttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public code?: string
+  ) {
+    super(message);
+  }
+}
+
+/** A JSON-RPC error the mock signer endpoint answers with */
+class MockRpcError extends Error {
+  constructor(
+    public code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const EDITABLE_AGENT_FIELDS = [
+  "description",
+  "pricingModel",
+  "hourlyRate",
+  "tags",
+  "constraints",
+  "skillMdContent",
+  "skillMdUrl",
+  "avatarUrl",
+  "socialLinks",
+  "eip8004Services",
+  "eip8004Registrations",
+  "eip8004SupportedTrust",
+  "eip8004X402Support",
+] as const;
+
+const FEEDBACK_FIELDS = [
+  "score",
+  "value",
+  "valueDecimals",
+  "tag1",
+  "tag2",
+  "endpoint",
+  "comment",
+] as const;
+
+function emptyState(): MockMdpState {
+  return {
+    users: new Map(),
+    agents: new Map(),
+    jobs: new Map(),
+    proposals: new Map(),
+    deliveries: new Map(),
+    payments: new Map(),
+    ratings: new Map(),
+    feedback: new Map(),
+    conversations: new Map(),
+    messages: new Map(),
+    disputes: [],
+    nonces: new Map(),
+    tokens: new Map(),
+  };
+}
+
+function route(method: string, pattern: string, handler: Route["handler"]): Route {
+  const keys: string[] = [];
+  const source = pattern
+    .split("/")
+    .map((segment) => {
+      if (!segment.startsWith(":")) return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      keys.push(segment.slice(1));
+      return "([^/]+)";
+    })
+    .join("/");
+  const regex = new RegExp(`^${source}$`);
+  return {
+    method,
+    handler,
+    match(path) {
+      const m = regex.exec(path);
+      if (!m) return undefined;
+      return Object.fromEntries(keys.map((k, i) => [k, decodeURIComponent(m[i + 1]!)]));
+    },
+  };
+}
+
+function newAgent(
+  data: CreateAgentRequest,
+  ownerWallet: string,
+  agentWallet: string,
+  creator: User,
+  timestamp: string
+): Agent {
+  return {
+    id: uuid(),
+    ownerId: creator.id,
+    ownerWallet,
+    name: data.name,
+    description: data.description,
+    skillMdUrl: data.skillMdUrl,
+    skillMdContent: data.skillMdContent,
+    pricingModel: data.pricingModel,
+    hourlyRate: data.hourlyRate,
+    tags: data.tags ?? [],
+    constraints: data.constraints,
+    avatarUrl: data.avatarUrl,
+    socialLinks: data.socialLinks,
+    verified: false,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    eip8004Services: data.eip8004Services,
+    eip8004Registrations: data.eip8004Registrations,
+    eip8004X402Support: data.eip8004X402Support,
+    eip8004AgentWallet: agentWallet,
+    eip8004Active: false,
+    hasSkillMd: Boolean(data.skillMdContent || data.skillMdUrl),
+  };
+}
+
+function publicJob(job: MockJob): Job {
+  const { fundedAt: _fundedAt, jobKey: _jobKey, ...rest } = job;
+  return rest;
+}
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+function text(status: number, body: string, contentType: string): Response {
+  return new Response(body, { status, headers: { "content-type": contentType } });
+}
+
+function paginate<T>(items: T[], query: URLSearchParams) {
+  const limit = clamp(Number(query.get("limit") ?? 20), 1, 100);
+  const offset = Math.max(0, Number(query.get("offset") ?? 0) || 0);
+  return { items: items.slice(offset, offset + limit), total: items.length, limit, offset };
+}
+
+/** The request's JSON object body, or an empty object for anything else */
+function bodyOf(req: MockRequest): Record<string, unknown> {
+  const body = req.body;
+  return body !== null && typeof body === "object" && !Array.isArray(body) ? (body as Record<string, unknown>) : {};
+}
+
+/** A body field that should be a string; anything else reads as "" */
+function str(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+function requireFields(data: object, fields: string[]): void {
+  const record = data as Record<string, unknown>;
+  const missing = fields.filter((f) => record[f] === undefined || record[f] === null || record[f] === "");
+  if (missing.length > 0) {
+    throw new MockHttpError(400, `Missing required fields: ${missing.join(", ")}`);
+  }
+}
+
+function pick<T extends object>(source: T, keys: readonly string[]): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(source).filter(([key]) => keys.includes(key))
+  ) as Partial<T>;
+}
+
+function decodeAuthorization(header: unknown): { from: string; to: string; value: string } {
+  try {
+    const decoded = JSON.parse(atob(String(header)));
+    const authorization = decoded?.payload?.authorization;
+    if (!authorization?.to || authorization.value === undefined) throw new Error();
+    return {
+      from: String(authorization.from),
+      to: String(authorization.to),
+      value: String(authorization.value),
+    };
+  } catch {
+    throw new MockHttpError(400, "Malformed x402 payment header");
+  }
+}
+
+function newestFirst(a: { createdAt: string }, b: { createdAt: string }): number {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+function sameAddress(a: string | undefined, b: string | undefined): boolean {
+  return Boolean(a && b && a.toLowerCase() === b.toLowerCase());
+}
+
+function isAddress(value: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  if (!Number.isFinite(value)) return min;
+  return Math.min(max, Math.max(min, Math.floor(value)));
+}
+
+function uuid(): string {
+  return globalThis.crypto.randomUUID();
+}
+
+function randomHex(bytes: number): `0x${string}` {
+  const buf = new Uint8Array(bytes);
+  globalThis.crypto.getRandomValues(buf);
+  return `0x${Array.from(buf, (b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+function base64Url(value: string): string {
+  return btoa(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
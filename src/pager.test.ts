@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MDPAgentSDK } from "./index.js";
+import { createMockMdpServer } from "./mock.js";
+import { AgentPager } from "./pager.js";
+
+const POSTER_KEY = `0x${"11".repeat(32)}` as const;
+const OWNER_KEY = `0x${"22".repeat(32)}` as const;
+
+async function setup() {
+  const server = createMockMdpServer();
+  const poster = await MDPAgentSDK.createWithPrivateKey(server.config(), POSTER_KEY);
+  const owner = await MDPAgentSDK.createWithPrivateKey(server.config(), OWNER_KEY);
+  const agent = await owner.agents.register({
+    name: "Writer",
+    description: "Writes things",
+    pricingModel: "fixed",
+    tags: ["writing"],
+    eip8004AgentWallet: `0x${"33".repeat(20)}`,
+  });
+  await owner.agents.claim(agent.id);
+  const postJob = (title: string) =>
+    poster.jobs.create({
+      title,
+      description: "Write it",
+      requiredSkills: ["writing"],
+      budgetUSDC: 10,
+      acceptanceCriteria: "Written",
+    });
+  return { server, poster, owner, agent, postJob };
+}
+
+describe("AgentPager", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("counts pending proposals submitted outside the pager", async () => {
+    const { owner, agent, postJob } = await setup();
+    const job = await postJob("Manual bid");
+    const proposal = await owner.proposals.bid(job.id, agent.id, "plan", 5, "1 day");
+    const pager = new AgentPager(owner, { agentId: agent.id });
+
+    expect(await pager.countPendingProposals()).toBe(1);
+    await owner.proposals.withdraw(proposal.id);
+    expect(await pager.countPendingProposals()).toBe(0);
+  });
+
+  it("does not bid past maxProposals when bids were placed elsewhere", async () => {
+    const { owner, agent, postJob } = await setup();
+    const first = await postJob("First");
+    await postJob("Second");
+    await owner.proposals.bid(first.id, agent.id, "plan", 5, "1 day");
+
+    const pager = new AgentPager(owner, { agentId: agent.id, autoPropose: true, maxProposals: 1 });
+    const result = await pager.pollJobs();
+    expect(result.pending).toBe(1);
+    expect(result.proposed).toHaveLength(0);
+  });
+
+  it("only marks conversations read when handleMessage is supplied", async () => {
+    const { poster, owner, agent } = await setup();
+    const conversationId = await poster.messages.createDm({ toWallet: (await owner.auth.me()).wallet });
+    await poster.messages.sendMessage(conversationId, "Any update?");
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+    const logging = new AgentPager(owner, { agentId: agent.id });
+    expect(await logging.pollMessages()).toEqual({ handled: 0, conversations: 0 });
+    expect(log).toHaveBeenCalledOnce();
+    const [unread] = await owner.messages.listConversations();
+    expect(unread?.unreadCount).toBe(1);
+
+    const handled: string[] = [];
+    const handling = new AgentPager(owner, {
+      agentId: agent.id,
+      handleMessage: (message) => {
+        handled.push(message.body);
+      },
+    });
+    expect(await handling.pollMessages()).toEqual({ handled: 1, conversations: 1 });
+    expect(handled).toEqual(["Any update?"]);
+    const [read] = await owner.messages.listConversations();
+    expect(read?.unreadCount).toBe(0);
+  });
+
+  it("looks up proposals again only for new, pending or stale jobs", async () => {
+    const { owner, agent, postJob } = await setup();
+    const bidOn = await postJob("Bid on");
+    const quiet = await postJob("Quiet");
+    await postJob("Also quiet");
+    await owner.proposals.bid(bidOn.id, agent.id, "plan", 5, "1 day");
+    const list = vi.spyOn(owner.proposals, "list");
+    const pager = new AgentPager(owner, { agentId: agent.id });
+
+    expect(await pager.countPendingProposals()).toBe(1);
+    expect(list).toHaveBeenCalledTimes(3);
+
+    list.mockClear();
+    const fresh = await postJob("New");
+    expect(await pager.countPendingProposals()).toBe(1);
+    expect(list.mock.calls.map(([jobId]) => jobId).sort()).toEqual([bidOn.id, fresh.id].sort());
+
+    await owner.proposals.bid(quiet.id, agent.id, "plan", 5, "1 day");
+    expect(await pager.countPendingProposals()).toBe(1);
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(Date.now() + 3_600_000);
+      expect(await pager.countPendingProposals()).toBe(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("handles messages that arrive while handling before marking read", async () => {
+    const { poster, owner, agent } = await setup();
+    const conversationId = await poster.messages.createDm({ toWallet: (await owner.auth.me()).wallet });
+    await poster.messages.sendMessage(conversationId, "First");
+
+    const handled: string[] = [];
+    const pager = new AgentPager(owner, {
+      agentId: agent.id,
+      handleMessage: async (message, conversation, { sdk }) => {
+        handled.push(message.body);
+        await sdk.messages.sendMessage(conversation.id, `Re: ${message.body}`);
+        if (message.body === "First") await poster.messages.sendMessage(conversationId, "Second");
+      },
+    });
+    expect(await pager.pollMessages()).toEqual({ handled: 2, conversations: 1 });
+    expect(handled).toEqual(["First", "Second"]);
+    const [read] = await owner.messages.listConversations();
+    expect(read?.unreadCount).toBe(0);
+  });
+});
@@ -0,0 +1,558 @@
+// ============================================
+// Agent Pager - The on-call loop from pager.md
+// ============================================
+
+import type { MDPAgentSDK } from "./index.js";
+import { NotFoundError, RateLimitError } from "./types.js";
+import type {
+  Agent,
+  CallOptions,
+  Conversation,
+  Job,
+  Message,
+  Proposal,
+  ProposalStatus,
+} from "./types.js";
+
+/** What the pager knows when calling back into your code */
+export interface PagerContext {
+  sdk: MDPAgentSDK;
+  /** Profile of the agent the pager bids for, reloaded every job poll */
+  agent: Agent;
+}
+
+/** Proposal the pager should submit for a matched job */
+export interface PagerProposalDraft {
+  plan: string;
+  estimatedCostUSDC: number;
+  eta: string;
+}
+
+/** A proposal submitted by the pager, persisted so it never bids on a job twice */
+export interface PagerProposedJob {
+  proposalId: string;
+  status: ProposalStatus;
+  proposedAt: string;
+}
+
+export interface PagerState {
+  version: 1;
+  /** Job ID -> the pager's proposal on it */
+  proposedJobs: Record<string, PagerProposedJob>;
+}
+
+/** Where the pager keeps its state between restarts */
+export interface PagerStateStore {
+  load(): Promise<PagerState | undefined>;
+  save(state: PagerState): Promise<void>;
+}
+
+export type PagerLoop = "jobs" | "messages";
+
+export interface AgentPagerConfig {
+  /** Agent to bid for (default: the agent bound to the wallet, via agents.runtimeMe) */
+  agentId?: string;
+  /** Milliseconds between job polls (default: 600000) */
+  pollIntervalMs?: number;
+  /** Milliseconds between message polls (default: 300000) */
+  messageIntervalMs?: number;
+  /** Most pending proposals the agent may have at once (default: 3) */
+  maxProposals?: number;
+  /** Submit proposals for matching jobs instead of only reporting them (default: false) */
+  autoPropose?: boolean;
+  /** Lowest `matchJob` score worth a proposal, 0-1 (default: 0.5) */
+  matchThreshold?: number;
+  /** Newest open jobs looked at per poll, for matches and for pending proposals (default: 100) */
+  jobScanLimit?: number;
+  /**
+   * Milliseconds a job found without a pending proposal from the agent is
+   * not looked up again when counting; bids placed outside the pager on
+   * such a job are counted after at most this long (default: 3600000)
+   */
+  proposalRecheckMs?: number;
+  /** Score a job from 0 to 1 (default: share of its required skills found in the agent's tags) */
+  matchJob?: (job: Job, context: PagerContext) => number | Promise<number>;
+  /** Write the proposal for a matched job; return undefined to skip it (default: 80% of budget, 3 days) */
+  draftProposal?: (
+    job: Job,
+    score: number,
+    context: PagerContext
+  ) => PagerProposalDraft | undefined | Promise<PagerProposalDraft | undefined>;
+  /**
+   * Handle an unread message. The conversation is marked read once every
+   * unread message was handled, including ones that arrived meanwhile; if
+   * this throws it stays unread and is retried.
+   * Without a handler, unread messages are only logged and stay unread.
+   */
+  handleMessage?: (message: Message, conversation: Conversation, context: PagerContext) => void | Promise<void>;
+  /** Called for a matching job when `autoPropose` is off */
+  onMatch?: (job: Job, score: number, context: PagerContext) => void | Promise<void>;
+  /** Called when a poll fails, before backing off (default: console.warn) */
+  onError?: (error: unknown, loop: PagerLoop) => void;
+  /** Persist proposed jobs here (default: in memory) */
+  store?: PagerStateStore;
+  /** Longest wait after repeated failures; each failure doubles the interval (default: 3600000) */
+  maxBackoffMs?: number;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 600_000;
+const DEFAULT_MESSAGE_INTERVAL_MS = 300_000;
+const DEFAULT_MAX_BACKOFF_MS = 3_600_000;
+const DEFAULT_JOB_SCAN_LIMIT = 100;
+const DEFAULT_PROPOSAL_RECHECK_MS = 3_600_000;
+
+/**
+ * Share of a job's required skills found in the agent's tags (case-insensitive).
+ * 0 when either list is empty.
+ */
+export function skillOverlap(tags: string[], requiredSkills: string[]): number {
+  if (!requiredSkills.length || !tags.length) return 0;
+  const mine = new Set(tags.map((t) => t.toLowerCase()));
+  return requiredSkills.filter((s) => mine.has(s.toLowerCase())).length / requiredSkills.length;
+}
+
+/** The proposal pager.md drafts: matching skills, 80% of the budget, 3 days */
+function defaultDraft(job: Job, _score: number, { agent }: PagerContext): PagerProposalDraft {
+  const tags = new Set(agent.tags.map((t) => t.toLowerCase()));
+  const skills = job.requiredSkills.filter((s) => tags.has(s.toLowerCase()));
+  return {
+    plan: `I can handle this job. My relevant skills: ${skills.join(", ")}. I will deliver according to the acceptance criteria.`,
+    estimatedCostUSDC: job.budgetUSDC ? Math.round(job.budgetUSDC * 0.8) : 100,
+    eta: "3 days",
+  };
+}
+
+/**
+ * Keeps pager state for the lifetime of the process (the default)
+ */
+export class MemoryPagerStateStore implements PagerStateStore {
+  private state?: PagerState;
+
+  async load(): Promise<PagerState | undefined> {
+    return this.state && structuredClone(this.state);
+  }
+
+  async save(state: PagerState): Promise<void> {
+    this.state = structuredClone(state);
+  }
+}
+
+/**
+ * Stores pager state as JSON in a file readable only by the owner (0600)
+ */
+export class FilePagerStateStore implements PagerStateStore {
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path - File holding the state (created on first save)
+   */
+  constructor(private readonly path: string) {}
+
+  async load(): Promise<PagerState | undefined> {
+    await this.writes;
+    const { readFile } = await import("node:fs/promises");
+    try {
+      return JSON.parse(await readFile(this.path, "utf8")) as PagerState;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async save(state: PagerState): Promise<void> {
+    const run = this.writes.then(async () => {
+      const [{ writeFile, rename, mkdir }, { dirname }] = await Promise.all([
+        import("node:fs/promises"),
+        import("node:path"),
+      ]);
+      await mkdir(dirname(this.path), { recursive: true });
+      const temp = `${this.path}.${process.pid}.tmp`;
+      await writeFile(temp, `${JSON.stringify(state, null, 2)}\n`, { mode: 0o600 });
+      await rename(temp, this.path);
+    });
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/** Outcome of one job poll */
+export interface PagerJobsResult {
+  /** Open jobs looked at */
+  scanned: number;
+  /** Jobs scoring at or above the threshold that were not proposed on before */
+  matched: { job: Job; score: number }[];
+  /** Proposals submitted in this poll */
+  proposed: { job: Job; proposal: Proposal }[];
+  /** Pending proposals after this poll */
+  pending: number;
+}
+
+/** Outcome of one message poll */
+export interface PagerMessagesResult {
+  /** Unread messages handled */
+  handled: number;
+  /** Conversations marked read */
+  conversations: number;
+}
+
+/**
+ * The on-call loop described in pager.md: find open jobs matching the
+ * agent's skills, propose on them while under `maxProposals` pending
+ * proposals, and answer unread messages.
+ *
+ * Jobs the pager proposed on are persisted in `store`, and the pending count
+ * comes from the API (the agent's proposals on open jobs, including ones
+ * submitted outside the pager), so restarts neither bid twice nor lose track
+ * of capacity. Counting needs one proposal lookup per open job, so it is
+ * bound by the API rate limit: the first poll looks up every scanned job
+ * (`jobScanLimit`), later polls only new jobs, jobs with a pending proposal
+ * from the agent and the rest once per `proposalRecheckMs`. A failing poll
+ * is retried after an exponentially growing delay.
+ *
+ * ```ts
+ * const pager = AgentPager.fromEnv(sdk, {
+ *   store: new FilePagerStateStore(".mdp/pager.json"),
+ *   handleMessage: (msg, conv, { sdk }) => sdk.messages.sendMessage(conv.id, "On it"),
+ * });
+ * await pager.start();
+ * process.on("SIGTERM", () => pager.stop());
+ * ```
+ */
+export class AgentPager {
+  private agent?: Agent;
+  private userId?: string;
+  private state?: PagerState;
+  /** Job ID -> when it was last seen without a pending proposal from the agent */
+  private quietJobs = new Map<string, number>();
+  private timers = new Map<PagerLoop, ReturnType<typeof setTimeout>>();
+  private inFlight = new Set<Promise<unknown>>();
+  private active = false;
+  private store: PagerStateStore;
+
+  constructor(
+    private readonly sdk: MDPAgentSDK,
+    private readonly config: AgentPagerConfig = {}
+  ) {
+    this.store = config.store ?? new MemoryPagerStateStore();
+  }
+
+  /**
+   * Read the pager.md environment variables: MDP_AGENT_ID,
+   * MDP_POLL_INTERVAL, MDP_MSG_INTERVAL, MDP_MAX_PROPOSALS, MDP_AUTO_PROPOSE
+   * and MDP_MATCH_THRESHOLD. Unset variables are left out.
+   * @throws Error if a numeric variable is not a number
+   */
+  static configFromEnv(env: Record<string, string | undefined> = process.env): AgentPagerConfig {
+    const number = (name: string, min: number, max = Infinity): number | undefined => {
+      const raw = env[name]?.trim();
+      if (!raw) return undefined;
+      const value = Number(raw);
+      if (!Number.isFinite(value) || value < min || value > max) {
+        throw new Error(`${name} must be a number between ${min} and ${max}, got "${raw}"`);
+      }
+      return value;
+    };
+
+    const config: AgentPagerConfig = {
+      agentId: env.MDP_AGENT_ID?.trim() || undefined,
+      pollIntervalMs: number("MDP_POLL_INTERVAL", 1000),
+      messageIntervalMs: number("MDP_MSG_INTERVAL", 1000),
+      maxProposals: number("MDP_MAX_PROPOSALS", 0),
+      matchThreshold: number("MDP_MATCH_THRESHOLD", 0, 1),
+    };
+    const autoPropose = env.MDP_AUTO_PROPOSE?.trim().toLowerCase();
+    if (autoPropose) config.autoPropose = autoPropose === "true" || autoPropose === "1";
+
+    return Object.fromEntries(
+      Object.entries(config).filter(([, value]) => value !== undefined)
+    ) as AgentPagerConfig;
+  }
+
+  /**
+   * Pager configured from the environment, with `overrides` taking precedence
+   */
+  static fromEnv(
+    sdk: MDPAgentSDK,
+    overrides?: AgentPagerConfig,
+    env?: Record<string, string | undefined>
+  ): AgentPager {
+    return new AgentPager(sdk, { ...AgentPager.configFromEnv(env), ...overrides });
+  }
+
+  /** Whether both loops are scheduled */
+  get running(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Resolve the agent, then poll jobs and messages now and on their intervals
+   * @throws Error if no agent ID is configured and none is bound to the wallet
+   */
+  async start(): Promise<void> {
+    if (this.active) return;
+    await this.loadAgent();
+    this.active = true;
+    this.schedule("jobs", () => this.pollJobs(), this.config.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+    this.schedule(
+      "messages",
+      () => this.pollMessages(),
+      this.config.messageIntervalMs ?? DEFAULT_MESSAGE_INTERVAL_MS
+    );
+  }
+
+  /** Stop both loops, waiting for polls in progress to finish */
+  async stop(): Promise<void> {
+    this.active = false;
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+    await Promise.allSettled([...this.inFlight]);
+  }
+
+  /** Jobs the pager has proposed on, by job ID */
+  async proposedJobs(): Promise<Record<string, PagerProposedJob>> {
+    return { ...(await this.loadState()).proposedJobs };
+  }
+
+  /**
+   * Count the agent's pending proposals on open jobs, wherever they were
+   * submitted, refreshing the status of the pager's own proposals
+   */
+  async countPendingProposals(options?: CallOptions): Promise<number> {
+    return this.countPending(await this.openJobs(options), options);
+  }
+
+  /**
+   * One job poll: score open jobs and propose on (or report) the matches
+   */
+  async pollJobs(options?: CallOptions): Promise<PagerJobsResult> {
+    const context = { sdk: this.sdk, agent: await this.loadAgent(options) };
+    const state = await this.loadState();
+    const matchJob = this.config.matchJob ?? ((job: Job) => skillOverlap(context.agent.tags, job.requiredSkills));
+    const draftProposal = this.config.draftProposal ?? defaultDraft;
+    const threshold = this.config.matchThreshold ?? 0.5;
+    const maxProposals = this.config.maxProposals ?? 3;
+
+    const jobs = await this.openJobs(options);
+    const result: PagerJobsResult = {
+      scanned: 0,
+      matched: [],
+      proposed: [],
+      pending: await this.countPending(jobs, options),
+    };
+
+    for (const job of jobs) {
+      result.scanned++;
+      if (state.proposedJobs[job.id]) continue;
+
+      const score = await matchJob(job, context);
+      if (score < threshold) continue;
+      result.matched.push({ job, score });
+
+      if (!this.config.autoPropose) {
+        await (this.config.onMatch ?? logMatch)(job, score, context);
+        continue;
+      }
+      if (result.pending >= maxProposals) break;
+
+      const draft = await draftProposal(job, score, context);
+      if (!draft) continue;
+      const proposal = await this.sdk.proposals.bid(
+        job.id,
+        context.agent.id,
+        draft.plan,
+        draft.estimatedCostUSDC,
+        draft.eta,
+        options
+      );
+      this.quietJobs.delete(job.id);
+      state.proposedJobs[job.id] = {
+        proposalId: proposal.id,
+        status: proposal.status,
+        proposedAt: new Date().toISOString(),
+      };
+      await this.store.save(state);
+      result.proposed.push({ job, proposal });
+      result.pending++;
+    }
+
+    return result;
+  }
+
+  /**
+   * One message poll: hand every unread message to `handleMessage`, then
+   * mark its conversation read. Without `handleMessage` the messages are
+   * logged and left unread.
+   */
+  async pollMessages(options?: CallOptions): Promise<PagerMessagesResult> {
+    const context = { sdk: this.sdk, agent: this.agent ?? (await this.loadAgent(options)) };
+    const { handleMessage } = this.config;
+    const result: PagerMessagesResult = { handled: 0, conversations: 0 };
+
+    for (const conversation of await this.sdk.messages.listConversations(options)) {
+      if (conversation.unreadCount <= 0) continue;
+      const unread = await this.sdk.messages.listMessages(
+        conversation.id,
+        { limit: conversation.unreadCount },
+        options
+      );
+      unread.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      if (!handleMessage) {
+        unread.forEach(logMessage);
+        continue;
+      }
+      // Marking read covers every message so far, so first handle the ones that arrived meanwhile
+      const handled = new Set<string>();
+      for (let batch = unread; batch.length > 0; ) {
+        for (const message of batch) {
+          await handleMessage(message, conversation, context);
+          handled.add(message.id);
+          result.handled++;
+        }
+        batch = await this.arrivedSince(conversation.id, unread[0]!.createdAt, handled, options);
+      }
+      await this.sdk.messages.markRead(conversation.id, options);
+      result.conversations++;
+    }
+
+    return result;
+  }
+
+  private schedule(loop: PagerLoop, poll: () => Promise<unknown>, intervalMs: number): void {
+    let failures = 0;
+
+    const tick = async () => {
+      let delay = intervalMs;
+      const run = poll();
+      this.inFlight.add(run);
+      try {
+        await run;
+        failures = 0;
+      } catch (error) {
+        failures++;
+        delay = Math.min(intervalMs * 2 ** failures, this.config.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS);
+        if (error instanceof RateLimitError && error.retryAfterMs) {
+          delay = Math.max(delay, error.retryAfterMs);
+        }
+        (this.config.onError ?? logError)(error, loop);
+      } finally {
+        this.inFlight.delete(run);
+      }
+      if (this.active) this.timers.set(loop, setTimeout(tick, delay));
+    };
+    void tick();
+  }
+
+  private async openJobs(options?: CallOptions): Promise<Job[]> {
+    const jobs: Job[] = [];
+    const pages = this.sdk.jobs.iterate(
+      { status: "open" },
+      { ...options, maxItems: this.config.jobScanLimit ?? DEFAULT_JOB_SCAN_LIMIT }
+    );
+    for await (const job of pages) jobs.push(job);
+    return jobs;
+  }
+
+  /** Pending proposals of the agent on `openJobs`, plus the pager's own beyond them */
+  private async countPending(openJobs: Job[], options?: CallOptions): Promise<number> {
+    const agent = this.agent ?? (await this.loadAgent(options));
+    const state = await this.loadState();
+    let pending = 0;
+    let changed = false;
+    const refresh = (jobId: string, proposals: Proposal[]) => {
+      const entry = state.proposedJobs[jobId];
+      if (!entry) return;
+      const status = proposals.find((p) => p.id === entry.proposalId)?.status ?? "withdrawn";
+      if (status !== entry.status) {
+        entry.status = status;
+        changed = true;
+      }
+    };
+
+    // Only open jobs take bids, so that is where pending proposals are. A job
+    // without one from the agent only gains one when the agent bids on it.
+    const now = Date.now();
+    const recheckMs = this.config.proposalRecheckMs ?? DEFAULT_PROPOSAL_RECHECK_MS;
+    const scanned = new Set<string>();
+    for (const job of openJobs) {
+      scanned.add(job.id);
+      const quietSince = this.quietJobs.get(job.id);
+      if (quietSince !== undefined && now - quietSince < recheckMs) continue;
+      const proposals = await this.proposalsOn(job.id, options);
+      const mine = proposals.filter((p) => p.agentId === agent.id && p.status === "pending").length;
+      if (mine === 0) this.quietJobs.set(job.id, now);
+      else this.quietJobs.delete(job.id);
+      pending += mine;
+      refresh(job.id, proposals);
+    }
+    for (const jobId of this.quietJobs.keys()) {
+      if (!scanned.has(jobId)) this.quietJobs.delete(jobId);
+    }
+
+    // The pager's proposals on jobs past the scan (closed, or beyond jobScanLimit)
+    for (const [jobId, entry] of Object.entries(state.proposedJobs)) {
+      if (entry.status !== "pending" || scanned.has(jobId)) continue;
+      refresh(jobId, await this.proposalsOn(jobId, options));
+      if (entry.status === "pending") pending++;
+    }
+
+    if (changed) await this.store.save(state);
+    return pending;
+  }
+
+  /** Messages from others in a conversation not yet handled, oldest first */
+  private async arrivedSince(
+    conversationId: string,
+    since: string,
+    handled: Set<string>,
+    options?: CallOptions
+  ): Promise<Message[]> {
+    this.userId ??= (await this.sdk.auth.me(options)).id;
+    const recent = await this.sdk.messages.listMessages(conversationId, { limit: 100 }, options);
+    return recent
+      .filter((m) => m.createdAt >= since && m.senderUserId !== this.userId && !handled.has(m.id))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  private async proposalsOn(jobId: string, options?: CallOptions): Promise<Proposal[]> {
+    return this.sdk.proposals.list(jobId, options).catch((error: unknown) => {
+      if (error instanceof NotFoundError) return [];
+      throw error;
+    });
+  }
+
+  private async loadAgent(options?: CallOptions): Promise<Agent> {
+    if (this.config.agentId) {
+      this.agent = await this.sdk.agents.get(this.config.agentId, options);
+      return this.agent;
+    }
+    try {
+      this.agent = await this.sdk.agents.runtimeMe(options);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) throw error;
+      throw new Error("No agent is bound to this wallet; set agentId (MDP_AGENT_ID)");
+    }
+    return this.agent;
+  }
+
+  private async loadState(): Promise<PagerState> {
+    this.state ??= (await this.store.load()) ?? { version: 1, proposedJobs: {} };
+    return this.state;
+  }
+}
+
+function logMatch(job: Job, score: number): void {
+  // eslint-disable-next-line no-console
+  console.log(
+    `[pager] Match: "${job.title}" (score: ${score.toFixed(2)}, budget: ${job.budgetUSDC} USDC) - id: ${job.id}`
+  );
+}
+
+function logMessage(message: Message): void {
+  // eslint-disable-next-line no-console
+  console.log(`[pager] Unread from ${message.senderUserId}: ${message.body.slice(0, 100)}`);
+}
+
+function logError(error: unknown, loop: PagerLoop): void {
+  // eslint-disable-next-line no-console
+  console.warn(`[pager] ${loop} poll failed: ${error instanceof Error ? error.message : String(error)}`);
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import { MDPAgentSDK } from "./index.js";
+import { createMockMdpServer } from "./mock.js";
+import { PaginationLimitError } from "./types.js";
+
+const POSTER_KEY = `0x${"11".repeat(32)}` as const;
+const OTHER_KEY = `0x${"22".repeat(32)}` as const;
+const BUDGETS = [5, 40, 15, 90, 25, 60, 10, 75, 35, 50, 20, 80];
+
+/** Mock server with 12 open jobs, recording every page request */
+async function twelveJobs() {
+  const server = createMockMdpServer();
+  const pages: string[] = [];
+  const fetchFn = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    if (url.pathname === "/api/jobs" || url.pathname === "/api/agents") pages.push(url.search);
+    return server.fetch(input, init);
+  }) as typeof fetch;
+  const sdk = await MDPAgentSDK.createWithPrivateKey(server.config({ fetch: fetchFn }), POSTER_KEY);
+  for (const [i, budgetUSDC] of BUDGETS.entries()) {
+    await sdk.jobs.create({
+      title: `Job ${i}`,
+      description: "Paginated",
+      requiredSkills: [i % 3 === 0 ? "solidity" : "writing"],
+      budgetUSDC,
+      acceptanceCriteria: "Done",
+    });
+  }
+  const ids = (await sdk.jobs.list({ limit: 100 })).map((job) => job.id);
+  pages.length = 0;
+  return { server, sdk, pages, ids };
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) result.push(item);
+  return result;
+}
+
+describe("offset pagination", () => {
+  it("walks every page in order and stops at total", async () => {
+    const { sdk, pages, ids } = await twelveJobs();
+    const jobs = await collect(sdk.jobs.iterate({}, { pageSize: 5 }));
+
+    expect(jobs.map((job) => job.id)).toEqual(ids);
+    expect(pages).toHaveLength(3);
+  });
+
+  it("fetches pages concurrently but yields them in order", async () => {
+    const { sdk, pages, ids } = await twelveJobs();
+    const jobs = await collect(sdk.jobs.iterate({}, { pageSize: 2, concurrency: 4 }));
+
+    expect(jobs.map((job) => job.id)).toEqual(ids);
+    expect(pages).toHaveLength(6);
+  });
+
+  it("stops requesting pages at maxItems and on break", async () => {
+    const { sdk, pages, ids } = await twelveJobs();
+    const jobs = await collect(sdk.jobs.iterate({}, { pageSize: 5, maxItems: 7, concurrency: 3 }));
+    expect(jobs.map((job) => job.id)).toEqual(ids.slice(0, 7));
+    expect(pages).toHaveLength(2);
+
+    pages.length = 0;
+    for await (const _job of sdk.jobs.iterate({}, { pageSize: 5 })) break;
+    expect(pages).toHaveLength(1);
+  });
+
+  it("refuses to collect more than the cap with all()", async () => {
+    const { sdk, pages } = await twelveJobs();
+    const error = await sdk.jobs.iterate({}, { pageSize: 5 }).all({ cap: 6 }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PaginationLimitError);
+    expect((error as PaginationLimitError).cap).toBe(6);
+    expect(pages).toHaveLength(2);
+    expect(await sdk.jobs.iterate({}, { pageSize: 5 }).all()).toHaveLength(12);
+  });
+});
+
+describe("cursor pagination", () => {
+  it("walks a conversation from newest to oldest without duplicates", async () => {
+    const server = createMockMdpServer();
+    const sdk = await MDPAgentSDK.createWithPrivateKey(server.config(), POSTER_KEY);
+    const other = await MDPAgentSDK.createWithPrivateKey(server.config(), OTHER_KEY);
+    const { privateKeyToAccount } = await import("viem/accounts");
+    const conversationId = await sdk.messages.createDm({ toWallet: privateKeyToAccount(OTHER_KEY).address });
+    const sent: string[] = [];
+    for (let i = 0; i < 8; i++) {
+      server.advanceTime(1000);
+      const from = i % 2 ? other : sdk;
+      sent.push((await from.messages.sendMessage(conversationId, `message ${i}`)).id);
+    }
+
+    const history = await collect(sdk.messages.iterateHistory(conversationId, { pageSize: 3 }));
+    expect(history.map((m) => m.id)).toEqual([...sent].reverse());
+
+    const latest = await collect(sdk.messages.iterateHistory(conversationId, { pageSize: 3, maxItems: 4 }));
+    expect(latest.map((m) => m.id)).toEqual([...sent].reverse().slice(0, 4));
+  });
+});
+
+describe("searchPages", () => {
+  it("searches every page and reports an exhaustive scan", async () => {
+    const { sdk } = await twelveJobs();
+    const found = await sdk.jobs.findByBudgetRange(20, 60, {}, { pageSize: 5 });
+
+    expect(found.map((job) => job.budgetUSDC).sort((a, b) => a - b)).toEqual([20, 25, 35, 40, 50, 60]);
+    expect(found.exhaustive).toBe(true);
+    expect(found.scanned).toBe(12);
+  });
+
+  it("treats limit as a number of matches, not a page size", async () => {
+    const { sdk, pages } = await twelveJobs();
+    const found = await sdk.jobs.findBySkills(["solidity"], { limit: 2 }, { pageSize: 3 });
+
+    expect(found).toHaveLength(2);
+    expect(found.every((job) => job.requiredSkills.includes("solidity"))).toBe(true);
+    // Unsorted: stops once two matches are in, without claiming a full scan
+    expect(found.exhaustive).toBe(false);
+    expect(found.scanned).toBeLessThan(12);
+    expect(pages.length).toBeLessThan(4);
+  });
+
+  it("reads everything to sort and keeps the best matches", async () => {
+    const { sdk } = await twelveJobs();
+    const found = await sdk.jobs.search({ sortBy: "budget", order: "desc", limit: 3 }, { pageSize: 5 });
+
+    expect(found.map((job) => job.budgetUSDC)).toEqual([90, 80, 75]);
+    expect(found.exhaustive).toBe(true);
+    expect(found.scanned).toBe(12);
+  });
+
+  it("is not exhaustive when maxItems cuts the scan short", async () => {
+    const { sdk } = await twelveJobs();
+    const found = await sdk.jobs.search({ minBudget: 0 }, { pageSize: 5, maxItems: 5 });
+
+    expect(found).toHaveLength(5);
+    expect(found.exhaustive).toBe(false);
+    expect(found.scanned).toBe(5);
+  });
+
+  it("returns agents from findBy* as a SearchResult", async () => {
+    const { sdk } = await twelveJobs();
+    for (let i = 0; i < 7; i++) {
+      const agent = await sdk.agents.register({
+        name: `Agent ${i}`,
+        description: "Paginated",
+        pricingModel: i < 5 ? "fixed" : "hourly",
+        hourlyRate: i < 5 ? undefined : 20 + i,
+        tags: i < 5 ? ["writing"] : ["solidity"],
+        eip8004AgentWallet: `0x${String(i + 1).repeat(40)}`,
+      });
+      await sdk.agents.claim(agent.id);
+    }
+
+    const tagged = await sdk.agents.findByTags(["SOLIDITY"], { limit: 1 }, { pageSize: 2 });
+    expect(tagged).toHaveLength(1);
+    expect(tagged[0]!.tags).toContain("solidity");
+
+    const hourly = await sdk.agents.findByHourlyRateRange(0, 100, { sortBy: "hourlyRate", order: "desc" }, { pageSize: 2 });
+    expect(hourly.map((agent) => agent.hourlyRate)).toEqual([26, 25]);
+    expect(hourly.exhaustive).toBe(true);
+    expect(hourly.scanned).toBe(7);
+  });
+});
@@ -0,0 +1,207 @@
+// ============================================
+// Pagination - Auto-paginating async iterators
+// ============================================
+
+import { PaginationLimitError } from "./types.js";
+import type {
+  CallOptions,
+  CollectOptions,
+  IterateOptions,
+  ListResponse,
+  SearchResult,
+  SortOrder,
+} from "./types.js";
+
+const DEFAULT_PAGE_SIZE = 50;
+const DEFAULT_COLLECT_CAP = 10_000;
+
+/**
+ * Async iterable over every item of a paginated endpoint. Pages are fetched
+ * lazily as the loop advances, so `break` stops further requests.
+ *
+ * ```ts
+ * for await (const job of sdk.jobs.iterate({ status: "open" }, { pageSize: 100 })) {
+ *   if (matches(job)) break;
+ * }
+ * const agents = await sdk.agents.iterate().all(); // throws past 10000 items
+ * ```
+ */
+export class PageIterator<T> implements AsyncIterable<T> {
+  constructor(private readonly source: () => AsyncGenerator<T>) {}
+
+  [Symbol.asyncIterator](): AsyncGenerator<T> {
+    return this.source();
+  }
+
+  /**
+   * Collect every item into an array.
+   * @throws PaginationLimitError once more than `cap` items arrive (no more pages are fetched)
+   */
+  async all(options?: CollectOptions): Promise<T[]> {
+    const cap = options?.cap ?? DEFAULT_COLLECT_CAP;
+    const items: T[] = [];
+    for await (const item of this) {
+      if (items.length >= cap) {
+        throw new PaginationLimitError(
+          `Refusing to collect more than ${cap} items; iterate instead or set maxItems`,
+          cap
+        );
+      }
+      items.push(item);
+    }
+    return items;
+  }
+}
+
+/**
+ * Iterate a `limit`/`offset` endpoint. Stops at `total` when the API reports
+ * it, otherwise at the first short page.
+ * @param fetchPage - Fetch `limit` items starting at `offset`
+ */
+export function paginateOffset<T>(
+  fetchPage: (limit: number, offset: number, options: CallOptions) => Promise<ListResponse<T>>,
+  options: IterateOptions = {}
+): PageIterator<T> {
+  const { pageSize = DEFAULT_PAGE_SIZE, maxItems = Infinity, concurrency = 1, ...callOptions } = options;
+
+  return new PageIterator(async function* () {
+    let yielded = 0;
+    let offset = 0;
+    let total: number | undefined;
+
+    // Emit a page; report whether iteration should continue
+    const emit = function* (page: ListResponse<T>): Generator<T, boolean> {
+      if (page.total !== undefined) total = page.total;
+      for (const item of page.items) {
+        if (yielded >= maxItems) return false;
+        yielded++;
+        yield item;
+      }
+      return page.items.length >= pageSize && yielded < maxItems;
+    };
+
+    // The first page tells us whether `total` is available
+    let more = yield* emit(await fetchPage(pageSize, offset, callOptions));
+    offset += pageSize;
+
+    while (more && (total === undefined || offset < total)) {
+      // Fetch a window of pages at once; they are emitted in order
+      const window: number[] = [];
+      for (let i = 0; i < Math.max(1, concurrency); i++) {
+        const next = offset + i * pageSize;
+        if (total !== undefined && next >= total) break;
+        if (next - offset >= maxItems - yielded) break;
+        window.push(next);
+      }
+      const pages = window.map((o) => fetchPage(pageSize, o, callOptions));
+      // Unread pages of a stopped window must not surface as unhandled rejections
+      pages.forEach((p) => p.catch(() => undefined));
+
+      for (const page of pages) {
+        more = yield* emit(await page);
+        offset += pageSize;
+        if (!more) break;
+      }
+    }
+  });
+}
+
+/**
+ * Iterate a `before`-cursor endpoint from newest to oldest. The cursor for
+ * the next page is the oldest item's timestamp; items already seen are skipped.
+ * @param fetchPage - Fetch up to `limit` items older than `before` (undefined: newest)
+ * @param timestampOf - Timestamp used as the cursor (e.g. `createdAt`)
+ * @param idOf - Stable identity used to drop duplicates across page boundaries
+ */
+export function paginateCursor<T>(
+  fetchPage: (limit: number, before: string | undefined, options: CallOptions) => Promise<T[]>,
+  timestampOf: (item: T) => string,
+  idOf: (item: T) => string,
+  options: IterateOptions = {}
+): PageIterator<T> {
+  const { pageSize = DEFAULT_PAGE_SIZE, maxItems = Infinity, concurrency: _, ...callOptions } = options;
+
+  return new PageIterator(async function* () {
+    let yielded = 0;
+    let before: string | undefined;
+    // Only neighbouring pages can overlap, so remembering one page of IDs is enough
+    let previous = new Set<string>();
+
+    while (yielded < maxItems) {
+      const page = await fetchPage(pageSize, before, callOptions);
+      // Servers may return a page oldest-first; walk it newest-first either way
+      const items = [...page].sort((a, b) => timestampOf(b).localeCompare(timestampOf(a)));
+      const current = new Set<string>();
+
+      for (const item of items) {
+        const id = idOf(item);
+        current.add(id);
+        if (previous.has(id)) continue;
+        if (yielded >= maxItems) return;
+        yielded++;
+        yield item;
+      }
+
+      const oldest = items[items.length - 1];
+      if (page.length < pageSize || !oldest || timestampOf(oldest) === before) return;
+      before = timestampOf(oldest);
+      previous = current;
+    }
+  });
+}
+
+/**
+ * Walk every page, keeping items that match. Unsorted searches stop as soon
+ * as `limit` matches are found; sorted searches read the whole list and keep
+ * the best `limit`.
+ */
+export async function searchPages<T>(
+  pages: PageIterator<T>,
+  matches: (item: T) => boolean,
+  options: { compare?: (a: T, b: T) => number; limit?: number; maxItems?: number } = {}
+): Promise<SearchResult<T>> {
+  const { compare, limit = Infinity, maxItems = Infinity } = options;
+  const found: T[] = [];
+  let scanned = 0;
+  let stoppedEarly = false;
+
+  for await (const item of pages) {
+    scanned++;
+    if (matches(item)) {
+      found.push(item);
+      if (!compare && found.length >= limit) {
+        stoppedEarly = true;
+        break;
+      }
+      // Only the best `limit` can be returned; don't hold the rest
+      if (compare && found.length >= Math.max(2 * limit, 100)) {
+        found.sort(compare).length = limit;
+      }
+    }
+  }
+
+  if (compare) found.sort(compare);
+  if (found.length > limit) found.length = limit;
+  // The iterator stops at maxItems without telling us whether more existed
+  const exhaustive = !stoppedEarly && scanned < maxItems;
+  return Object.assign(found, { exhaustive, scanned });
+}
+
+/**
+ * Comparator on a derived key. Items whose key is undefined sort last in
+ * either order.
+ */
+export function compareBy<T>(
+  key: (item: T) => number | string | undefined,
+  order: SortOrder = "asc"
+): (a: T, b: T) => number {
+  const direction = order === "desc" ? -1 : 1;
+  return (a, b) => {
+    const x = key(a);
+    const y = key(b);
+    if (x === undefined || y === undefined) {
+      return x === y ? 0 : x === undefined ? 1 : -1;
+    }
+    return (x < y ? -1 : x > y ? 1 : 0) * direction;
+  };
+}
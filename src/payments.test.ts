@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { MDPAgentSDK } from "./index.js";
+import { createPrivateKeySigner } from "./auth.js";
+import { createMockMdpServer } from "./mock.js";
+import type { PaymentSigner } from "./types.js";
+
+const POSTER_KEY = `0x${"11".repeat(32)}` as const;
+const OWNER_KEY = `0x${"22".repeat(32)}` as const;
+
+/** A poster with an accepted proposal on an open job, and the chain IDs its signer signs for */
+async function acceptedProposal(network: string) {
+  const server = createMockMdpServer({ network });
+  const inner = await createPrivateKeySigner(POSTER_KEY);
+  const chainIds: unknown[] = [];
+  const signer: PaymentSigner = {
+    ...inner,
+    async signTypedData(params) {
+      chainIds.push(params.domain.chainId);
+      return inner.signTypedData!(params);
+    },
+  };
+  const poster = await MDPAgentSDK.createAuthenticated(server.config(), signer);
+  const owner = await MDPAgentSDK.createWithPrivateKey(server.config(), OWNER_KEY);
+
+  const job = await poster.jobs.create({
+    title: "Summarize a paper",
+    description: "One-page summary",
+    requiredSkills: ["writing"],
+    budgetUSDC: 10,
+    acceptanceCriteria: "Under 500 words",
+  });
+  const agent = await owner.agents.register({
+    name: "Summarizer",
+    description: "Summarizes papers",
+    pricingModel: "fixed",
+    eip8004AgentWallet: `0x${"33".repeat(20)}`,
+  });
+  await owner.agents.claim(agent.id);
+  const proposal = await owner.proposals.submit({
+    jobId: job.id,
+    agentId: agent.id,
+    plan: "Read it, then write it up",
+    estimatedCostUSDC: 8,
+    eta: "1 day",
+  });
+  await poster.proposals.accept(proposal.id);
+  return { poster, signer, job, proposal, chainIds };
+}
+
+describe("PaymentsModule.fundJob", () => {
+  it.each(["base-mainnet", "base", "eip155:8453"])("funds a %s requirement on Base", async (network) => {
+    const { poster, signer, job, proposal, chainIds } = await acceptedProposal(network);
+    const funded = await poster.payments.fundJob(job.id, proposal.id, signer, { pollIntervalMs: 1 });
+    expect(funded.paymentId).toBeTruthy();
+    expect(chainIds).toEqual([8453]);
+    expect((await poster.jobs.get(job.id)).status).toBe("funded");
+  });
+});
@@ -2,9 +2,14 @@
 // Payments Module
 // ============================================
 
-import { HttpClient } from "./http.js";
+import { HttpClient, sleep } from "./http.js";
+import { JobSchema, PaymentSchema, ProposalSchema } from "./validation.js";
+import { createPaymentApprovalRequest, requestPaymentApproval } from "./approval.js";
+import { isErc6492Signature, isSmartAccountSigner } from "./smart-account.js";
+import { SignerError } from "./types.js";
 import type {
   Payment,
+  CallOptions,
   PaymentIntentResponse,
   PaymentSettleResponse,
   PaymentConfirmResponse,
@@ -12,34 +17,34 @@ import type {
   PaymentSigner,
   FundJobOptions,
   FundJobResult,
+  PaymentApprovalRequest,
+  SDKConfig,
 } from "./types.js";
 
 export class PaymentsModule {
-  constructor(private http: HttpClient) {}
-
-  private coerceList(response: any): Payment[] {
-    if (response?.items && Array.isArray(response.items)) return response.items;
-    if (response?.payments && Array.isArray(response.payments)) return response.payments;
-    return [];
-  }
+  constructor(
+    private http: HttpClient,
+    private config: Pick<SDKConfig, "paymentApproval"> = {}
+  ) {}
 
   /**
    * Get payment summary for the authenticated user
    * Shows total spent, earned, and pending payments
    */
-  async getSummary(): Promise<PaymentSummaryResponse> {
-    return this.http.get<PaymentSummaryResponse>("/api/payments/summary");
+  async getSummary(options?: CallOptions): Promise<PaymentSummaryResponse> {
+    return this.http.get<PaymentSummaryResponse>("/api/payments/summary", undefined, options);
   }
 
   /**
    * List payments for a specific job
    * @param jobId - Job UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async list(jobId: string): Promise<Payment[]> {
-    const response = await this.http.get<any>("/api/payments", {
+  async list(jobId: string, options?: CallOptions): Promise<Payment[]> {
+    const response = await this.http.get<unknown>("/api/payments", {
       jobId,
-    });
-    return this.coerceList(response);
+    }, options);
+    return this.http.validator.list(response, PaymentSchema, "payments", "GET /api/payments");
   }
 
   /**
@@ -47,36 +52,51 @@ export class PaymentsModule {
    * This starts the x402 payment flow
    * @param jobId - Job UUID
    * @param proposalId - Proposal UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async createIntent(jobId: string, proposalId: string): Promise<PaymentIntentResponse> {
+  async createIntent(
+    jobId: string,
+    proposalId: string,
+    options?: CallOptions
+  ): Promise<PaymentIntentResponse> {
     return this.http.post<PaymentIntentResponse>("/api/payments/intent", {
       jobId,
       proposalId,
-    });
+    }, options);
   }
 
   /**
    * Settle a payment with signed x402 header
    * @param paymentId - Payment UUID from createIntent
    * @param paymentHeader - Signed x402 payment header
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async settle(paymentId: string, paymentHeader: string): Promise<PaymentSettleResponse> {
+  async settle(
+    paymentId: string,
+    paymentHeader: string,
+    options?: CallOptions
+  ): Promise<PaymentSettleResponse> {
     return this.http.post<PaymentSettleResponse>("/api/payments/settle", {
       paymentId,
       paymentHeader,
-    });
+    }, options);
   }
 
   /**
    * Confirm on-chain escrow funding (contract mode)
    * @param paymentId - Payment UUID
    * @param txHash - On-chain transaction hash
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async confirm(paymentId: string, txHash: string): Promise<PaymentConfirmResponse> {
+  async confirm(
+    paymentId: string,
+    txHash: string,
+    options?: CallOptions
+  ): Promise<PaymentConfirmResponse> {
     return this.http.post<PaymentConfirmResponse>("/api/payments/confirm", {
       paymentId,
       txHash,
-    });
+    }, options);
   }
 
   /**
@@ -84,13 +104,14 @@ export class PaymentsModule {
    * Creates intent and returns data needed for signing
    * @param jobId - Job UUID
    * @param proposalId - Proposal UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async initiatePayment(jobId: string, proposalId: string): Promise<{
+  async initiatePayment(jobId: string, proposalId: string, options?: CallOptions): Promise<{
     paymentId: string;
     requirement: PaymentIntentResponse["requirement"];
     encodedRequirement: string;
   }> {
-    const intent = await this.createIntent(jobId, proposalId);
+    const intent = await this.createIntent(jobId, proposalId, options);
     return {
       paymentId: intent.paymentId,
       requirement: intent.requirement,
@@ -101,13 +122,14 @@ export class PaymentsModule {
   /**
    * Check payment status for a job
    * @param jobId - Job UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async getJobPaymentStatus(jobId: string): Promise<{
+  async getJobPaymentStatus(jobId: string, options?: CallOptions): Promise<{
     hasPending: boolean;
     hasSettled: boolean;
     totalSettled: number;
   }> {
-    const payments = await this.list(jobId);
+    const payments = await this.list(jobId, options);
 
     const settled = payments.filter(p => p.status === "settled");
     const pending = payments.filter(p => p.status === "pending");
@@ -127,8 +149,12 @@ export class PaymentsModule {
    *
    * @param jobId      - Job UUID
    * @param proposalId - Accepted proposal UUID
-   * @param signer     - PaymentSigner with signTypedData (and sendTransaction for contract mode)
-   * @param options    - Optional polling configuration
+   * @param signer     - PaymentSigner with signTypedData (and sendTransaction for contract mode,
+   *                     or a SmartAccountSigner, whose `execute` is used instead)
+   * @param options    - Optional polling configuration and per-call options;
+   *                     `signal` also stops the confirm-polling loop
+   * @throws PaymentApprovalError if an approval hook is configured and the
+   *         payment is denied or times out (nothing is signed)
    */
   async fundJob(
     jobId: string,
@@ -143,53 +169,46 @@ export class PaymentsModule {
       );
     }
 
+    const callOptions: CallOptions = {
+      signal: options?.signal,
+      timeout: options?.timeout,
+      headers: options?.headers,
+    };
+
     // 1. Create payment intent
-    const intent = await this.createIntent(jobId, proposalId);
+    const intent = await this.createIntent(jobId, proposalId, callOptions);
     const req = intent.requirement;
     const paymentId = intent.paymentId;
     const from = await signer.getAddress();
 
     // 2. Derive EIP-3009 authorization parameters
-    const chainId = Number(String(req.network ?? "").split(":")[1] ?? 8453);
-    const tokenAddr = req.asset
-      ? (req.asset.split("/erc20:")[1] ?? X402_CONSTANTS.USDC_ADDRESS)
-      : X402_CONSTANTS.USDC_ADDRESS;
-    const value = BigInt(req.maxAmountRequired);
-    const validAfter = 0n;
-    const validBefore = BigInt(Math.floor(Date.now() / 1000) + 300);
-    const nonce = randomBytes32Hex();
+    const chainId = chainIdFromNetwork(req.network) ?? X402_CONSTANTS.CHAIN_ID;
+    const tokenAddr = tokenAddressFromAsset(req.asset);
     const to = req.payTo as `0x${string}`;
+    const isContractMode = Boolean(req.extra?.contractMode);
 
-    // 3. Sign TransferWithAuthorization typed data
-    const eip712Domain = {
-      name: USDC_EIP712_DOMAIN.name,
-      version: USDC_EIP712_DOMAIN.version,
-      chainId,
-      verifyingContract: tokenAddr,
-    };
-    const eip3009Types: Record<string, Array<{ name: string; type: string }>> = {
-      TransferWithAuthorization: [...EIP3009_TYPES.TransferWithAuthorization],
-    };
+    // 3. Human sign-off, if configured
+    const approval = options?.approval ?? this.config.paymentApproval;
+    if (approval) {
+      const request = await this.buildApprovalRequest(
+        jobId, proposalId, intent, isContractMode, chainId, callOptions,
+      );
+      await requestPaymentApproval(approval, request, options?.signal);
+    }
 
-    const signature = await signer.signTypedData({
-      domain: eip712Domain,
-      types: eip3009Types,
-      primaryType: "TransferWithAuthorization",
-      message: {
-        from: from as `0x${string}`,
-        to,
-        value,
-        validAfter,
-        validBefore,
-        nonce,
-      },
+    // 4. Sign TransferWithAuthorization typed data
+    const { signature, authorization } = await signTransferAuthorization(signer, {
+      to,
+      value: BigInt(req.maxAmountRequired),
+      chainId,
+      tokenAddress: tokenAddr,
     });
+    const { value, validAfter, validBefore, nonce } = authorization;
 
-    const isContractMode = Boolean(req.extra?.contractMode);
-
-    // 4a. Contract mode – call fundJobWithAuthorization on-chain, then confirm
+    // 5a. Contract mode – call fundJobWithAuthorization on-chain, then confirm
     if (isContractMode) {
-      if (typeof signer.sendTransaction !== "function") {
+      const smartAccount = isSmartAccountSigner(signer);
+      if (!smartAccount && typeof signer.sendTransaction !== "function") {
         throw new Error(
           "Contract escrow mode requires signer.sendTransaction. " +
           "Pass an rpcUrl to createPrivateKeySigner or use createCdpEvmSigner.",
@@ -214,6 +233,16 @@ export class PaymentsModule {
         throw new Error("Missing agent executor/payout wallets in payment requirement extra");
       }
 
+      // The escrow takes (v, r, s): a contract wallet's signature must be a plain 65-byte ECDSA one
+      if (smartAccount && (isErc6492Signature(signature) || signature.length !== 132)) {
+        throw new SignerError(
+          "Contract escrow mode needs a 65-byte (v, r, s) authorization, but this smart account signed " +
+          `${isErc6492Signature(signature) ? "an ERC-6492 (undeployed account)" : `a ${(signature.length - 2) / 2}-byte`} signature. ` +
+          "Deploy the account or use one whose ERC-1271 validation accepts its owner's ECDSA signature.",
+          "unsupported",
+        );
+      }
+
       // Parse signature → v, r, s
       const parsed = parseSignature(signature as `0x${string}`) as any;
       const r: `0x${string}` = parsed.r;
@@ -241,11 +270,15 @@ export class PaymentsModule {
         ],
       });
 
-      const txHash = await signer.sendTransaction({
-        to: escrowContract,
-        data: calldata,
-        chainId,
-      });
+      // Smart accounts call the escrow through their execute path
+      options?.signal?.throwIfAborted();
+      const txHash = smartAccount
+        ? await signer.execute([{ to: escrowContract, data: calldata }])
+        : await signer.sendTransaction!({
+            to: escrowContract,
+            data: calldata,
+            chainId,
+          });
 
       // Poll confirm endpoint until settled
       const pollInterval = options?.pollIntervalMs ?? 5000;
@@ -253,36 +286,19 @@ export class PaymentsModule {
       const start = Date.now();
 
       while (Date.now() - start < timeout) {
-        const res = await this.confirm(paymentId, txHash);
+        const res = await this.confirm(paymentId, txHash, callOptions);
         if (res?.status === "settled") {
           return { success: true, txHash, paymentId, mode: "contract" };
         }
-        await sleep(pollInterval);
+        await sleep(pollInterval, options?.signal);
       }
 
       // Timed out but transaction was submitted
       return { success: false, txHash, paymentId, mode: "contract" };
     }
 
-    // 4b. Facilitator mode – encode x402 header, call settle
-    const paymentPayload = {
-      x402Version: 1,
-      scheme: "exact",
-      network: req.network,
-      payload: {
-        signature,
-        authorization: {
-          from,
-          to,
-          value: value.toString(),
-          validAfter: validAfter.toString(),
-          validBefore: validBefore.toString(),
-          nonce,
-        },
-      },
-    };
-
-    const paymentHeader = btoa(JSON.stringify(paymentPayload));
+    // 5b. Facilitator mode – encode x402 header, call settle
+    const paymentHeader = encodeX402PaymentHeader(req.network, signature, authorization);
 
     // Settle all requirements (escrow first, then fee if present)
     const allPaymentIds = intent.paymentIds ?? [paymentId];
@@ -295,47 +311,72 @@ export class PaymentsModule {
       // For additional requirements (e.g. platform fee), sign a separate authorization
       let header = paymentHeader;
       if (i > 0 && r) {
-        const feeValue = BigInt(r.maxAmountRequired);
-        const feeNonce = randomBytes32Hex();
-        const feeTo = r.payTo as `0x${string}`;
-        const feeSig = await signer.signTypedData({
-          domain: eip712Domain,
-          types: eip3009Types,
-          primaryType: "TransferWithAuthorization",
-          message: {
-            from: from as `0x${string}`,
-            to: feeTo,
-            value: feeValue,
-            validAfter,
-            validBefore: BigInt(Math.floor(Date.now() / 1000) + 300),
-            nonce: feeNonce,
-          },
+        const fee = await signTransferAuthorization(signer, {
+          to: r.payTo as `0x${string}`,
+          value: BigInt(r.maxAmountRequired),
+          chainId,
+          tokenAddress: tokenAddr,
         });
-        header = btoa(
-          JSON.stringify({
-            x402Version: 1,
-            scheme: "exact",
-            network: req.network,
-            payload: {
-              signature: feeSig,
-              authorization: {
-                from,
-                to: feeTo,
-                value: feeValue.toString(),
-                validAfter: validAfter.toString(),
-                validBefore: validBefore.toString(),
-                nonce: feeNonce,
-              },
-            },
-          }),
-        );
+        header = encodeX402PaymentHeader(req.network, fee.signature, fee.authorization);
       }
 
-      await this.settle(pid, header);
+      await this.settle(pid, header, callOptions);
     }
 
     return { success: true, paymentId, mode: "facilitator" };
   }
+
+  /**
+   * Describe what fundJob is about to sign. Job and agent details are best-effort:
+   * a failed lookup leaves them out rather than blocking the prompt.
+   */
+  private async buildApprovalRequest(
+    jobId: string,
+    proposalId: string,
+    intent: PaymentIntentResponse,
+    isContractMode: boolean,
+    chainId: number,
+    options: CallOptions,
+  ): Promise<PaymentApprovalRequest> {
+    const [job, proposals] = await Promise.all([
+      this.http
+        .get<unknown>(`/api/jobs/${jobId}`, undefined, options)
+        .then((r) => this.http.validator.item(r, JobSchema, "job", "GET /api/jobs/:id"))
+        .catch(() => undefined),
+      this.http
+        .get<unknown>("/api/proposals", { jobId }, options)
+        .then((r) => this.http.validator.list(r, ProposalSchema, "proposals", "GET /api/proposals"))
+        .catch(() => []),
+    ]);
+    const proposal = proposals.find((p) => p.id === proposalId);
+    const req = intent.requirement;
+
+    // Same requirements fundJob signs: contract mode authorizes the escrow only
+    const requirements = isContractMode ? [req] : intent.requirements ?? [req];
+    const total = requirements.reduce((sum, r) => sum + BigInt(r.maxAmountRequired), 0n);
+
+    return createPaymentApprovalRequest({
+      source: "fundJob",
+      mode: isContractMode ? "contract" : "facilitator",
+      jobId,
+      jobTitle: job?.title,
+      proposalId,
+      agentId: proposal?.agentId,
+      agentName: proposal?.agentName ?? proposal?.agent?.name,
+      agentWallet:
+        proposal?.agentWallet ??
+        (req.extra?.agentPayoutWallet as string | undefined) ??
+        (req.extra?.agentWallet as string | undefined),
+      amountUSDC: formatUSDC(total),
+      payments: requirements.map((r, i) => ({
+        role: i === 0 ? "escrow" : "fee",
+        amountUSDC: formatUSDC(BigInt(r.maxAmountRequired)),
+        payTo: r.payTo,
+      })),
+      escrowContract: isContractMode ? req.payTo : undefined,
+      chainId,
+    });
+  }
 }
 
 // ============================================
@@ -383,6 +424,126 @@ export const MDP_ESCROW_FUND_ABI = [
   },
 ] as const;
 
+// ============================================
+// EIP-3009 / x402 Signing Helpers
+// ============================================
+
+/** EIP-3009 TransferWithAuthorization message fields */
+export interface TransferAuthorization {
+  from: `0x${string}`;
+  to: `0x${string}`;
+  value: bigint;
+  validAfter: bigint;
+  validBefore: bigint;
+  nonce: `0x${string}`;
+}
+
+/**
+ * Sign an EIP-3009 TransferWithAuthorization for a USDC transfer.
+ * @param signer - PaymentSigner with signTypedData
+ * @param params.to - Recipient (payTo / escrow contract)
+ * @param params.value - Amount in token base units
+ * @param params.chainId - EIP-712 domain chain ID
+ * @param params.tokenAddress - Token contract (EIP-712 verifyingContract)
+ * @param params.validForSeconds - Authorization lifetime (default: 300)
+ * @param params.tokenName - EIP-712 domain name (default: "USD Coin")
+ * @param params.tokenVersion - EIP-712 domain version (default: "2")
+ */
+export async function signTransferAuthorization(
+  signer: PaymentSigner,
+  params: {
+    to: `0x${string}`;
+    value: bigint;
+    chainId: number;
+    tokenAddress: string;
+    validForSeconds?: number;
+    tokenName?: string;
+    tokenVersion?: string;
+  },
+): Promise<{ signature: string; authorization: TransferAuthorization }> {
+  const authorization: TransferAuthorization = {
+    from: (await signer.getAddress()) as `0x${string}`,
+    to: params.to,
+    value: params.value,
+    validAfter: 0n,
+    validBefore: BigInt(Math.floor(Date.now() / 1000) + (params.validForSeconds ?? 300)),
+    nonce: randomBytes32Hex(),
+  };
+
+  const signature = await signer.signTypedData({
+    domain: {
+      name: params.tokenName ?? USDC_EIP712_DOMAIN.name,
+      version: params.tokenVersion ?? USDC_EIP712_DOMAIN.version,
+      chainId: params.chainId,
+      verifyingContract: params.tokenAddress,
+    },
+    types: {
+      TransferWithAuthorization: [...EIP3009_TYPES.TransferWithAuthorization],
+    },
+    primaryType: "TransferWithAuthorization",
+    message: { ...authorization },
+  });
+
+  return { signature, authorization };
+}
+
+/**
+ * Encode a signed authorization as a base64 x402 `exact` payment header.
+ * @param network - Network from the payment requirement
+ * @param signature - EIP-712 signature
+ * @param authorization - Signed TransferWithAuthorization fields
+ */
+export function encodeX402PaymentHeader(
+  network: string,
+  signature: string,
+  authorization: TransferAuthorization,
+): string {
+  return btoa(
+    JSON.stringify({
+      x402Version: 1,
+      scheme: "exact",
+      network,
+      payload: {
+        signature,
+        authorization: {
+          from: authorization.from,
+          to: authorization.to,
+          value: authorization.value.toString(),
+          validAfter: authorization.validAfter.toString(),
+          validBefore: authorization.validBefore.toString(),
+          nonce: authorization.nonce,
+        },
+      },
+    }),
+  );
+}
+
+/**
+ * Resolve a chain ID from an x402 network identifier
+ * ("eip155:8453", "base", "base-mainnet", "base-sepolia").
+ * @returns undefined for networks it doesn't recognize, which x402 auto-pay never pays on
+ */
+export function chainIdFromNetwork(network: string | undefined): number | undefined {
+  const value = String(network ?? "").trim().toLowerCase();
+  const caip = /^eip155:(\d+)$/.exec(value);
+  if (caip) return Number(caip[1]);
+  if (value === "base" || value === X402_CONSTANTS.NETWORK) return X402_CONSTANTS.CHAIN_ID;
+  if (value === "base-sepolia") return 84532;
+  return undefined;
+}
+
+/**
+ * Resolve the token contract from an x402 asset
+ * (plain address or "eip155:8453/erc20:0x..."). Defaults to Base USDC.
+ */
+export function tokenAddressFromAsset(asset: string | undefined): string {
+  if (!asset) return X402_CONSTANTS.USDC_ADDRESS;
+  if (asset.includes("/erc20:")) {
+    return asset.split("/erc20:")[1] || X402_CONSTANTS.USDC_ADDRESS;
+  }
+  return /^0x[0-9a-fA-F]{40}$/.test(asset) ? asset : X402_CONSTANTS.USDC_ADDRESS;
+}
+
 // ============================================
 // Internal Helpers
 // ============================================
@@ -402,10 +563,6 @@ function randomBytes32Hex(): `0x${string}` {
   return `0x${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}` as `0x${string}`;
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 // ============================================
 // x402 Payment Helpers
 // ============================================
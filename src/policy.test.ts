@@ -0,0 +1,91 @@
+import { encodeFunctionData } from "viem";
+import { describe, expect, it } from "vitest";
+import { createApprovalSigner, createPolicySigner } from "./policy.js";
+import { MDP_ESCROW_FUND_ABI, parseUSDC } from "./payments.js";
+import { isSmartAccountSigner } from "./smart-account.js";
+import { PaymentApprovalError, PolicyViolationError } from "./types.js";
+import type { SmartAccountCall, SmartAccountSigner } from "./types.js";
+
+const ESCROW = `0x${"e5".repeat(20)}`;
+const WALLET = `0x${"a1".repeat(20)}` as const;
+
+function escrowCall(amountUSDC: number, nonceByte = "01"): SmartAccountCall {
+  const data = encodeFunctionData({
+    abi: MDP_ESCROW_FUND_ABI,
+    functionName: "fundJobWithAuthorization",
+    args: [
+      `0x${"00".repeat(32)}`,
+      WALLET,
+      WALLET,
+      WALLET,
+      parseUSDC(amountUSDC),
+      0n,
+      9_999_999_999n,
+      `0x${nonceByte.repeat(32)}`,
+      27,
+      `0x${"00".repeat(32)}`,
+      `0x${"00".repeat(32)}`,
+    ],
+  });
+  return { to: ESCROW, data };
+}
+
+function fakeSmartAccount() {
+  const executed: SmartAccountCall[][] = [];
+  const signer: SmartAccountSigner = {
+    accountType: "smart-account",
+    getAddress: async () => WALLET,
+    signMessage: async () => "0x",
+    signTypedData: async () => "0x",
+    execute: async (calls) => {
+      executed.push(calls);
+      return `0x${"ab".repeat(32)}`;
+    },
+    isDeployed: async () => true,
+  };
+  return { signer, executed };
+}
+
+describe("createPolicySigner with a smart account", () => {
+  it("keeps the smart account surface", () => {
+    const { signer } = fakeSmartAccount();
+    expect(isSmartAccountSigner(createPolicySigner(signer, {}))).toBe(true);
+  });
+
+  it("applies the policy to execute", async () => {
+    const { signer, executed } = fakeSmartAccount();
+    const guarded = createPolicySigner(signer, { maxPerTransactionUSDC: 1, dailyLimitUSDC: 1.5 });
+
+    await expect(guarded.execute([escrowCall(5)])).rejects.toBeInstanceOf(PolicyViolationError);
+    expect(executed).toHaveLength(0);
+
+    await guarded.execute([escrowCall(0.75)]);
+    expect(executed).toHaveLength(1);
+    expect((await guarded.spending()).last24hUSDC).toBe("0.75");
+
+    // Two calls that fit the per-transaction cap but not the remaining budget together
+    await expect(
+      guarded.execute([escrowCall(0.5, "02"), escrowCall(0.5, "03")])
+    ).rejects.toBeInstanceOf(PolicyViolationError);
+    expect(executed).toHaveLength(1);
+  });
+
+  it("refuses non-escrow calls", async () => {
+    const { signer } = fakeSmartAccount();
+    const guarded = createPolicySigner(signer, {});
+    await expect(guarded.execute([{ to: ESCROW, data: "0xdeadbeef" }])).rejects.toBeInstanceOf(
+      PolicyViolationError
+    );
+  });
+});
+
+describe("createApprovalSigner with a smart account", () => {
+  it("asks before execute runs an escrow call", async () => {
+    const { signer, executed } = fakeSmartAccount();
+    const approving = createApprovalSigner(signer, { approve: async () => false });
+
+    expect(isSmartAccountSigner(approving)).toBe(true);
+    await expect(approving.execute([escrowCall(1)])).rejects.toBeInstanceOf(PaymentApprovalError);
+    expect(executed).toHaveLength(0);
+  });
+});
@@ -0,0 +1,451 @@
+// ============================================
+// Spending Policy - Guardrails around PaymentSigner
+// ============================================
+
+import { PolicyViolationError } from "./types.js";
+import type {
+  PaymentApprovalConfig,
+  PaymentSigner,
+  PolicyRule,
+  SmartAccountCall,
+  SmartAccountSigner,
+  SpendHistoryStore,
+  SpendingPolicy,
+  SpendRecord,
+} from "./types.js";
+import { MDP_ESCROW_FUND_ABI, X402_CONSTANTS, formatUSDC, parseUSDC } from "./payments.js";
+import { createPaymentApprovalRequest, requestPaymentApproval } from "./approval.js";
+import { isSmartAccountSigner } from "./smart-account.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+/** A PaymentSigner that enforces a SpendingPolicy */
+export interface PolicySigner extends PaymentSigner {
+  /** USDC authorized in the rolling windows */
+  spending(): Promise<{ last24hUSDC: string; last7dUSDC: string }>;
+}
+
+/**
+ * Wrap a PaymentSigner so every payment it signs is checked against `policy`.
+ *
+ * EIP-712 `TransferWithAuthorization` messages are decoded and checked for
+ * token, chain, recipient, per-transaction cap and rolling daily/weekly
+ * budgets; the amount is recorded once signed. Escrow `sendTransaction`
+ * calldata must decode as `fundJobWithAuthorization` on an allowed contract;
+ * a call carrying an authorization this signer already counted is not counted
+ * twice. A smart account's `execute` calls are held to the same escrow rules.
+ * Anything else is refused with PolicyViolationError before reaching the
+ * inner signer. `signMessage` (sign-in) passes through unchanged.
+ *
+ * ```ts
+ * const signer = createPolicySigner(await createPrivateKeySigner(key), {
+ *   maxPerTransactionUSDC: 50,
+ *   dailyLimitUSDC: 200,
+ *   history: new FileSpendHistory(".mdp/spend.json"),
+ * });
+ * await sdk.payments.fundJob(jobId, proposalId, signer);
+ * ```
+ */
+export function createPolicySigner(
+  inner: SmartAccountSigner,
+  policy: SpendingPolicy
+): PolicySigner & SmartAccountSigner;
+export function createPolicySigner(inner: PaymentSigner, policy: SpendingPolicy): PolicySigner;
+export function createPolicySigner(inner: PaymentSigner, policy: SpendingPolicy): PolicySigner {
+  const history = policy.history ?? new MemorySpendHistory();
+  const allowedChains = policy.allowedChainIds ?? [X402_CONSTANTS.CHAIN_ID];
+  const allowedTokens = lower(policy.allowedTokens ?? [X402_CONSTANTS.USDC_ADDRESS]);
+  const allowedPayTo = policy.allowedPayTo && lower(policy.allowedPayTo);
+  const allowedEscrows = policy.allowedEscrowContracts && lower(policy.allowedEscrowContracts);
+  const perTxCap = optionalUSDC(policy.maxPerTransactionUSDC);
+  const dailyCap = optionalUSDC(policy.dailyLimitUSDC);
+  const weeklyCap = optionalUSDC(policy.weeklyLimitUSDC);
+
+  // Checks, signing and recording run one at a time so parallel payments cannot overshoot a budget
+  let queue: Promise<unknown> = Promise.resolve();
+  const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const spentSince = async (sinceMs: number): Promise<bigint> => {
+    const records = await history.load();
+    return records
+      .filter((r) => Date.parse(r.at) > sinceMs)
+      .reduce((sum, r) => sum + BigInt(r.amount), 0n);
+  };
+
+  /** `pending`: amounts earlier in the same batch, not yet in the history */
+  const checkAmount = async (amount: bigint, pending = 0n) => {
+    if (perTxCap !== undefined && amount > perTxCap) {
+      violate(
+        "maxPerTransaction",
+        `Payment of ${formatUSDC(amount)} USDC exceeds the per-transaction cap of ${formatUSDC(perTxCap)} USDC`
+      );
+    }
+    const now = Date.now();
+    for (const [cap, windowMs, rule, label] of [
+      [dailyCap, DAY_MS, "dailyLimit", "24 hours"],
+      [weeklyCap, WEEK_MS, "weeklyLimit", "7 days"],
+    ] as const) {
+      if (cap === undefined) continue;
+      const spent = (await spentSince(now - windowMs)) + pending;
+      if (spent + amount > cap) {
+        violate(
+          rule,
+          `Payment of ${formatUSDC(amount)} USDC would exceed the ${label} budget of ` +
+            `${formatUSDC(cap)} USDC (${formatUSDC(spent)} USDC already spent)`
+        );
+      }
+    }
+  };
+
+  const checkChain = (chainId: number | undefined) => {
+    if (chainId === undefined || !allowedChains.includes(chainId)) {
+      violate(
+        "chainId",
+        `Chain ${chainId ?? "(unspecified)"} is not allowed (allowed: ${allowedChains.join(", ")})`
+      );
+    }
+  };
+
+  const signer: PolicySigner = {
+    getAddress: () => inner.getAddress(),
+    signMessage: (message) => inner.signMessage(message),
+
+    signTypedData(params) {
+      return exclusive(async () => {
+        if (params.primaryType !== "TransferWithAuthorization") {
+          if (policy.allowOtherTypedData) return inner.signTypedData(params);
+          violate(
+            "typedData",
+            `Refusing to sign EIP-712 ${params.primaryType}: only TransferWithAuthorization is allowed`
+          );
+        }
+
+        const { domain, message } = params;
+        const token = String(domain.verifyingContract ?? "").toLowerCase();
+        const chainId = domain.chainId !== undefined ? Number(domain.chainId) : undefined;
+        const payTo = String(message.to ?? "").toLowerCase();
+        let amount: bigint;
+        try {
+          amount = BigInt(message.value as bigint | string | number);
+        } catch {
+          return violate("typedData", "TransferWithAuthorization has no valid value");
+        }
+
+        checkChain(chainId);
+        if (!allowedTokens.includes(token)) {
+          violate("token", `Token ${token || "(unspecified)"} is not allowed`);
+        }
+        if (allowedPayTo && !allowedPayTo.includes(payTo)) {
+          violate("payTo", `Recipient ${payTo} is not on the payTo allowlist`);
+        }
+        await checkAmount(amount);
+
+        const signature = await inner.signTypedData(params);
+        await history.append({
+          at: new Date().toISOString(),
+          amount: amount.toString(),
+          payTo,
+          token,
+          chainId: chainId!,
+          nonce: typeof message.nonce === "string" ? message.nonce.toLowerCase() : undefined,
+        });
+        return signature;
+      });
+    },
+
+    async spending() {
+      const now = Date.now();
+      return {
+        last24hUSDC: formatUSDC(await spentSince(now - DAY_MS)),
+        last7dUSDC: formatUSDC(await spentSince(now - WEEK_MS)),
+      };
+    },
+  };
+
+  /**
+   * Check an escrow call; resolves to the spend to record once it is sent, or
+   * undefined when its authorization was already counted when it was signed
+   */
+  const checkEscrowCall = async (
+    call: SmartAccountCall,
+    chainId: number,
+    pending: bigint
+  ): Promise<SpendRecord | undefined> => {
+    const to = call.to.toLowerCase();
+    if (allowedEscrows && !allowedEscrows.includes(to)) {
+      violate("escrowContract", `Contract ${to} is not on the escrow allowlist`);
+    }
+    if (call.value !== undefined && call.value !== 0n) {
+      violate("calldata", "Escrow transactions must not transfer ETH");
+    }
+
+    const { decodeFunctionData } = await import("viem");
+    let args: readonly unknown[];
+    try {
+      ({ args } = decodeFunctionData({
+        abi: MDP_ESCROW_FUND_ABI,
+        data: call.data as `0x${string}`,
+      }));
+    } catch {
+      return violate(
+        "calldata",
+        "Transaction calldata is not an MDP escrow fundJobWithAuthorization call"
+      );
+    }
+
+    const amount = args[4] as bigint;
+    const nonce = String(args[7]).toLowerCase();
+    const signed = (await history.load()).find((r) => r.nonce === nonce);
+    if (signed) {
+      if (BigInt(signed.amount) !== amount || signed.payTo !== to) {
+        violate("calldata", "Escrow call does not match the transfer authorization it carries");
+      }
+      return undefined;
+    }
+    if (allowedPayTo && !allowedPayTo.includes(to)) {
+      violate("payTo", `Escrow ${to} is not on the payTo allowlist`);
+    }
+    await checkAmount(amount, pending);
+    return {
+      at: new Date().toISOString(),
+      amount: amount.toString(),
+      payTo: to,
+      token: allowedTokens[0] ?? "",
+      chainId,
+      nonce,
+    };
+  };
+
+  const record = async (spends: SpendRecord[]) => {
+    for (const spend of spends) await history.append({ ...spend, at: new Date().toISOString() });
+  };
+
+  if (typeof inner.sendTransaction === "function") {
+    const send = inner.sendTransaction.bind(inner);
+    signer.sendTransaction = (params) =>
+      exclusive(async () => {
+        checkChain(params.chainId);
+        const spend = await checkEscrowCall(params, params.chainId!, 0n);
+        const txHash = await send(params);
+        await record(spend ? [spend] : []);
+        return txHash;
+      });
+  }
+
+  if (isSmartAccountSigner(inner)) {
+    const execute = inner.execute.bind(inner);
+    Object.assign(signer, {
+      accountType: inner.accountType,
+      isDeployed: () => inner.isDeployed(),
+      // Calls carry no chain ID; they run on the account's chain
+      execute: (calls: SmartAccountCall[]) =>
+        exclusive(async () => {
+          const spends: SpendRecord[] = [];
+          let pending = 0n;
+          for (const call of calls) {
+            const spend = await checkEscrowCall(call, allowedChains[0]!, pending);
+            if (spend) {
+              spends.push(spend);
+              pending += BigInt(spend.amount);
+            }
+          }
+          const txHash = await execute(calls);
+          await record(spends);
+          return txHash;
+        }),
+    });
+  }
+
+  return signer;
+}
+
+/**
+ * Wrap a PaymentSigner so a human approves each payment before it is signed,
+ * for agents that sign outside `payments.fundJob` (e.g. x402 auto-pay).
+ *
+ * Only the signature request itself is known here, so the summary carries the
+ * amount, recipient and chain but no job or agent. `TransferWithAuthorization`
+ * signatures and escrow `fundJobWithAuthorization` transactions are checked;
+ * a transaction (or smart account `execute` call) carrying an authorization
+ * approved moments ago is not asked about twice. Everything else passes
+ * through unchanged.
+ *
+ * ```ts
+ * const signer = createApprovalSigner(await createPrivateKeySigner(key), {
+ *   approve: createTerminalApprover(),
+ *   thresholdUSDC: 5,
+ * });
+ * ```
+ * @throws PaymentApprovalError from signTypedData / sendTransaction / execute when denied or timed out
+ */
+export function createApprovalSigner(
+  inner: SmartAccountSigner,
+  config: PaymentApprovalConfig
+): SmartAccountSigner;
+export function createApprovalSigner(inner: PaymentSigner, config: PaymentApprovalConfig): PaymentSigner;
+export function createApprovalSigner(
+  inner: PaymentSigner,
+  config: PaymentApprovalConfig
+): PaymentSigner {
+  const approvedNonces = new Set<string>();
+
+  const signer: PaymentSigner = {
+    getAddress: () => inner.getAddress(),
+    signMessage: (message) => inner.signMessage(message),
+
+    async signTypedData(params) {
+      if (params.primaryType === "TransferWithAuthorization") {
+        const { domain, message } = params;
+        const amountUSDC = formatUSDC(BigInt(message.value as bigint | string | number));
+        const request = createPaymentApprovalRequest({
+          source: "signer",
+          mode: "facilitator",
+          amountUSDC,
+          payments: [{ role: "transfer", amountUSDC, payTo: String(message.to ?? "") }],
+          chainId: Number(domain.chainId ?? X402_CONSTANTS.CHAIN_ID),
+        });
+        await requestPaymentApproval(config, request);
+        if (typeof message.nonce === "string") approvedNonces.add(message.nonce.toLowerCase());
+      }
+      return inner.signTypedData(params);
+    },
+  };
+
+  const approveEscrowCall = async (call: SmartAccountCall, chainId: number) => {
+    const { decodeFunctionData } = await import("viem");
+    let args: readonly unknown[] | undefined;
+    try {
+      ({ args } = decodeFunctionData({
+        abi: MDP_ESCROW_FUND_ABI,
+        data: call.data as `0x${string}`,
+      }));
+    } catch {
+      // Not an escrow call: nothing to approve
+    }
+
+    const nonce = args && String(args[7]).toLowerCase();
+    if (args && !approvedNonces.delete(nonce!)) {
+      const amountUSDC = formatUSDC(args[4] as bigint);
+      const request = createPaymentApprovalRequest({
+        source: "signer",
+        mode: "contract",
+        agentWallet: String(args[3]),
+        amountUSDC,
+        payments: [{ role: "escrow", amountUSDC, payTo: call.to }],
+        escrowContract: call.to,
+        chainId,
+      });
+      await requestPaymentApproval(config, request);
+    }
+  };
+
+  if (typeof inner.sendTransaction === "function") {
+    const send = inner.sendTransaction.bind(inner);
+    signer.sendTransaction = async (params) => {
+      await approveEscrowCall(params, params.chainId ?? X402_CONSTANTS.CHAIN_ID);
+      return send(params);
+    };
+  }
+
+  if (isSmartAccountSigner(inner)) {
+    const execute = inner.execute.bind(inner);
+    Object.assign(signer, {
+      accountType: inner.accountType,
+      isDeployed: () => inner.isDeployed(),
+      execute: async (calls: SmartAccountCall[]) => {
+        for (const call of calls) await approveEscrowCall(call, X402_CONSTANTS.CHAIN_ID);
+        return execute(calls);
+      },
+    });
+  }
+
+  return signer;
+}
+
+// ============================================
+// Spend History Stores
+// ============================================
+
+/** Keeps spend history for the lifetime of the process */
+export class MemorySpendHistory implements SpendHistoryStore {
+  private records: SpendRecord[] = [];
+
+  async load(): Promise<SpendRecord[]> {
+    return [...this.records];
+  }
+
+  async append(record: SpendRecord): Promise<void> {
+    this.records = [...prune(this.records), record];
+  }
+}
+
+/**
+ * Keeps spend history in a JSON file (mode 0600), pruned to the weekly window,
+ * so budgets survive restarts.
+ */
+export class FileSpendHistory implements SpendHistoryStore {
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path - JSON file holding the history (created on first payment)
+   */
+  constructor(private readonly path: string) {}
+
+  async load(): Promise<SpendRecord[]> {
+    await this.writes;
+    return this.read();
+  }
+
+  append(record: SpendRecord): Promise<void> {
+    const run = this.writes.then(async () => {
+      const [{ writeFile, rename, mkdir }, { dirname }] = await Promise.all([
+        import("node:fs/promises"),
+        import("node:path"),
+      ]);
+      const records = [...prune(await this.read()), record];
+      await mkdir(dirname(this.path), { recursive: true });
+      const temp = `${this.path}.${process.pid}.tmp`;
+      await writeFile(temp, `${JSON.stringify(records, null, 2)}\n`, { mode: 0o600 });
+      await rename(temp, this.path);
+    });
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  private async read(): Promise<SpendRecord[]> {
+    const { readFile } = await import("node:fs/promises");
+    try {
+      return JSON.parse(await readFile(this.path, "utf8")) as SpendRecord[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+function violate(rule: PolicyRule, message: string): never {
+  throw new PolicyViolationError(`Spending policy: ${message}`, rule);
+}
+
+function optionalUSDC(amount: number | string | undefined): bigint | undefined {
+  return amount !== undefined ? parseUSDC(amount) : undefined;
+}
+
+function lower(values: readonly string[]): string[] {
+  return values.map((v) => v.toLowerCase());
+}
+
+/** Drop records older than the longest budget window */
+function prune(records: SpendRecord[]): SpendRecord[] {
+  const cutoff = Date.now() - WEEK_MS;
+  return records.filter((r) => Date.parse(r.at) > cutoff);
+}
@@ -3,8 +3,13 @@
 // ============================================
 
 import { HttpClient } from "./http.js";
+import { PendingProposalSchema, ProposalSchema } from "./validation.js";
+import { paginateOffset } from "./paginate.js";
+import type { PageIterator } from "./paginate.js";
 import type {
+  IterateOptions,
   Proposal,
+  CallOptions,
   CreateProposalRequest,
   PendingProposal,
   ListPendingProposalsParams,
@@ -13,68 +18,82 @@ import type {
 export class ProposalsModule {
   constructor(private http: HttpClient) {}
 
-  private coerceList(response: any): Proposal[] {
-    if (response?.items && Array.isArray(response.items)) return response.items;
-    if (response?.proposals && Array.isArray(response.proposals)) return response.proposals;
-    return [];
-  }
-
-  private coerceItem(response: any): Proposal {
-    if (response?.item) return response.item;
-    if (response?.proposal) return response.proposal;
-    return response as Proposal;
-  }
-
   /**
    * List proposals for a specific job
    * @param jobId - Job UUID to get proposals for
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async list(jobId: string): Promise<Proposal[]> {
-    const response = await this.http.get<any>("/api/proposals", {
+  async list(jobId: string, options?: CallOptions): Promise<Proposal[]> {
+    const response = await this.http.get<unknown>("/api/proposals", {
       jobId,
-    });
-    return this.coerceList(response);
+    }, options);
+    return this.http.validator.list(response, ProposalSchema, "proposals", "GET /api/proposals");
   }
 
   /**
    * Submit a proposal (bid) for a job
    * Requires authentication and owning an agent
    * @param data - Proposal data
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async submit(data: CreateProposalRequest): Promise<Proposal> {
-    const response = await this.http.post<any>("/api/proposals", data);
-    return this.coerceItem(response);
+  async submit(data: CreateProposalRequest, options?: CallOptions): Promise<Proposal> {
+    const response = await this.http.post<unknown>("/api/proposals", data, options);
+    return this.http.validator.item(response, ProposalSchema, "proposal", "POST /api/proposals");
   }
 
   /**
    * Accept a proposal (job poster only)
    * @param id - Proposal UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async accept(id: string): Promise<Proposal> {
-    const response = await this.http.patch<any>(`/api/proposals/${id}/accept`);
-    return this.coerceItem(response);
+  async accept(id: string, options?: CallOptions): Promise<Proposal> {
+    const response = await this.http.patch<unknown>(`/api/proposals/${id}/accept`, undefined, options);
+    return this.http.validator.item(response, ProposalSchema, "proposal", "PATCH /api/proposals/:id/accept");
   }
 
   /**
    * Withdraw a proposal (agent owner only)
    * @param id - Proposal UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async withdraw(id: string): Promise<Proposal> {
-    const response = await this.http.patch<any>(`/api/proposals/${id}/withdraw`);
-    return this.coerceItem(response);
+  async withdraw(id: string, options?: CallOptions): Promise<Proposal> {
+    const response = await this.http.patch<unknown>(`/api/proposals/${id}/withdraw`, undefined, options);
+    return this.http.validator.item(response, ProposalSchema, "proposal", "PATCH /api/proposals/:id/withdraw");
   }
 
   /**
    * List pending proposals on jobs posted by the authenticated user.
    * Enriched with jobTitle, jobStatus, agentName, agentWallet.
    */
-  async listPending(params?: ListPendingProposalsParams): Promise<PendingProposal[]> {
-    const response = await this.http.get<any>("/api/proposals/pending", {
+  async listPending(
+    params?: ListPendingProposalsParams,
+    options?: CallOptions
+  ): Promise<PendingProposal[]> {
+    const response = await this.http.get<unknown>("/api/proposals/pending", {
       status: params?.status ?? "pending",
       limit: params?.limit,
       offset: params?.offset,
-    });
-    return this.coerceList(response);
+    }, options);
+    return this.http.validator.list(response, PendingProposalSchema, "proposals", "GET /api/proposals/pending");
+  }
+
+  /**
+   * Iterate every proposal on jobs posted by the authenticated user
+   * @param params - Status filter (default: "pending")
+   * @param options - Page size, item limit, concurrency and per-call options
+   */
+  iteratePending(
+    params?: Omit<ListPendingProposalsParams, "limit" | "offset">,
+    options?: IterateOptions
+  ): PageIterator<PendingProposal> {
+    return paginateOffset(async (limit, offset, callOptions) => {
+      const response = await this.http.get<unknown>("/api/proposals/pending", {
+        status: params?.status ?? "pending",
+        limit,
+        offset,
+      }, callOptions);
+      return this.http.validator.page(response, PendingProposalSchema, "proposals", "GET /api/proposals/pending");
+    }, options);
   }
 
   /**
@@ -85,13 +104,15 @@ export class ProposalsModule {
    * @param plan - Work plan description
    * @param estimatedCostUSDC - Cost estimate
    * @param eta - Estimated time to complete (e.g., "2 days", "1 week")
+   * @param options - Per-call options (signal, timeout, headers)
    */
   async bid(
     jobId: string,
     agentId: string,
     plan: string,
     estimatedCostUSDC: number,
-    eta: string
+    eta: string,
+    options?: CallOptions
   ): Promise<Proposal> {
     return this.submit({
       jobId,
@@ -99,24 +120,26 @@ export class ProposalsModule {
       plan,
       estimatedCostUSDC,
       eta,
-    });
+    }, options);
   }
 
   /**
    * Get pending proposals for a job
    * @param jobId - Job UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async getPending(jobId: string): Promise<Proposal[]> {
-    const proposals = await this.list(jobId);
+  async getPending(jobId: string, options?: CallOptions): Promise<Proposal[]> {
+    const proposals = await this.list(jobId, options);
     return proposals.filter(p => p.status === "pending");
   }
 
   /**
    * Get accepted proposal for a job (should be at most one)
    * @param jobId - Job UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async getAccepted(jobId: string): Promise<Proposal | undefined> {
-    const proposals = await this.list(jobId);
+  async getAccepted(jobId: string, options?: CallOptions): Promise<Proposal | undefined> {
+    const proposals = await this.list(jobId, options);
     return proposals.find(p => p.status === "accepted");
   }
 }
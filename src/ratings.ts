@@ -3,45 +3,37 @@
 // ============================================
 
 import { HttpClient } from "./http.js";
+import { RatingSchema } from "./validation.js";
 import type {
   Rating,
+  CallOptions,
   CreateRatingRequest,
 } from "./types.js";
 
 export class RatingsModule {
   constructor(private http: HttpClient) {}
 
-  private coerceList(response: any): Rating[] {
-    if (response?.items && Array.isArray(response.items)) return response.items;
-    if (response?.ratings && Array.isArray(response.ratings)) return response.ratings;
-    return [];
-  }
-
-  private coerceItem(response: any): Rating {
-    if (response?.item) return response.item;
-    if (response?.rating) return response.rating;
-    return response as Rating;
-  }
-
   /**
    * List ratings for a specific agent
    * @param agentId - Agent UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async list(agentId: string): Promise<Rating[]> {
-    const response = await this.http.get<any>("/api/ratings", {
+  async list(agentId: string, options?: CallOptions): Promise<Rating[]> {
+    const response = await this.http.get<unknown>("/api/ratings", {
       agentId,
-    });
-    return this.coerceList(response);
+    }, options);
+    return this.http.validator.list(response, RatingSchema, "ratings", "GET /api/ratings");
   }
 
   /**
    * Create a rating for an agent
    * Requires authentication and job must be completed
    * @param data - Rating data
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async create(data: CreateRatingRequest): Promise<Rating> {
-    const response = await this.http.post<any>("/api/ratings", data);
-    return this.coerceItem(response);
+  async create(data: CreateRatingRequest, options?: CallOptions): Promise<Rating> {
+    const response = await this.http.post<unknown>("/api/ratings", data, options);
+    return this.http.validator.item(response, RatingSchema, "rating", "POST /api/ratings");
   }
 
   /**
@@ -51,12 +43,14 @@ export class RatingsModule {
    * @param jobId - Job UUID (must be completed)
    * @param score - Rating score (1-5)
    * @param comment - Optional review comment
+   * @param options - Per-call options (signal, timeout, headers)
    */
   async rate(
     agentId: string,
     jobId: string,
     score: number,
-    comment?: string
+    comment?: string,
+    options?: CallOptions
   ): Promise<Rating> {
     if (score < 1 || score > 5) {
       throw new Error("Score must be between 1 and 5");
@@ -67,15 +61,19 @@ export class RatingsModule {
       jobId,
       score: Math.round(score), // Ensure integer
       comment,
-    });
+    }, options);
   }
 
   /**
    * Get average rating for an agent
    * @param agentId - Agent UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async getAverageRating(agentId: string): Promise<{ average: number; count: number }> {
-    const ratings = await this.list(agentId);
+  async getAverageRating(
+    agentId: string,
+    options?: CallOptions
+  ): Promise<{ average: number; count: number }> {
+    const ratings = await this.list(agentId, options);
 
     if (ratings.length === 0) {
       return { average: 0, count: 0 };
@@ -91,9 +89,13 @@ export class RatingsModule {
   /**
    * Get rating distribution for an agent
    * @param agentId - Agent UUID
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async getRatingDistribution(agentId: string): Promise<Record<number, number>> {
-    const ratings = await this.list(agentId);
+  async getRatingDistribution(
+    agentId: string,
+    options?: CallOptions
+  ): Promise<Record<number, number>> {
+    const ratings = await this.list(agentId, options);
 
     const distribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
 
@@ -110,9 +112,10 @@ export class RatingsModule {
    * Get recent ratings for an agent
    * @param agentId - Agent UUID
    * @param limit - Number of ratings to return
+   * @param options - Per-call options (signal, timeout, headers)
    */
-  async getRecent(agentId: string, limit: number = 5): Promise<Rating[]> {
-    const ratings = await this.list(agentId);
+  async getRecent(agentId: string, limit: number = 5, options?: CallOptions): Promise<Rating[]> {
+    const ratings = await this.list(agentId, options);
 
     return ratings
       .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
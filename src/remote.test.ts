@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { createMockSignerEndpoint } from "./mock.js";
+import { createRemoteSigner } from "./remote.js";
+import { SignerError } from "./types.js";
+
+const KEY = `0x${"11".repeat(32)}` as const;
+
+async function failure(promise: Promise<unknown>): Promise<SignerError> {
+  const error = await promise.catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(SignerError);
+  return error as SignerError;
+}
+
+describe("createRemoteSigner against the mock endpoint", () => {
+  it("signs with the endpoint's account", async () => {
+    const endpoint = createMockSignerEndpoint(KEY);
+    const signer = createRemoteSigner({ url: endpoint.url, fetch: endpoint.fetch });
+    const signature = await signer.signMessage("hello");
+    expect(signature).toMatch(/^0x[0-9a-f]{130}$/);
+    expect(endpoint.calls.map((c) => c.method)).toEqual(["eth_accounts", "personal_sign"]);
+  });
+
+  it("surfaces JSON-RPC error codes", async () => {
+    const endpoint = createMockSignerEndpoint(KEY, { reject: (method) => method === "personal_sign" });
+    const signer = createRemoteSigner({ url: endpoint.url, fetch: endpoint.fetch });
+    const rejected = await failure(signer.signMessage("hello"));
+    expect(rejected.rpcCode).toBe(4001);
+    expect(rejected.reason).toBe("rejected");
+
+    const stranger = createRemoteSigner({
+      url: endpoint.url,
+      fetch: endpoint.fetch,
+      address: `0x${"22".repeat(20)}`,
+    });
+    const unknown = await failure(stranger.signTypedData({
+      domain: { name: "USD Coin", version: "2", chainId: 8453 },
+      types: { Ping: [{ name: "n", type: "uint256" }] },
+      primaryType: "Ping",
+      message: { n: 1n },
+    }));
+    expect(unknown.rpcCode).toBe(4100);
+    expect(unknown.reason).toBe("unauthorized");
+  });
+});
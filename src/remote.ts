@@ -0,0 +1,181 @@
+// ============================================
+// Remote Signer - Keys held by an external JSON-RPC signer
+// ============================================
+
+import { SignerError } from "./types.js";
+import type { PaymentSigner, SignerErrorReason } from "./types.js";
+import { X402_CONSTANTS } from "./payments.js";
+
+export interface RemoteSignerConfig {
+  /** JSON-RPC endpoint of the signer (Web3Signer eth1 mode, Frame, a node with unlocked accounts...) */
+  url: string;
+  /** Credentials: a bearer token, HTTP basic auth, or arbitrary headers */
+  auth?: { token: string } | { username: string; password: string } | { headers: Record<string, string> };
+  /** Account to use (default: the first account from `eth_accounts`) */
+  address?: string;
+  /** Chain ID sent with transactions (default: 8453, Base mainnet) */
+  chainId?: number;
+  /** Milliseconds to wait for each call (default: 30000; signers that prompt a human may need more) */
+  timeoutMs?: number;
+  /** Custom fetch implementation (defaults to global fetch) */
+  fetch?: typeof fetch;
+}
+
+/** EIP-712 domain fields in canonical order, for building `EIP712Domain` */
+const DOMAIN_FIELDS = [
+  { name: "name", type: "string" },
+  { name: "version", type: "string" },
+  { name: "chainId", type: "uint256" },
+  { name: "verifyingContract", type: "address" },
+  { name: "salt", type: "bytes32" },
+] as const;
+
+/**
+ * Create a signer that forwards to a remote JSON-RPC signer, keeping keys out
+ * of the agent process. Uses `eth_accounts`, `personal_sign`,
+ * `eth_signTypedData_v4` and `eth_sendTransaction`; the remote side fills in
+ * gas and nonce for transactions.
+ *
+ * ```ts
+ * const signer = createRemoteSigner({
+ *   url: "https://signer.internal:9000",
+ *   auth: { token: process.env.SIGNER_TOKEN! },
+ * });
+ * const sdk = await MDPAgentSDK.createAuthenticated({}, signer);
+ * ```
+ * Errors surface as SignerError: `reason` is "rejected" (EIP-1193 4001),
+ * "unauthorized" (4100, HTTP 401/403), "unsupported" (4200, -32601),
+ * "invalid_params" (-32602), "unavailable" (network, timeout, HTTP 5xx) or "failed".
+ */
+export function createRemoteSigner(config: RemoteSignerConfig): PaymentSigner {
+  const fetchImpl = config.fetch ?? globalThis.fetch;
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.auth && "token" in config.auth) {
+    headers.Authorization = `Bearer ${config.auth.token}`;
+  } else if (config.auth && "username" in config.auth) {
+    const credentials = Buffer.from(`${config.auth.username}:${config.auth.password}`).toString("base64");
+    headers.Authorization = `Basic ${credentials}`;
+  } else if (config.auth) {
+    Object.assign(headers, config.auth.headers);
+  }
+
+  let nextId = 1;
+  const call = async <T>(method: string, params: unknown[]): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetchImpl(config.url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ jsonrpc: "2.0", id: nextId++, method, params }),
+        signal: AbortSignal.timeout(config.timeoutMs ?? 30_000),
+      });
+    } catch (error) {
+      throw new SignerError(
+        `Remote signer ${method} failed: ${(error as Error).message}`,
+        "unavailable",
+        undefined,
+        { method: "POST", path: method, cause: error }
+      );
+    }
+
+    const body = (await response.json().catch(() => undefined)) as
+      | { result?: T; error?: { code?: number; message?: string; data?: unknown } }
+      | undefined;
+
+    const denied = response.status === 401 || response.status === 403;
+    if (!denied && body?.error && typeof body.error === "object") {
+      const { code, message } = body.error;
+      throw new SignerError(
+        `Remote signer ${method} failed: ${message ?? "unknown error"}`,
+        reasonFromRpcCode(code),
+        code,
+        { method: "POST", path: method, response: body.error }
+      );
+    }
+    if (!response.ok || !body || !("result" in body)) {
+      const reason: SignerErrorReason = denied
+        ? "unauthorized"
+        : response.status >= 500
+          ? "unavailable"
+          : "failed";
+      throw new SignerError(
+        `Remote signer ${method} failed: HTTP ${response.status}`,
+        reason,
+        undefined,
+        { method: "POST", path: method, response: body }
+      );
+    }
+    return body.result as T;
+  };
+
+  let accountPromise: Promise<string> | undefined;
+  const getAddress = async () => {
+    if (config.address) return config.address;
+    accountPromise ??= call<string[]>("eth_accounts", []).then((accounts) => {
+      if (!accounts?.[0]) throw new SignerError("Remote signer exposes no accounts", "unauthorized");
+      return accounts[0];
+    });
+    try {
+      return await accountPromise;
+    } catch (error) {
+      accountPromise = undefined;
+      throw error;
+    }
+  };
+
+  return {
+    getAddress,
+
+    async signMessage(message) {
+      const data = `0x${Buffer.from(message, "utf8").toString("hex")}`;
+      return call<string>("personal_sign", [data, await getAddress()]);
+    },
+
+    async signTypedData(params) {
+      const domainType = DOMAIN_FIELDS.filter((field) => params.domain[field.name] !== undefined);
+      const typedData = {
+        types: { EIP712Domain: domainType, ...params.types },
+        domain: params.domain,
+        primaryType: params.primaryType,
+        message: params.message,
+      };
+      // uint256 fields (value, validAfter, validBefore) are bigints; JSON carries them as decimal strings
+      const json = JSON.stringify(typedData, (_key, value) =>
+        typeof value === "bigint" ? value.toString() : value
+      );
+      return call<string>("eth_signTypedData_v4", [await getAddress(), json]);
+    },
+
+    async sendTransaction(params) {
+      return call<string>("eth_sendTransaction", [
+        {
+          from: await getAddress(),
+          to: params.to,
+          data: params.data,
+          value: `0x${(params.value ?? 0n).toString(16)}`,
+          chainId: `0x${(params.chainId ?? config.chainId ?? X402_CONSTANTS.CHAIN_ID).toString(16)}`,
+        },
+      ]);
+    },
+  };
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+function reasonFromRpcCode(code: number | undefined): SignerErrorReason {
+  switch (code) {
+    case 4001:
+      return "rejected";
+    case 4100:
+      return "unauthorized";
+    case 4200:
+    case -32601:
+      return "unsupported";
+    case -32602:
+      return "invalid_params";
+    default:
+      return "failed";
+  }
+}
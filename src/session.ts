@@ -0,0 +1,166 @@
+// ============================================
+// Session Stores - Persist auth tokens between restarts
+// ============================================
+
+import type { SessionStore, StoredSession } from "./types.js";
+
+/**
+ * Storage key for a wallet on an API deployment
+ */
+export function sessionKey(wallet: string, baseUrl: string): string {
+  return `${wallet.toLowerCase()}@${baseUrl.replace(/\/$/, "").toLowerCase()}`;
+}
+
+/**
+ * Keeps sessions for the lifetime of the process (e.g. shared by several SDK instances)
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, StoredSession>();
+
+  async get(wallet: string, baseUrl: string): Promise<StoredSession | undefined> {
+    return this.sessions.get(sessionKey(wallet, baseUrl));
+  }
+
+  async set(session: StoredSession): Promise<void> {
+    this.sessions.set(sessionKey(session.wallet, session.baseUrl), session);
+  }
+
+  async delete(wallet: string, baseUrl: string): Promise<void> {
+    this.sessions.delete(sessionKey(wallet, baseUrl));
+  }
+}
+
+/**
+ * Stores sessions as plain JSON in a file readable only by the owner (0600).
+ * Tokens are bearer credentials: prefer EncryptedFileSessionStore on shared machines.
+ */
+export class FileSessionStore implements SessionStore {
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path - File holding all sessions (created on first save)
+   */
+  constructor(protected readonly path: string) {}
+
+  async get(wallet: string, baseUrl: string): Promise<StoredSession | undefined> {
+    await this.writes;
+    const sessions = await this.read();
+    return sessions[sessionKey(wallet, baseUrl)];
+  }
+
+  async set(session: StoredSession): Promise<void> {
+    return this.update((sessions) => {
+      sessions[sessionKey(session.wallet, session.baseUrl)] = session;
+    });
+  }
+
+  async delete(wallet: string, baseUrl: string): Promise<void> {
+    return this.update((sessions) => {
+      delete sessions[sessionKey(wallet, baseUrl)];
+    });
+  }
+
+  /** Turn the session map into file contents */
+  protected async serialize(sessions: Record<string, StoredSession>): Promise<string> {
+    return `${JSON.stringify(sessions, null, 2)}\n`;
+  }
+
+  /** Parse file contents back into the session map */
+  protected async deserialize(contents: string): Promise<Record<string, StoredSession>> {
+    return JSON.parse(contents) as Record<string, StoredSession>;
+  }
+
+  private async read(): Promise<Record<string, StoredSession>> {
+    const { readFile } = await import("node:fs/promises");
+    try {
+      return await this.deserialize(await readFile(this.path, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw error;
+    }
+  }
+
+  /** Read-modify-write, serialized so concurrent saves never drop entries */
+  private update(mutate: (sessions: Record<string, StoredSession>) => void): Promise<void> {
+    const run = this.writes.then(async () => {
+      const [{ writeFile, rename, mkdir }, { dirname }] = await Promise.all([
+        import("node:fs/promises"),
+        import("node:path"),
+      ]);
+      const sessions = await this.read();
+      mutate(sessions);
+      await mkdir(dirname(this.path), { recursive: true });
+      const temp = `${this.path}.${process.pid}.tmp`;
+      await writeFile(temp, await this.serialize(sessions), { mode: 0o600 });
+      await rename(temp, this.path);
+    });
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * Stores sessions in a file encrypted with AES-256-GCM under a key derived
+ * from `password` with scrypt. A wrong password or tampered file fails to load.
+ */
+export class EncryptedFileSessionStore extends FileSessionStore {
+  /**
+   * @param path - File holding all sessions (created on first save)
+   * @param password - Secret the encryption key is derived from
+   */
+  constructor(
+    path: string,
+    private readonly password: string
+  ) {
+    super(path);
+    if (!password) throw new Error("EncryptedFileSessionStore requires a password");
+  }
+
+  protected override async serialize(sessions: Record<string, StoredSession>): Promise<string> {
+    const { createCipheriv, randomBytes } = await import("node:crypto");
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", await this.deriveKey(salt), iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(sessions), "utf8"),
+      cipher.final(),
+    ]);
+    const file = {
+      version: 1,
+      cipher: "aes-256-gcm",
+      kdf: "scrypt",
+      salt: salt.toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      ciphertext: ciphertext.toString("base64"),
+    };
+    return `${JSON.stringify(file, null, 2)}\n`;
+  }
+
+  protected override async deserialize(contents: string): Promise<Record<string, StoredSession>> {
+    const { createDecipheriv } = await import("node:crypto");
+    const file = JSON.parse(contents) as Record<string, string>;
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      await this.deriveKey(Buffer.from(file.salt ?? "", "base64")),
+      Buffer.from(file.iv ?? "", "base64")
+    );
+    decipher.setAuthTag(Buffer.from(file.tag ?? "", "base64"));
+    try {
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(file.ciphertext ?? "", "base64")),
+        decipher.final(),
+      ]);
+      return JSON.parse(plaintext.toString("utf8")) as Record<string, StoredSession>;
+    } catch {
+      throw new Error(`Cannot decrypt session file ${this.path}: wrong password or corrupted file`);
+    }
+  }
+
+  private async deriveKey(salt: Buffer): Promise<Buffer> {
+    const { scrypt } = await import("node:crypto");
+    return new Promise((resolve, reject) => {
+      scrypt(this.password, salt, 32, (error, key) => (error ? reject(error) : resolve(key)));
+    });
+  }
+}
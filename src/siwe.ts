@@ -0,0 +1,224 @@
+// ============================================
+// Sign-In Message Verification (EIP-4361)
+// ============================================
+
+import { SignInMessageError } from "./types.js";
+import type { SignInMessage, SignInVerificationConfig } from "./types.js";
+import { X402_CONSTANTS } from "./payments.js";
+
+/** Domains trusted by default (see "Security Rules" in SKILL.md) */
+export const MDP_SIGN_IN_DOMAINS = ["moltdomesticproduct.com"];
+
+const HEADER_SUFFIX = " wants you to sign in with your Ethereum account:";
+
+const FIELD_LABELS: Record<string, keyof SignInMessage> = {
+  URI: "uri",
+  Version: "version",
+  "Chain ID": "chainId",
+  Nonce: "nonce",
+  "Issued At": "issuedAt",
+  "Expiration Time": "expirationTime",
+  "Not Before": "notBefore",
+  "Request ID": "requestId",
+};
+
+/**
+ * Parse an EIP-4361 sign-in message
+ * @throws SignInMessageError if the message is not a well-formed SIWE message
+ */
+export function parseSignInMessage(message: string): SignInMessage {
+  const lines = message.replace(/\r\n/g, "\n").split("\n");
+  const header = lines[0] ?? "";
+  if (!header.endsWith(HEADER_SUFFIX)) {
+    throw new SignInMessageError(
+      "Refusing to sign: not a Sign-In with Ethereum message (missing domain header)",
+      "domain"
+    );
+  }
+
+  let authority = header.slice(0, -HEADER_SUFFIX.length);
+  let scheme: string | undefined;
+  const schemeMatch = /^([a-z][a-z0-9+.-]*):\/\/(.+)$/i.exec(authority);
+  if (schemeMatch) {
+    scheme = schemeMatch[1];
+    authority = schemeMatch[2]!;
+  }
+
+  const address = lines[1] ?? "";
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    throw new SignInMessageError("Refusing to sign: sign-in message has no valid address", "address");
+  }
+
+  // Optional statement sits between blank lines; fields follow
+  let index = 2;
+  let statement: string | undefined;
+  if (lines[index] === "") index++;
+  if (lines[index] !== undefined && !lines[index]!.startsWith("URI: ")) {
+    statement = lines[index];
+    index++;
+    if (lines[index] === "") index++;
+  }
+
+  const fields: Partial<Record<keyof SignInMessage, string>> = {};
+  const resources: string[] = [];
+  for (; index < lines.length; index++) {
+    const line = lines[index]!;
+    if (line === "Resources:") {
+      for (index++; index < lines.length && lines[index]!.startsWith("- "); index++) {
+        resources.push(lines[index]!.slice(2));
+      }
+      break;
+    }
+    const separator = line.indexOf(": ");
+    const key = FIELD_LABELS[line.slice(0, separator)];
+    if (separator < 0 || !key) {
+      if (line === "") continue;
+      throw new SignInMessageError(`Refusing to sign: unexpected sign-in message line "${line}"`, "message");
+    }
+    fields[key] = line.slice(separator + 2);
+  }
+
+  for (const required of ["uri", "version", "chainId", "nonce", "issuedAt"] as const) {
+    if (!fields[required]) {
+      throw new SignInMessageError(
+        `Refusing to sign: sign-in message is missing ${required}`,
+        required
+      );
+    }
+  }
+
+  const chainId = Number(fields.chainId);
+  if (!Number.isInteger(chainId)) {
+    throw new SignInMessageError(`Refusing to sign: invalid chain ID "${fields.chainId}"`, "chainId");
+  }
+
+  return {
+    domain: authority,
+    scheme,
+    address,
+    statement,
+    uri: fields.uri!,
+    version: fields.version!,
+    chainId,
+    nonce: fields.nonce!,
+    issuedAt: fields.issuedAt!,
+    expirationTime: fields.expirationTime,
+    notBefore: fields.notBefore,
+    requestId: fields.requestId,
+    resources: resources.length > 0 ? resources : undefined,
+  };
+}
+
+/**
+ * Parse and check a sign-in message before signing it: trusted domain and URI,
+ * the signer's own address, the expected chain, the nonce the API issued, and
+ * a validity window that includes now.
+ * @param message - Message returned by `/api/auth/nonce`
+ * @param expected - Signer address and (optionally) the nonce returned alongside the message
+ * @param config - Domain allowlist, chain, clock and clock skew
+ * @throws SignInMessageError describing the first mismatch
+ */
+export function verifySignInMessage(
+  message: string,
+  expected: { address: string; nonce?: string; now?: Date },
+  config: SignInVerificationConfig = {}
+): SignInMessage {
+  const parsed = parseSignInMessage(message);
+  const allowed = config.allowedDomains ?? MDP_SIGN_IN_DOMAINS;
+  const chainId = config.chainId ?? X402_CONSTANTS.CHAIN_ID;
+  const skewMs = (config.clockSkewSeconds ?? 300) * 1000;
+  const now = (expected.now ?? config.now?.() ?? new Date()).getTime();
+
+  if (!isAllowedAuthority(parsed.domain, allowed)) {
+    throw new SignInMessageError(
+      `Refusing to sign: sign-in message domain "${parsed.domain}" is not trusted (allowed: ${allowed.join(", ")})`,
+      "domain"
+    );
+  }
+
+  let uriAuthority: string;
+  try {
+    uriAuthority = new URL(parsed.uri).host;
+  } catch {
+    throw new SignInMessageError(`Refusing to sign: invalid URI "${parsed.uri}"`, "uri");
+  }
+  if (!isAllowedAuthority(uriAuthority, allowed)) {
+    throw new SignInMessageError(
+      `Refusing to sign: sign-in message URI "${parsed.uri}" is not on a trusted domain`,
+      "uri"
+    );
+  }
+
+  if (parsed.address.toLowerCase() !== expected.address.toLowerCase()) {
+    throw new SignInMessageError(
+      `Refusing to sign: sign-in message is for ${parsed.address}, not the signer ${expected.address}`,
+      "address"
+    );
+  }
+
+  if (parsed.version !== "1") {
+    throw new SignInMessageError(`Refusing to sign: unsupported SIWE version "${parsed.version}"`, "version");
+  }
+
+  if (parsed.chainId !== chainId) {
+    throw new SignInMessageError(
+      `Refusing to sign: sign-in message targets chain ${parsed.chainId}, expected ${chainId}`,
+      "chainId"
+    );
+  }
+
+  if (expected.nonce !== undefined && parsed.nonce !== expected.nonce) {
+    throw new SignInMessageError(
+      "Refusing to sign: sign-in message nonce does not match the nonce issued by the API",
+      "nonce"
+    );
+  }
+
+  const issuedAt = parseTimestamp(parsed.issuedAt, "issuedAt");
+  if (issuedAt - skewMs > now) {
+    throw new SignInMessageError(
+      `Refusing to sign: sign-in message is issued in the future (${parsed.issuedAt})`,
+      "issuedAt"
+    );
+  }
+  if (parsed.expirationTime && parseTimestamp(parsed.expirationTime, "expirationTime") + skewMs <= now) {
+    throw new SignInMessageError(
+      `Refusing to sign: sign-in message expired at ${parsed.expirationTime}`,
+      "expirationTime"
+    );
+  }
+  if (parsed.notBefore && parseTimestamp(parsed.notBefore, "notBefore") - skewMs > now) {
+    throw new SignInMessageError(
+      `Refusing to sign: sign-in message is not valid before ${parsed.notBefore}`,
+      "notBefore"
+    );
+  }
+
+  return parsed;
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+function isAllowedAuthority(authority: string, allowed: string[]): boolean {
+  const [host = "", port] = splitAuthority(authority.toLowerCase());
+  return allowed.some((entry) => {
+    const [allowedHost = "", allowedPort] = splitAuthority(entry.toLowerCase());
+    if (allowedPort !== undefined && allowedPort !== port) return false;
+    return host === allowedHost || host.endsWith(`.${allowedHost}`);
+  });
+}
+
+function splitAuthority(authority: string): [string, string | undefined] {
+  const match = /^(.*?)(?::(\d+))?$/.exec(authority);
+  return [match?.[1] ?? authority, match?.[2]];
+}
+
+function parseTimestamp(value: string, field: string): number {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new SignInMessageError(`Refusing to sign: invalid ${field} timestamp "${value}"`, field);
+  }
+  return time;
+}
@@ -0,0 +1,42 @@
+import { verifyMessage, verifyTypedData } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { describe, expect, it } from "vitest";
+import { ERC6492_MAGIC_SUFFIX, createSmartAccountSigner, isErc6492Signature } from "./smart-account.js";
+import { SignerError } from "./types.js";
+
+const account = privateKeyToAccount(`0x${"11".repeat(32)}`);
+const execute = async () => `0x${"ab".repeat(32)}`;
+
+const typedData = {
+  domain: { name: "USD Coin", version: "2", chainId: 8453 },
+  types: { Ping: [{ name: "n", type: "uint256" }] },
+  primaryType: "Ping",
+  message: { n: 1n },
+};
+
+describe("createSmartAccountSigner", () => {
+  it("accepts viem accounts and verifiers", async () => {
+    const signer = createSmartAccountSigner({ account, publicClient: { verifyMessage, verifyTypedData }, execute });
+    await expect(signer.signMessage("hello")).resolves.toMatch(/^0x/);
+    await expect(signer.signTypedData(typedData)).resolves.toMatch(/^0x/);
+    await expect(signer.execute([])).resolves.toBe(await execute());
+  });
+
+  it("rejects signatures that do not verify", async () => {
+    const signer = createSmartAccountSigner({
+      account,
+      publicClient: { verifyMessage: async () => false, verifyTypedData: async () => false },
+      execute,
+    });
+    const error = await signer.signTypedData(typedData).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SignerError);
+    expect((error as SignerError).reason).toBe("invalid_signature");
+  });
+});
+
+describe("isErc6492Signature", () => {
+  it("detects the ERC-6492 suffix", () => {
+    expect(isErc6492Signature(`0x1234${ERC6492_MAGIC_SUFFIX}`)).toBe(true);
+    expect(isErc6492Signature("0x1234")).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+// ============================================
+// Smart Account Signer - ERC-1271 / ERC-6492 contract wallets
+// ============================================
+
+import { SignerError } from "./types.js";
+import type { SmartAccountCall, SmartAccountSigner, WalletSigner } from "./types.js";
+import type {
+  Address,
+  Hex,
+  TypedDataDefinition,
+  VerifyMessageParameters,
+  VerifyTypedDataParameters,
+} from "viem";
+
+/** Suffix appended to ERC-6492 signatures of accounts that are not deployed yet */
+export const ERC6492_MAGIC_SUFFIX =
+  "6492649264926492649264926492649264926492649264926492649264926492";
+
+export interface SmartAccountSignerConfig {
+  /**
+   * The smart account, e.g. a viem `SmartAccount` (`toCoinbaseSmartAccount`,
+   * permissionless `toSafeSmartAccount`...) or anything with the same shape
+   */
+  account: {
+    address: Address;
+    signMessage(args: { message: string }): Promise<Hex>;
+    signTypedData(args: TypedDataDefinition): Promise<Hex>;
+    isDeployed?(): Promise<boolean>;
+  };
+  /**
+   * Client used to verify signatures locally before they are submitted. A viem
+   * PublicClient works: its verifyMessage/verifyTypedData handle ERC-1271 and ERC-6492.
+   */
+  publicClient: {
+    verifyMessage(args: VerifyMessageParameters): Promise<boolean>;
+    verifyTypedData(args: VerifyTypedDataParameters): Promise<boolean>;
+    getCode?(args: { address: Address }): Promise<Hex | undefined>;
+  };
+  /**
+   * Run calls through the account's execute path, e.g.
+   * `bundlerClient.sendUserOperation({ account, calls })` followed by
+   * `waitForUserOperationReceipt`. Resolves to the transaction hash.
+   */
+  execute(calls: SmartAccountCall[]): Promise<string>;
+  /** Verify every signature locally before returning it (default: true) */
+  verify?: boolean;
+}
+
+/**
+ * Create a signer for a smart contract wallet.
+ *
+ * Sign-in messages and EIP-3009 authorizations are signed by the account
+ * (ERC-1271, or ERC-6492-wrapped while undeployed) and checked with
+ * `publicClient` before they leave the process, so a misconfigured account
+ * fails here instead of at the API or facilitator. In contract escrow mode
+ * `payments.fundJob` submits the escrow call through `execute` rather than
+ * `sendTransaction`.
+ *
+ * ```ts
+ * const signer = createSmartAccountSigner({
+ *   account,                                   // viem SmartAccount
+ *   publicClient,                              // viem PublicClient on Base
+ *   execute: async (calls) => {
+ *     const hash = await bundlerClient.sendUserOperation({ account, calls });
+ *     return (await bundlerClient.waitForUserOperationReceipt({ hash })).receipt.transactionHash;
+ *   },
+ * });
+ * ```
+ * @throws SignerError with reason "invalid_signature" when a signature does not verify
+ */
+export function createSmartAccountSigner(config: SmartAccountSignerConfig): SmartAccountSigner {
+  const { account, publicClient } = config;
+  const verify = config.verify ?? true;
+
+  const rejectInvalid = (what: string, signature: string): never => {
+    throw new SignerError(
+      `Smart account ${account.address} produced an ${
+        isErc6492Signature(signature) ? "ERC-6492" : "ERC-1271"
+      } ${what} signature that does not verify`,
+      "invalid_signature"
+    );
+  };
+
+  return {
+    accountType: "smart-account",
+
+    async getAddress() {
+      return account.address;
+    },
+
+    async signMessage(message) {
+      const signature = await account.signMessage({ message });
+      if (
+        verify &&
+        !(await publicClient.verifyMessage({ address: account.address, message, signature }))
+      ) {
+        rejectInvalid("message", signature);
+      }
+      return signature;
+    },
+
+    async signTypedData(params) {
+      // The SDK's typed data is loosely typed; viem validates it when encoding
+      const typedData = params as unknown as TypedDataDefinition;
+      const signature = await account.signTypedData(typedData);
+      if (
+        verify &&
+        !(await publicClient.verifyTypedData({ ...typedData, address: account.address, signature }))
+      ) {
+        rejectInvalid(params.primaryType, signature);
+      }
+      return signature;
+    },
+
+    async sendTransaction(params) {
+      return config.execute([{ to: params.to, data: params.data, value: params.value }]);
+    },
+
+    execute: (calls) => config.execute(calls),
+
+    async isDeployed() {
+      if (account.isDeployed) return account.isDeployed();
+      if (publicClient.getCode) {
+        const code = await publicClient.getCode({ address: account.address });
+        return Boolean(code && code !== "0x");
+      }
+      return true;
+    },
+  };
+}
+
+/** Whether `signer` is a smart contract wallet signer */
+export function isSmartAccountSigner(signer: WalletSigner): signer is SmartAccountSigner {
+  return (signer as Partial<SmartAccountSigner>).accountType === "smart-account";
+}
+
+/** Whether `signature` is ERC-6492-wrapped (signed by an account that is not deployed yet) */
+export function isErc6492Signature(signature: string): boolean {
+  return signature.toLowerCase().endsWith(ERC6492_MAGIC_SUFFIX);
+}
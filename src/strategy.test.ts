@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { MDPAgentSDK } from "./index.js";
+import { createMockMdpServer } from "./mock.js";
+import { ProposalStrategy } from "./strategy.js";
+
+const KEY = `0x${"11".repeat(32)}` as const;
+const NOW = Date.parse("2026-03-02T08:00:00Z");
+
+async function quoteWithDeadline(hoursLeft: number, hours: number) {
+  const server = createMockMdpServer();
+  const sdk = await MDPAgentSDK.createWithPrivateKey(server.config(), KEY);
+  const job = await sdk.jobs.create({
+    title: "Write a report",
+    description: "A short market report",
+    requiredSkills: ["writing"],
+    budgetUSDC: 500,
+    acceptanceCriteria: "A written report",
+    deadline: new Date(NOW + hoursLeft * 3_600_000).toISOString(),
+  });
+  const agent = await sdk.agents.register({
+    name: "Writer",
+    description: "Writes reports",
+    pricingModel: "hourly",
+    hourlyRate: 40,
+    tags: ["writing"],
+    eip8004AgentWallet: `0x${"33".repeat(20)}`,
+  });
+  const strategy = new ProposalStrategy({ estimateHours: () => hours, now: () => NOW });
+  return strategy.quote(job, { sdk, agent });
+}
+
+describe("ProposalStrategy ETA", () => {
+  it("bids on a job due in 20 hours that takes 6 hours", async () => {
+    const quote = await quoteWithDeadline(20, 6);
+    expect(quote.skipped).toBeUndefined();
+    expect(quote.eta).toBe("1 day");
+    expect(quote.rationale.at(-1)).toContain("tightened to the 20.0 h left before the deadline");
+  });
+
+  it("drops the buffer when only the work itself fits", async () => {
+    const quote = await quoteWithDeadline(7, 6);
+    expect(quote.skipped).toBeUndefined();
+    expect(quote.rationale.at(-1)).toContain("without the full buffer");
+  });
+
+  it("skips a job whose work cannot fit before the deadline", async () => {
+    const quote = await quoteWithDeadline(5, 6);
+    expect(quote.skipped).toBe("needs 6 h of work but the deadline is in 5.0 h");
+  });
+
+  it("keeps the paced ETA when the deadline is far off", async () => {
+    const quote = await quoteWithDeadline(24 * 7, 12);
+    expect(quote.eta).toBe("3 days");
+    expect(quote.rationale.at(-1)).toContain("168.0 h to the deadline");
+  });
+});
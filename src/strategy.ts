@@ -0,0 +1,353 @@
+// ============================================
+// Proposal Strategy - Pricing, ETA and plan drafting
+// ============================================
+
+import type { MDPAgentSDK } from "./index.js";
+import type { PagerContext, PagerProposalDraft } from "./pager.js";
+import { JobMatcher } from "./matcher.js";
+import type { Agent, CallOptions, Job, Proposal } from "./types.js";
+
+/** What a pricing strategy sees */
+export interface PricingContext {
+  job: Job;
+  agent: Agent;
+  /** Pending bids on the job from other agents */
+  competingBids: Proposal[];
+  /** Estimated hours of work */
+  hours: number;
+}
+
+/** A pricing strategy's decision */
+export interface PriceQuote {
+  estimatedCostUSDC: number;
+  /** Steps that led to the price */
+  rationale: string[];
+  /** Set when the job should not be bid on at all */
+  skipped?: string;
+}
+
+/** Decides how much to bid; see fixedMargin, undercutMedian and hourlyEstimate */
+export interface PricingStrategy {
+  readonly name: string;
+  price(context: PricingContext): PriceQuote;
+}
+
+/** A drafted proposal with the reasoning behind it */
+export interface ProposalQuote extends PagerProposalDraft {
+  jobId: string;
+  /** Pricing strategy used */
+  strategy: string;
+  /** Estimated hours of work */
+  hours: number;
+  competingBids: { count: number; medianUSDC?: number; lowestUSDC?: number };
+  /** Why the job should not be bid on; the other fields are still filled in for review */
+  skipped?: string;
+  /** Every pricing and ETA decision, in order */
+  rationale: string[];
+}
+
+export interface ProposalStrategyConfig {
+  /** How to price bids (default: hourlyEstimate for hourly agents with a rate, otherwise undercutMedian) */
+  pricing?: PricingStrategy;
+  /** Hours of work a job takes (default: estimateJobHours) */
+  estimateHours?: (job: Job, agent: Agent) => number;
+  /** Working hours per day, for the ETA (default: 6) */
+  hoursPerDay?: number;
+  /** Extra time added to the ETA as a share of the work, 0-1 (default: 0.25) */
+  etaBuffer?: number;
+  /** Look up competing bids with proposals.list (default: true) */
+  competingBids?: boolean;
+  /** First line of the plan (default: the job title and the agent's matching skills) */
+  intro?: (job: Job, agent: Agent) => string;
+  /** Clock for deadline checks (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Rough effort estimate from the size of a job: 2 hours, plus 1 per
+ * required skill, 0.5 per acceptance criterion and 1 per 100 words of
+ * description, rounded up to the half hour
+ */
+export function estimateJobHours(job: Job): number {
+  const words = job.description.split(/\s+/).filter(Boolean).length;
+  const hours = 2 + job.requiredSkills.length + 0.5 * acceptanceCriteriaLines(job).length + words / 100;
+  return Math.ceil(hours * 2) / 2;
+}
+
+/**
+ * The job's acceptance criteria, one per line, without list markers
+ */
+export function acceptanceCriteriaLines(job: Job): string[] {
+  return job.acceptanceCriteria
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)]|\[[ xX]?\])\s*/, "").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Bid the budget less a fixed margin
+ * @param margin - Share of the budget left on the table, 0-1 (default: 0.2, i.e. bid 80%)
+ */
+export function fixedMargin(margin = 0.2): PricingStrategy {
+  return {
+    name: "fixed-margin",
+    price({ job }) {
+      if (!(job.budgetUSDC > 0)) {
+        return { estimatedCostUSDC: 0, rationale: ["job has no budget"], skipped: "job has no budget to price against" };
+      }
+      const cost = usdc(job.budgetUSDC * (1 - margin));
+      return {
+        estimatedCostUSDC: cost,
+        rationale: [`budget ${job.budgetUSDC} USDC less a ${percent(margin)} margin = ${cost} USDC`],
+      };
+    },
+  };
+}
+
+/**
+ * Bid just under the median of the other agents' pending bids, never
+ * below `floor` of the budget. Without enough bids to compare, `fallback`
+ * prices the job.
+ */
+export function undercutMedian(
+  options: {
+    /** How far under the median to bid, 0-1 (default: 0.05) */
+    undercut?: number;
+    /** Competing bids needed before undercutting (default: 1) */
+    minBids?: number;
+    /** Lowest bid as a share of the budget, 0-1 (default: 0.5) */
+    floor?: number;
+    /** Used when there are fewer than `minBids` bids (default: fixedMargin()) */
+    fallback?: PricingStrategy;
+  } = {}
+): PricingStrategy {
+  const undercut = options.undercut ?? 0.05;
+  const minBids = options.minBids ?? 1;
+  const floor = options.floor ?? 0.5;
+  const fallback = options.fallback ?? fixedMargin();
+
+  return {
+    name: "undercut-median",
+    price(context) {
+      const bids = context.competingBids.map((p) => p.estimatedCostUSDC);
+      if (bids.length < minBids) {
+        const quote = fallback.price(context);
+        return {
+          ...quote,
+          rationale: [`${bids.length} competing bid(s), fewer than ${minBids}; priced with ${fallback.name}`, ...quote.rationale],
+        };
+      }
+      const middle = median(bids);
+      let cost = usdc(middle * (1 - undercut));
+      const rationale = [`median of ${bids.length} competing bid(s) is ${middle} USDC; ${percent(undercut)} under = ${cost} USDC`];
+      const lowest = usdc(context.job.budgetUSDC * floor);
+      if (context.job.budgetUSDC > 0 && cost < lowest) {
+        cost = lowest;
+        rationale.push(`raised to the floor of ${percent(floor)} of the ${context.job.budgetUSDC} USDC budget = ${cost} USDC`);
+      }
+      return { estimatedCostUSDC: cost, rationale };
+    },
+  };
+}
+
+/**
+ * Bid the estimated hours at the agent's hourly rate. A job whose
+ * estimate exceeds the budget by more than `maxOverrun` is skipped as
+ * underfunded.
+ */
+export function hourlyEstimate(
+  options: {
+    /** USDC per hour (default: the agent's hourlyRate) */
+    rate?: number;
+    /** How far the estimate may exceed the budget before skipping, 0-1 (default: 0.5) */
+    maxOverrun?: number;
+  } = {}
+): PricingStrategy {
+  return {
+    name: "hourly-estimate",
+    price({ job, agent, hours }) {
+      const rate = options.rate ?? agent.hourlyRate;
+      if (!rate || rate <= 0) {
+        return { estimatedCostUSDC: 0, rationale: ["agent has no hourly rate"], skipped: "no hourly rate to price with" };
+      }
+      const cost = usdc(hours * rate);
+      const rationale = [`${hours} h at ${rate} USDC/h = ${cost} USDC`];
+      const maxOverrun = options.maxOverrun ?? 0.5;
+      if (job.budgetUSDC > 0 && cost > job.budgetUSDC * (1 + maxOverrun)) {
+        return {
+          estimatedCostUSDC: cost,
+          rationale,
+          skipped: `estimate ${cost} USDC is more than ${percent(maxOverrun)} over the ${job.budgetUSDC} USDC budget`,
+        };
+      }
+      return { estimatedCostUSDC: cost, rationale };
+    },
+  };
+}
+
+let defaultMatcher: JobMatcher | undefined;
+
+/**
+ * Drafts proposals: prices the job with a pluggable strategy, derives the
+ * ETA from the estimated hours and the deadline, and writes a plan that
+ * quotes the acceptance criteria line by line. Each quote carries the
+ * rationale behind its numbers.
+ *
+ * ```ts
+ * const strategy = new ProposalStrategy({ pricing: undercutMedian({ undercut: 0.1 }) });
+ * const quote = await strategy.quote(job, { sdk, agent });
+ * if (!quote.skipped) await sdk.proposals.bid(job.id, agent.id, quote.plan, quote.estimatedCostUSDC, quote.eta);
+ *
+ * AgentPager.fromEnv(sdk, { draftProposal: strategy.toDraftProposal() });
+ * ```
+ */
+export class ProposalStrategy {
+  constructor(private readonly config: ProposalStrategyConfig = {}) {}
+
+  /**
+   * Draft a proposal, looking up competing bids with proposals.list
+   */
+  async quote(job: Job, context: { sdk: MDPAgentSDK; agent: Agent }, options?: CallOptions): Promise<ProposalQuote> {
+    const bids = this.config.competingBids === false ? [] : await context.sdk.proposals.list(job.id, options);
+    return this.compose(job, context.agent, bids);
+  }
+
+  /**
+   * Draft a proposal without any API calls
+   * @param proposals - The job's proposals; only other agents' pending bids count as competition
+   */
+  compose(job: Job, agent: Agent, proposals: Proposal[] = []): ProposalQuote {
+    const competingBids = proposals.filter((p) => p.status === "pending" && p.agentId !== agent.id);
+    const hours = (this.config.estimateHours ?? estimateJobHours)(job, agent);
+    const pricing = this.config.pricing ?? defaultPricing(agent);
+    const price = pricing.price({ job, agent, competingBids, hours });
+
+    const rationale = [`${pricing.name}: ${price.rationale.join("; ")}`];
+    let cost = price.estimatedCostUSDC;
+    if (!price.skipped && job.budgetUSDC > 0 && cost > job.budgetUSDC) {
+      cost = job.budgetUSDC;
+      rationale.push(`capped at the ${job.budgetUSDC} USDC budget`);
+    }
+
+    const eta = this.eta(job, hours);
+    rationale.push(eta.rationale);
+    const skipped = [price.skipped, eta.skipped].filter(Boolean).join("; ");
+
+    const amounts = competingBids.map((p) => p.estimatedCostUSDC);
+    return {
+      jobId: job.id,
+      strategy: pricing.name,
+      plan: this.plan(job, agent),
+      estimatedCostUSDC: cost,
+      eta: eta.text,
+      hours,
+      competingBids: {
+        count: amounts.length,
+        medianUSDC: amounts.length ? median(amounts) : undefined,
+        lowestUSDC: amounts.length ? Math.min(...amounts) : undefined,
+      },
+      ...(skipped ? { skipped } : {}),
+      rationale,
+    };
+  }
+
+  /**
+   * `AgentPagerConfig.draftProposal` backed by this strategy; skipped quotes are not bid
+   * @param onQuote - Sees every quote, e.g. to keep an audit log
+   */
+  toDraftProposal(
+    onQuote?: (quote: ProposalQuote, job: Job) => void
+  ): (job: Job, score: number, context: PagerContext) => Promise<PagerProposalDraft | undefined> {
+    return async (job, _score, context) => {
+      const quote = await this.quote(job, context);
+      onQuote?.(quote, job);
+      if (quote.skipped) return undefined;
+      return { plan: quote.plan, estimatedCostUSDC: quote.estimatedCostUSDC, eta: quote.eta };
+    };
+  }
+
+  /**
+   * ETA in whole days: the hours plus `etaBuffer`, over `hoursPerDay`,
+   * tightened to the deadline when that pace or the buffer doesn't fit.
+   * Skipped only when the hours of work themselves exceed the hours left.
+   */
+  private eta(job: Job, hours: number): { text: string; rationale: string; skipped?: string } {
+    const hoursPerDay = this.config.hoursPerDay ?? 6;
+    const buffer = this.config.etaBuffer ?? 0.25;
+    const days = Math.max(1, Math.ceil((hours * (1 + buffer)) / hoursPerDay));
+    const rationale = `eta: ${hours} h + ${percent(buffer)} buffer at ${hoursPerDay} h/day = ${days} day(s)`;
+
+    const deadline = job.deadline ? Date.parse(job.deadline) : NaN;
+    if (Number.isNaN(deadline)) return { text: formatDays(days), rationale };
+
+    const hoursLeft = (deadline - (this.config.now ?? Date.now)()) / 3_600_000;
+    const left = `${Math.max(0, hoursLeft).toFixed(1)} h`;
+    const daysLeft = Math.max(1, Math.ceil(hoursLeft / 24));
+    const buffered = hours * (1 + buffer) <= hoursLeft;
+    if (buffered && days <= daysLeft) {
+      return { text: formatDays(days), rationale: `${rationale}; ${left} to the deadline` };
+    }
+    if (hours <= hoursLeft) {
+      return {
+        text: formatDays(Math.min(days, daysLeft)),
+        rationale: `${rationale}; tightened to the ${left} left before the deadline${buffered ? "" : ", without the full buffer"}`,
+      };
+    }
+    return {
+      text: formatDays(days),
+      rationale: `${rationale}; only ${left} left before the deadline`,
+      skipped: `needs ${hours} h of work but the deadline is ${hoursLeft <= 0 ? "past" : `in ${left}`}`,
+    };
+  }
+
+  /** Plan skeleton: intro, approach, and each acceptance criterion quoted */
+  private plan(job: Job, agent: Agent): string {
+    defaultMatcher ??= new JobMatcher({ useSkillSheet: false });
+    const skills = defaultMatcher
+      .score(job, agent)
+      .skills.filter((s) => s.via !== "none" && s.via !== "skillSheet")
+      .map((s) => s.skill);
+
+    const intro =
+      this.config.intro?.(job, agent) ??
+      `I will deliver "${job.title}"` + (skills.length ? ` using my experience with ${skills.join(", ")}.` : ".");
+    const criteria = acceptanceCriteriaLines(job);
+    const lines = [
+      intro,
+      "",
+      "Approach:",
+      "1. Confirm scope and any open questions with you before starting",
+      "2. Build the solution in small, reviewable steps",
+      "3. Check the result against every acceptance criterion below",
+      "4. Deliver the artifacts with a summary of what was done",
+    ];
+    if (criteria.length) {
+      lines.push("", "Acceptance criteria, each verified before delivery:");
+      criteria.forEach((criterion, i) => lines.push(`${i + 1}. "${criterion}"`));
+    }
+    return lines.join("\n");
+  }
+}
+
+/** Hourly agents with a rate bill by the hour; everyone else bids against the competition */
+function defaultPricing(agent: Agent): PricingStrategy {
+  return agent.pricingModel === "hourly" && agent.hourlyRate ? hourlyEstimate() : undercutMedian();
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle]! : usdc((sorted[middle - 1]! + sorted[middle]!) / 2);
+}
+
+function usdc(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+function formatDays(days: number): string {
+  return days === 1 ? "1 day" : `${days} days`;
+}
@@ -411,6 +411,62 @@ export interface ListAgentsParams {
   offset?: number;
 }
 
+/** Sort order for search results */
+export type SortOrder = "asc" | "desc";
+
+/** Criteria for `jobs.search()` and the `jobs.findBy*` helpers; every given criterion must match */
+export interface JobSearchParams {
+  /** Filtered by the API */
+  status?: JobStatus;
+  /** Required skills, case-insensitive */
+  skills?: string[];
+  /** Whether a job needs `"any"` (default) or `"all"` of `skills` */
+  skillMatch?: "any" | "all";
+  /** Minimum budget in USDC (inclusive) */
+  minBudget?: number;
+  /** Maximum budget in USDC (inclusive) */
+  maxBudget?: number;
+  /** Sort matches; jobs without the field come last (default: API order, newest first) */
+  sortBy?: "budget" | "createdAt" | "deadline";
+  order?: SortOrder;
+  /** Return at most this many matches */
+  limit?: number;
+}
+
+/** Criteria for `agents.search()` and the `agents.findBy*` helpers; every given criterion must match */
+export interface AgentSearchParams {
+  /** Tags, case-insensitive */
+  tags?: string[];
+  /** Whether an agent needs `"any"` (default) or `"all"` of `tags` */
+  tagMatch?: "any" | "all";
+  pricingModel?: PricingModel;
+  /** Minimum hourly rate (inclusive); agents without a rate never match */
+  minHourlyRate?: number;
+  /** Maximum hourly rate (inclusive); agents without a rate never match */
+  maxHourlyRate?: number;
+  verified?: boolean;
+  /** Sort matches; agents without the field come last (default: API order, newest first) */
+  sortBy?: "hourlyRate" | "createdAt" | "name";
+  order?: SortOrder;
+  /** Return at most this many matches */
+  limit?: number;
+}
+
+/**
+ * Matches from a search helper. Still an array, with details on how much of
+ * the list was searched.
+ */
+export type SearchResult<T> = T[] & {
+  /**
+   * The whole list was searched, so no match was missed (`limit` aside).
+   * False when scanning stopped early: `maxItems` was reached, or an unsorted
+   * search had collected `limit` matches.
+   */
+  exhaustive: boolean;
+  /** Items examined */
+  scanned: number;
+};
+
 export interface ListProposalsParams {
   jobId: string;
 }
@@ -519,6 +575,8 @@ export interface BazaarSearchParams {
 export interface BazaarSearchResponse {
   jobs: Job[];
   count: number;
+  /** Settlement receipt when the SDK paid for this search via x402 */
+  payment?: X402PaymentReceipt;
 }
 
 // ============================================
@@ -551,6 +609,348 @@ export interface SDKConfig {
   timeout?: number;
   /** Custom headers to include in all requests */
   headers?: Record<string, string>;
+  /** Automatic retry policy for transient failures (pass `false` to disable) */
+  retry?: RetryConfig | false;
+  /**
+   * Client-side rate limiting (default: documented MDP quotas).
+   * Pass a shared limiter instance to pool quota across SDK instances using the
+   * same wallet, or `false` to disable.
+   */
+  rateLimit?: RateLimitConfig | RequestRateLimiter | false;
+  /** Request/response middleware applied to every request, outermost first */
+  middleware?: HttpMiddleware[];
+  /** Opt-in automatic payment of x402-gated endpoints (402 Payment Required) */
+  x402?: X402AutoPayConfig;
+  /** Runtime validation of API responses (default: "lenient") */
+  validation?: ValidationMode | ValidationConfig;
+  /**
+   * Automatic re-authentication with the signer passed to `auth.authenticate`
+   * when the JWT expires (pass `false` to disable)
+   */
+  reauth?: ReauthConfig | false;
+  /**
+   * Persist tokens between restarts. Signing in with a signer reuses a stored,
+   * still-valid token for the same wallet and base URL instead of signing again.
+   */
+  sessionStore?: SessionStore;
+  /**
+   * Checks applied to the sign-in message before a signer signs it
+   * (default: moltdomesticproduct.com on Base mainnet). Pass `false` to sign unchecked.
+   */
+  signInVerification?: SignInVerificationConfig | false;
+  /** Human sign-off before `payments.fundJob` signs (see FundJobOptions.approval) */
+  paymentApproval?: PaymentApprovalConfig;
+  /**
+   * Cache for identity-independent reads (job and agent lookups), typically
+   * shared between SDK instances (default: no caching)
+   */
+  cache?: RequestCache;
+}
+
+export interface SignInVerificationConfig {
+  /**
+   * Domains the message may name; subdomains are accepted and an entry without
+   * a port matches any port (default: ["moltdomesticproduct.com"])
+   */
+  allowedDomains?: string[];
+  /** Required chain ID (default: 8453) */
+  chainId?: number;
+  /** Tolerated clock difference for Issued At / Expiration Time / Not Before (default: 300) */
+  clockSkewSeconds?: number;
+  /** Clock the validity window is checked against (default: the system clock) */
+  now?: () => Date;
+}
+
+// ============================================
+// Spending Policy Types
+// ============================================
+
+export type PolicyRule =
+  | "maxPerTransaction"
+  | "dailyLimit"
+  | "weeklyLimit"
+  | "payTo"
+  | "escrowContract"
+  | "token"
+  | "chainId"
+  | "typedData"
+  | "calldata";
+
+export interface SpendingPolicy {
+  /** Largest single payment, in USDC */
+  maxPerTransactionUSDC?: number | string;
+  /** Budget for any rolling 24 hours, in USDC */
+  dailyLimitUSDC?: number | string;
+  /** Budget for any rolling 7 days, in USDC */
+  weeklyLimitUSDC?: number | string;
+  /** Recipients a transfer authorization may pay (the escrow contract in contract mode); any when omitted */
+  allowedPayTo?: string[];
+  /** Contracts `sendTransaction` and smart account `execute` may call; any MDP escrow when omitted */
+  allowedEscrowContracts?: string[];
+  /** Token contracts that may be authorized (default: Base USDC) */
+  allowedTokens?: string[];
+  /** Chains that may be signed for (default: [8453]) */
+  allowedChainIds?: number[];
+  /** Allow EIP-712 messages other than TransferWithAuthorization (default: false) */
+  allowOtherTypedData?: boolean;
+  /** Where spend history is kept (default: in memory) */
+  history?: SpendHistoryStore;
+}
+
+/** One authorized payment counted against the budgets */
+export interface SpendRecord {
+  /** ISO timestamp of the signature */
+  at: string;
+  /** Amount in token base units (6 decimals for USDC) */
+  amount: string;
+  payTo: string;
+  token: string;
+  chainId: number;
+  /** EIP-3009 authorization nonce */
+  nonce?: string;
+}
+
+/** Persistence for spend history so budgets survive restarts */
+export interface SpendHistoryStore {
+  load(): Promise<SpendRecord[]>;
+  append(record: SpendRecord): Promise<void>;
+}
+
+/** Fields of an EIP-4361 (Sign-In with Ethereum) message */
+export interface SignInMessage {
+  /** RFC 3986 authority, e.g. "moltdomesticproduct.com" or "localhost:3201" */
+  domain: string;
+  /** Scheme prefix of the domain line, when present */
+  scheme?: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+/** A persisted auth token */
+export interface StoredSession {
+  wallet: string;
+  baseUrl: string;
+  token: string;
+  userId?: string;
+  /** ISO timestamp decoded from the JWT `exp` claim, when present */
+  expiresAt?: string;
+  savedAt: string;
+}
+
+/** Storage for auth tokens, keyed by wallet and API base URL */
+export interface SessionStore {
+  get(wallet: string, baseUrl: string): Promise<StoredSession | undefined>;
+  set(session: StoredSession): Promise<void>;
+  delete(wallet: string, baseUrl: string): Promise<void>;
+}
+
+export interface ReauthConfig {
+  /** Refresh this many seconds before the JWT `exp` claim (default: 60) */
+  refreshBeforeSeconds?: number;
+  /** Called after every successful re-authentication, e.g. to persist the token */
+  tokenRefreshed?: (event: TokenRefreshedEvent) => void | Promise<void>;
+}
+
+export interface TokenRefreshedEvent {
+  token: string;
+  user: User;
+  /** Expiry decoded from the new JWT, when present */
+  expiresAt?: Date;
+  /** `expiring`: proactive refresh; `unauthorized`: the API rejected the old token */
+  reason: "expiring" | "unauthorized";
+}
+
+/**
+ * - `strict`: throw ResponseValidationError when a response does not match its schema
+ * - `lenient`: log schema drift and return the data as received
+ * - `off`: skip validation (envelopes are still unwrapped)
+ */
+export type ValidationMode = "strict" | "lenient" | "off";
+
+export interface ValidationConfig {
+  mode?: ValidationMode;
+  /** Called for drift in lenient mode (default: console.warn, once per distinct issue) */
+  onDrift?: (error: ResponseValidationError) => void;
+}
+
+/** A single mismatch between a response and its schema */
+export interface ValidationIssue {
+  /** Location of the value, e.g. "items[3].budgetUSDC" */
+  path: string;
+  /** What the schema expected */
+  expected: string;
+  /** What was received */
+  received: string;
+}
+
+export interface X402AutoPayConfig {
+  /** Signer used to authorize EIP-3009 payments */
+  signer: PaymentSigner;
+  /** Maximum price the SDK may pay for a single request, in USDC (e.g. 0.05) */
+  maxPriceUSDC: number | string;
+  /** Chain IDs payments may be made on (default: [8453]) */
+  chainIds?: number[];
+  /** Called after a paid request completes */
+  onPayment?: (
+    receipt: X402PaymentReceipt | undefined,
+    context: { method: string; path: string; requirement: X402PaymentRequirement }
+  ) => void;
+}
+
+/** Decoded X-PAYMENT-RESPONSE settlement receipt */
+export interface X402PaymentReceipt {
+  success: boolean;
+  transaction?: string;
+  network?: string;
+  payer?: string;
+  errorReason?: string;
+}
+
+/** An outgoing request as seen by middleware */
+export interface HttpRequest {
+  method: string;
+  /** Fully-qualified URL including query string */
+  url: string;
+  /** API path the request was issued for (e.g. "/api/jobs") */
+  path: string;
+  headers: Record<string, string>;
+  /** Serialized JSON body, if any */
+  body?: string;
+  /** Caller-supplied abort signal */
+  signal?: AbortSignal;
+  /** Timeout in milliseconds for this request */
+  timeout: number;
+}
+
+export interface HttpResponseContext {
+  /** The request that produced this response (after onRequest rewrites) */
+  request: HttpRequest;
+  /** Send the request again through the rest of the pipeline */
+  retry(request?: HttpRequest): Promise<Response>;
+}
+
+/**
+ * Middleware around HttpClient requests.
+ * `onRequest` hooks run in registration order, `onResponse` hooks in reverse.
+ */
+export interface HttpMiddleware {
+  /** Optional name for debugging */
+  name?: string;
+  /** Inspect or rewrite the outgoing request (headers, URL, body) */
+  onRequest?(request: HttpRequest): HttpRequest | void | Promise<HttpRequest | void>;
+  /** Inspect, replace or retry the response; throw to surface a custom error */
+  onResponse?(
+    response: Response,
+    context: HttpResponseContext
+  ): Response | void | Promise<Response | void>;
+}
+
+/** A token bucket rule applied to requests matching `method` and `path` */
+export interface RateLimitRule {
+  /** HTTP method to match (matches all methods when omitted) */
+  method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+  /** Path pattern, e.g. "/api/messages/conversations/:id/messages" */
+  path: string;
+  /** Requests allowed per interval (bucket capacity) */
+  limit: number;
+  /** Interval in milliseconds over which `limit` tokens refill */
+  intervalMs: number;
+}
+
+export interface RateLimitConfig {
+  /** Bucket applied to every request (default: 60 per minute; `false` to disable) */
+  global?: { limit: number; intervalMs: number } | false;
+  /** Per-route buckets (default: 20 message sends per 2 minutes) */
+  routes?: RateLimitRule[];
+}
+
+/** Anything that can gate requests before they are sent */
+export interface RequestRateLimiter {
+  /** Resolve once the request may be sent (queues instead of failing) */
+  acquire(method: string, path: string, signal?: AbortSignal): Promise<void>;
+}
+
+/** Cache consulted for GET requests (see ResponseCache) */
+export interface RequestCache {
+  /** Whether GET responses for `path` may be cached */
+  isCacheable(path: string): boolean;
+  /** Whether cached responses for `path` differ by identity; their keys then include the token */
+  isPerIdentity?(path: string): boolean;
+  get<T>(key: string): T | undefined;
+  set(key: string, value: unknown, path: string): void;
+  /** Called after a successful write to `path` */
+  invalidate(path: string): void;
+}
+
+/** Per-call options accepted as the trailing argument of every module method */
+export interface CallOptions {
+  /** Cancel the call, including pending retries, rate-limit waits and polling */
+  signal?: AbortSignal;
+  /** Request timeout in milliseconds for this call (overrides `SDKConfig.timeout`) */
+  timeout?: number;
+  /** Extra headers for this call */
+  headers?: Record<string, string>;
+}
+
+/** Options for the auto-paginating `iterate*` methods */
+export interface IterateOptions extends CallOptions {
+  /** Items requested per page (default: 50) */
+  pageSize?: number;
+  /** Stop after this many items (default: no limit) */
+  maxItems?: number;
+  /**
+   * Pages fetched in parallel once more pages are known to exist (default: 1).
+   * Items are still yielded in order. Cursor-paginated endpoints always fetch one page at a time.
+   */
+  concurrency?: number;
+}
+
+/** Options for `PageIterator.all()` */
+export interface CollectOptions {
+  /** Most items `all()` will hold in memory (default: 10000) */
+  cap?: number;
+}
+
+/** Details passed to `RetryConfig.onRetry` before each retry */
+export interface RetryAttemptInfo {
+  /** HTTP method of the request being retried */
+  method: string;
+  /** Request path (without base URL) */
+  path: string;
+  /** 1-based number of the attempt that just failed */
+  attempt: number;
+  /** Milliseconds the client will wait before the next attempt */
+  delayMs: number;
+  /** HTTP status of the failed attempt (undefined for network errors) */
+  status?: number;
+  /** Network error or timeout that caused the retry, if any */
+  error?: unknown;
+}
+
+export interface RetryConfig {
+  /** Total attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Initial backoff delay in milliseconds, doubled on every retry (default: 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+  /** Randomize backoff delays ("full" jitter) to spread out retries (default: true) */
+  jitter?: boolean;
+  /** HTTP methods that may be retried (default: idempotent methods GET, PUT, DELETE) */
+  methods?: Array<"GET" | "POST" | "PATCH" | "PUT" | "DELETE">;
+  /** HTTP status codes that trigger a retry (default: 408, 429, 500, 502, 503, 504) */
+  statusCodes?: number[];
+  /** Called before each retry, e.g. for logging */
+  onRetry?: (info: RetryAttemptInfo) => void;
 }
 
 export interface WalletSigner {
@@ -582,6 +982,61 @@ export interface PaymentSigner extends WalletSigner {
   }): Promise<string>;
 }
 
+/** A call executed by a smart account */
+export interface SmartAccountCall {
+  to: string;
+  data: string;
+  value?: bigint;
+}
+
+/**
+ * Signer for a smart contract wallet (Safe, ERC-4337 accounts). Signatures are
+ * ERC-1271 (deployed account) or ERC-6492 (wrapped, not yet deployed), and
+ * transactions go through the account's execute path.
+ */
+export interface SmartAccountSigner extends PaymentSigner {
+  readonly accountType: "smart-account";
+  /** Execute calls from the account (e.g. as a user operation); resolves to the transaction hash */
+  execute(calls: SmartAccountCall[]): Promise<string>;
+  /** Whether the account contract is deployed yet */
+  isDeployed(): Promise<boolean>;
+}
+
+// ============================================
+// Keystore Types
+// ============================================
+
+/** Ethereum keystore file (Web3 Secret Storage Definition, version 3) */
+export interface KeystoreV3 {
+  version: 3;
+  id: string;
+  /** Lowercase address without 0x prefix (optional in the spec) */
+  address?: string;
+  crypto: {
+    cipher: "aes-128-ctr";
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: "scrypt" | "pbkdf2";
+    kdfparams: KeystoreScryptParams | KeystorePbkdf2Params;
+    mac: string;
+  };
+}
+
+export interface KeystoreScryptParams {
+  dklen: number;
+  n: number;
+  r: number;
+  p: number;
+  salt: string;
+}
+
+export interface KeystorePbkdf2Params {
+  dklen: number;
+  c: number;
+  prf: "hmac-sha256";
+  salt: string;
+}
+
 // ============================================
 // Payment Flow Types
 // ============================================
@@ -593,14 +1048,81 @@ export interface PaymentRequirementExtra {
   agentWallet?: string;
   agentExecutorWallet?: string;
   agentPayoutWallet?: string;
+  /** EIP-712 domain name of the asset (x402 `exact` scheme) */
+  name?: string;
+  /** EIP-712 domain version of the asset (x402 `exact` scheme) */
+  version?: string;
+}
+
+/** A single x402 payment requirement */
+export type X402PaymentRequirement = PaymentIntentResponse["requirement"];
+
+/** Decoded body of an x402 402 Payment Required response */
+export interface X402PaymentRequired {
+  x402Version: number;
+  error?: string;
+  accepts: X402PaymentRequirement[];
 }
 
 /** Options for the fundJob() high-level flow */
-export interface FundJobOptions {
+export interface FundJobOptions extends CallOptions {
   /** Milliseconds between confirm polls (default: 5000) */
   pollIntervalMs?: number;
   /** Maximum milliseconds to wait for on-chain confirmation (default: 180000) */
   timeoutMs?: number;
+  /** Human sign-off before signing (overrides `SDKConfig.paymentApproval`) */
+  approval?: PaymentApprovalConfig;
+}
+
+// ============================================
+// Payment Approval Types
+// ============================================
+
+/** A payment waiting for human sign-off */
+export interface PaymentApprovalRequest {
+  /** Unique ID of this approval request */
+  id: string;
+  /** `fundJob`: full job context; `signer`: decoded from the signature request alone */
+  source: "fundJob" | "signer";
+  mode: "facilitator" | "contract";
+  jobId?: string;
+  jobTitle?: string;
+  proposalId?: string;
+  agentId?: string;
+  agentName?: string;
+  agentWallet?: string;
+  /** Total to be authorized, formatted with formatUSDC */
+  amountUSDC: string;
+  /** Split of the total (escrow, platform fee, or a plain transfer) */
+  payments: Array<{ role: "escrow" | "fee" | "transfer"; amountUSDC: string; payTo: string }>;
+  escrowContract?: string;
+  chainId: number;
+  /** Human-readable multi-line summary of all of the above */
+  summary: string;
+  createdAt: string;
+}
+
+export interface PaymentApprovalDecision {
+  approved: boolean;
+  /** Shown in the PaymentApprovalError when denied */
+  reason?: string;
+}
+
+/**
+ * Ask a human to approve a payment. `signal` aborts when the request times out
+ * so prompts can be withdrawn.
+ */
+export type PaymentApprover = (
+  request: PaymentApprovalRequest,
+  context: { signal: AbortSignal }
+) => Promise<boolean | PaymentApprovalDecision>;
+
+export interface PaymentApprovalConfig {
+  approve: PaymentApprover;
+  /** Only payments above this amount need approval, in USDC (default: 0, every payment) */
+  thresholdUSDC?: number | string;
+  /** Milliseconds to wait for a decision before denying (default: 300000) */
+  timeoutMs?: number;
 }
 
 /** Result of a fundJob() call */
@@ -611,45 +1133,348 @@ export interface FundJobResult {
   mode: "facilitator" | "contract";
 }
 
+// ============================================
+// Watch Types
+// ============================================
+
+/** Payload of each event emitted by `sdk.watch()`, by event type */
+export interface WatchEventMap {
+  /** A new open job was posted */
+  "job.created": { job: Job };
+  /** A tracked job moved to another status */
+  "job.statusChanged": { job: Job; previousStatus: JobStatus };
+  /** A new pending proposal arrived on one of your posted jobs */
+  "proposal.received": { proposal: PendingProposal };
+  /** A proposal on a tracked job was accepted (check `proposal.agentId` to see whose) */
+  "proposal.accepted": { proposal: Proposal; job: Job };
+  /** Work was delivered on a tracked job */
+  "delivery.submitted": { delivery: Delivery; job: Job };
+  /** A delivery on a tracked job was approved */
+  "delivery.approved": { delivery: Delivery; job: Job };
+  /** A payment for a tracked job settled */
+  "payment.settled": { payment: Payment; job: Job };
+  /** Someone else sent a message to one of your conversations */
+  "message.received": { message: Message; conversation: Conversation };
+  /** Escrowed funds of a tracked job can now be auto-released to the agent */
+  "escrow.autoReleaseAvailable": { job: Job; escrow: EscrowState };
+}
+
+export type WatchEventType = keyof WatchEventMap;
+
+/** An event of one type */
+export type WatchEventOf<K extends WatchEventType> = {
+  type: K;
+  /** Stable identity, e.g. "job.statusChanged:<jobId>:completed" */
+  id: string;
+  /** When the watcher observed the change */
+  observedAt: string;
+} & WatchEventMap[K];
+
+/** Any event emitted by `sdk.watch()` */
+export type WatchEvent = { [K in WatchEventType]: WatchEventOf<K> }[WatchEventType];
+
+/** Snapshot of one tracked job, persisted in the watch cursor */
+export interface WatchedJobState {
+  status: JobStatus;
+  /** Proposal ID -> status */
+  proposals: Record<string, ProposalStatus>;
+  /** Delivery ID -> approved */
+  deliveries: Record<string, boolean>;
+  /** Payment ID -> status */
+  payments: Record<string, PaymentStatus>;
+  autoReleaseAvailable?: boolean;
+}
+
+/**
+ * Everything the watcher has already seen. Saved after every poll so a
+ * restarted watcher reports only what changed while it was down.
+ */
+export interface WatchCursor {
+  version: 1;
+  /** `createdAt` of the newest open job seen */
+  jobsCreatedAt?: string;
+  /** IDs of open jobs created exactly at `jobsCreatedAt` */
+  jobsAtCursor: string[];
+  /** Tracked job ID -> snapshot */
+  jobs: Record<string, WatchedJobState>;
+  /** Job IDs tracked with `watcher.track()` or `WatchOptions.jobIds` */
+  tracked: string[];
+  /** Pending proposals on your posted jobs */
+  pendingProposals: string[];
+  /** Conversation ID -> `createdAt` of the newest message seen */
+  conversations: Record<string, string>;
+  updatedAt?: string;
+}
+
+/** Where a watcher keeps its cursor between restarts */
+export interface WatchCursorStore {
+  load(): Promise<WatchCursor | undefined>;
+  save(cursor: WatchCursor): Promise<void>;
+}
+
+export interface WatchOptions {
+  /** Milliseconds between polls (default: 30000) */
+  intervalMs?: number;
+  /** Only poll for these events (default: all). Endpoints none of them need are skipped. */
+  events?: WatchEventType[];
+  /** Extra jobs to track besides your posted jobs, e.g. jobs your agent bid on */
+  jobIds?: string[];
+  /** Persist the cursor here to dedupe across restarts (default: in memory) */
+  store?: WatchCursorStore;
+  /**
+   * Report what already exists on the very first poll (default: false: the
+   * first poll only records a baseline)
+   */
+  emitInitial?: boolean;
+  /** Open jobs requested per page when looking for new jobs (default: 50) */
+  pageSize?: number;
+  /**
+   * Called with poll and listener failures, after any `"error"` listeners.
+   * Failures with neither are dropped.
+   */
+  onError?: (error: unknown) => void | Promise<void>;
+  /** Stops the watcher when aborted */
+  signal?: AbortSignal;
+}
+
 // ============================================
 // Error Types
 // ============================================
 
+/** Request context and server metadata attached to SDK errors */
+export interface SDKErrorDetails {
+  /** HTTP method of the failed request */
+  method?: string;
+  /** API path of the failed request */
+  path?: string;
+  /** Machine-readable error code from the server body, if any */
+  code?: string;
+  /** Parsed error body */
+  response?: unknown;
+  /** Whether repeating the request may succeed */
+  isRetryable?: boolean;
+  /** Underlying error (e.g. the fetch failure) */
+  cause?: unknown;
+}
+
 export class SDKError extends Error {
+  public method?: string;
+  public path?: string;
+  public code?: string;
+  public isRetryable: boolean;
+
   constructor(
     message: string,
     public statusCode: number,
-    public response?: unknown
+    public response?: unknown,
+    details: SDKErrorDetails = {}
   ) {
-    super(message);
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
     this.name = "SDKError";
+    this.method = details.method;
+    this.path = details.path;
+    this.code = details.code;
+    this.isRetryable = details.isRetryable ?? false;
   }
 }
 
 export class AuthenticationError extends SDKError {
-  constructor(message: string = "Authentication required") {
-    super(message, 401);
+  constructor(message: string = "Authentication required", details: SDKErrorDetails = {}) {
+    super(message, 401, details.response, details);
     this.name = "AuthenticationError";
   }
 }
 
 export class AuthorizationError extends SDKError {
-  constructor(message: string = "Not authorized") {
-    super(message, 403);
+  constructor(message: string = "Not authorized", details: SDKErrorDetails = {}) {
+    super(message, 403, details.response, details);
     this.name = "AuthorizationError";
   }
 }
 
 export class NotFoundError extends SDKError {
-  constructor(message: string = "Resource not found") {
-    super(message, 404);
+  constructor(message: string = "Resource not found", details: SDKErrorDetails = {}) {
+    super(message, 404, details.response, details);
     this.name = "NotFoundError";
   }
 }
 
 export class ValidationError extends SDKError {
-  constructor(message: string = "Validation failed") {
-    super(message, 400);
+  constructor(message: string = "Validation failed", details: SDKErrorDetails = {}) {
+    super(message, 400, details.response, details);
     this.name = "ValidationError";
   }
 }
+
+/** 402 - the endpoint is x402-gated and requires payment */
+export class PaymentRequiredError extends SDKError {
+  constructor(
+    message: string = "Payment required",
+    public requirements?: X402PaymentRequired,
+    details: SDKErrorDetails = {}
+  ) {
+    super(message, 402, details.response, details);
+    this.name = "PaymentRequiredError";
+  }
+}
+
+/** 409 - the request conflicts with current state (e.g. a duplicate proposal) */
+export class ConflictError extends SDKError {
+  constructor(message: string = "Conflict", details: SDKErrorDetails = {}) {
+    super(message, 409, details.response, details);
+    this.name = "ConflictError";
+  }
+}
+
+/** 429 - rate limited; `retryAfterMs` is parsed from the Retry-After header */
+export class RateLimitError extends SDKError {
+  constructor(
+    message: string = "Too many requests",
+    public retryAfterMs?: number,
+    details: SDKErrorDetails = {}
+  ) {
+    super(message, 429, details.response, { isRetryable: true, ...details });
+    this.name = "RateLimitError";
+  }
+}
+
+/** 5xx - the server failed to handle the request */
+export class ServerError extends SDKError {
+  constructor(message: string = "Server error", statusCode: number = 500, details: SDKErrorDetails = {}) {
+    super(message, statusCode, details.response, { isRetryable: statusCode !== 501, ...details });
+    this.name = "ServerError";
+  }
+}
+
+/** The request never produced a response (DNS, connection reset, ...) */
+export class NetworkError extends SDKError {
+  constructor(message: string = "Network error", details: SDKErrorDetails = {}) {
+    super(message, 0, details.response, { isRetryable: true, ...details });
+    this.name = "NetworkError";
+  }
+}
+
+/** The request timed out (client-side timeout or HTTP 408) */
+export class TimeoutError extends SDKError {
+  constructor(message: string = "Request timeout", details: SDKErrorDetails = {}) {
+    super(message, 408, details.response, { isRetryable: true, ...details });
+    this.name = "TimeoutError";
+  }
+}
+
+/** The API returned data that does not match the expected schema */
+export class ResponseValidationError extends SDKError {
+  constructor(
+    message: string,
+    public schema: string,
+    public issues: ValidationIssue[],
+    details: SDKErrorDetails = {}
+  ) {
+    super(message, 0, details.response, details);
+    this.name = "ResponseValidationError";
+  }
+}
+
+/** A replayed request has no matching interaction in the cassette */
+export class CassetteMismatchError extends SDKError {
+  constructor(message: string, details: SDKErrorDetails = {}) {
+    super(message, 0, details.response, { code: "CASSETTE_MISMATCH", ...details });
+    this.name = "CassetteMismatchError";
+  }
+}
+
+/** The sign-in message failed verification; nothing was signed */
+export class SignInMessageError extends SDKError {
+  constructor(
+    message: string,
+    /** Message field that failed (e.g. "domain", "chainId") */
+    public field: string,
+    details: SDKErrorDetails = {}
+  ) {
+    super(message, 0, details.response, { code: "SIGN_IN_MESSAGE_REJECTED", ...details });
+    this.name = "SignInMessageError";
+  }
+}
+
+/** A signing request broke the spending policy; nothing was signed */
+export class PolicyViolationError extends SDKError {
+  constructor(
+    message: string,
+    /** Policy rule that was violated */
+    public rule: PolicyRule,
+    details: SDKErrorDetails = {}
+  ) {
+    super(message, 0, details.response, { code: "POLICY_VIOLATION", ...details });
+    this.name = "PolicyViolationError";
+  }
+}
+
+/** A payment was denied by the approver or not approved in time; nothing was signed */
+export class PaymentApprovalError extends SDKError {
+  constructor(
+    message: string,
+    public reason: "denied" | "timeout",
+    public request: PaymentApprovalRequest,
+    details: SDKErrorDetails = {}
+  ) {
+    super(message, 0, details.response, {
+      code: reason === "timeout" ? "PAYMENT_APPROVAL_TIMEOUT" : "PAYMENT_DENIED",
+      ...details,
+    });
+    this.name = "PaymentApprovalError";
+  }
+}
+
+/** A keystore could not be read, or the password does not decrypt it */
+export class KeystoreError extends SDKError {
+  constructor(
+    message: string,
+    public reason: "invalid" | "password",
+    details: SDKErrorDetails = {}
+  ) {
+    super(message, 0, details.response, {
+      code: reason === "password" ? "KEYSTORE_WRONG_PASSWORD" : "KEYSTORE_INVALID",
+      ...details,
+    });
+    this.name = "KeystoreError";
+  }
+}
+
+export type SignerErrorReason =
+  | "rejected"
+  | "unauthorized"
+  | "unsupported"
+  | "invalid_params"
+  | "invalid_signature"
+  | "unavailable"
+  | "failed";
+
+/** A signer refused a request, could not be reached, or produced a signature that does not verify */
+export class SignerError extends SDKError {
+  constructor(
+    message: string,
+    public reason: SignerErrorReason,
+    /** JSON-RPC error code returned by the signer, if any */
+    public rpcCode?: number,
+    details: SDKErrorDetails = {}
+  ) {
+    super(message, 0, details.response, {
+      code: `SIGNER_${reason.toUpperCase()}`,
+      isRetryable: reason === "unavailable",
+      ...details,
+    });
+    this.name = "SignerError";
+  }
+}
+
+/** `all()` would collect more items than its cap; iterate instead, or set `maxItems` */
+export class PaginationLimitError extends SDKError {
+  constructor(
+    message: string,
+    public cap: number,
+    details: SDKErrorDetails = {}
+  ) {
+    super(message, 0, details.response, { code: "PAGINATION_LIMIT", ...details });
+    this.name = "PaginationLimitError";
+  }
+}
@@ -44,7 +44,7 @@ function isOutdated(current: string, latest: string): boolean {
   return false;
 }
 
-async function getCurrentVersionFromPackageJson(): Promise<string | null> {
+export async function getCurrentVersionFromPackageJson(): Promise<string | null> {
   try {
     const [{ readFile }, pathMod, urlMod] = await Promise.all([
       import("node:fs/promises"),
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MDPAgentSDK } from "./index.js";
+import { createMockMdpServer } from "./mock.js";
+import { ResponseValidationError } from "./types.js";
+import type { Job, SDKConfig } from "./types.js";
+
+const KEY = `0x${"11".repeat(32)}` as const;
+
+/** A mock server holding two jobs, then corrupted the way a drifting API might */
+async function driftingServer() {
+  const server = createMockMdpServer();
+  const poster = await MDPAgentSDK.createWithPrivateKey(server.config(), KEY);
+  const jobs: Job[] = [];
+  for (const title of ["First", "Second"]) {
+    jobs.push(
+      await poster.jobs.create({
+        title,
+        description: "A job",
+        requiredSkills: ["writing"],
+        budgetUSDC: 10,
+        acceptanceCriteria: "Done",
+      })
+    );
+  }
+  for (const job of server.state.jobs.values()) {
+    Object.assign(job, { budgetUSDC: "ten" });
+  }
+  const sdk = (validation: SDKConfig["validation"]) => new MDPAgentSDK(server.config({ validation }));
+  return { server, jobs, sdk };
+}
+
+describe("response validation", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("throws ResponseValidationError in strict mode", async () => {
+    const { jobs, sdk } = await driftingServer();
+    const error = await sdk("strict").jobs.get(jobs[0]!.id).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    const drift = error as ResponseValidationError;
+    expect(drift.schema).toBe("Job");
+    expect(drift.issues).toEqual([{ path: "budgetUSDC", expected: "number", received: 'string "ten"' }]);
+    expect(drift.method).toBe("GET");
+    expect(drift.path).toBe("/api/jobs/:id");
+    expect(drift.message).toContain("budgetUSDC: expected number");
+  });
+
+  it("returns the data and reports drift in lenient mode", async () => {
+    const { jobs, sdk } = await driftingServer();
+    const onDrift = vi.fn();
+    const job = await sdk({ mode: "lenient", onDrift }).jobs.get(jobs[0]!.id);
+
+    expect(job.budgetUSDC).toBe("ten");
+    expect(onDrift).toHaveBeenCalledOnce();
+    expect(onDrift.mock.calls[0]![0]).toBeInstanceOf(ResponseValidationError);
+  });
+
+  it("warns once per distinct issue by default", async () => {
+    const { server, jobs, sdk } = await driftingServer();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const client = sdk(undefined);
+
+    await client.jobs.get(jobs[0]!.id);
+    await client.jobs.get(jobs[1]!.id);
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn.mock.calls[0]![0]).toContain("budgetUSDC");
+
+    Object.assign(server.state.jobs.get(jobs[0]!.id)!, { requiredSkills: "writing" });
+    await client.jobs.get(jobs[0]!.id);
+    expect(warn).toHaveBeenCalledTimes(2);
+
+    // Every item of a list with the same drift counts as one issue
+    await client.jobs.list();
+    await client.jobs.list();
+    expect(warn).toHaveBeenCalledTimes(3);
+  });
+
+  it("skips validation when off", async () => {
+    const { jobs, sdk } = await driftingServer();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const client = sdk("off");
+
+    expect((await client.jobs.get(jobs[0]!.id)).budgetUSDC).toBe("ten");
+    expect(await client.jobs.list()).toHaveLength(2);
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
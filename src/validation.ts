@@ -0,0 +1,453 @@
+// ============================================
+// Response Validation - Runtime schemas
+// ============================================
+
+import { ResponseValidationError } from "./types.js";
+import type {
+  Agent,
+  Conversation,
+  Delivery,
+  EscrowState,
+  Job,
+  ListResponse,
+  Message,
+  Payment,
+  PendingProposal,
+  Proposal,
+  Rating,
+  User,
+  ValidationConfig,
+  ValidationIssue,
+  ValidationMode,
+} from "./types.js";
+
+/**
+ * A runtime schema. Schemas only check values; they never transform them.
+ * Object schemas allow unknown extra keys so additive server changes pass.
+ */
+export interface Schema<T> {
+  /** Human-readable description of the expected value */
+  readonly name: string;
+  /** Append an issue for every mismatch found at `path` */
+  check(value: unknown, path: string, issues: ValidationIssue[]): void;
+  /** Phantom field carrying the validated type */
+  readonly __type?: T;
+}
+
+// ============================================
+// Schema Builders
+// ============================================
+
+export function string(): Schema<string> {
+  return primitive("string", (v) => typeof v === "string");
+}
+
+export function number(): Schema<number> {
+  return primitive("number", (v) => typeof v === "number" && Number.isFinite(v));
+}
+
+export function boolean(): Schema<boolean> {
+  return primitive("boolean", (v) => typeof v === "boolean");
+}
+
+export function unknown(): Schema<unknown> {
+  return primitive("unknown", () => true);
+}
+
+/** One of a fixed set of string literals */
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return primitive(values.map((v) => JSON.stringify(v)).join(" | "), (v) =>
+    values.includes(v as T)
+  );
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    name: `${item.name}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push(issue(path, `${item.name}[]`, value));
+        return;
+      }
+      value.forEach((entry, i) => item.check(entry, `${path}[${i}]`, issues));
+    },
+  };
+}
+
+/** Field may be absent or null */
+export function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return {
+    name: `${inner.name}?`,
+    check(value, path, issues) {
+      if (value === undefined || value === null) return;
+      inner.check(value, path, issues);
+    },
+  };
+}
+
+/** Field must be present but may be null */
+export function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return {
+    name: `${inner.name} | null`,
+    check(value, path, issues) {
+      if (value === null) return;
+      inner.check(value, path, issues);
+    },
+  };
+}
+
+export function record(): Schema<Record<string, unknown>> {
+  return primitive("object", isPlainObject);
+}
+
+export function object<T>(
+  name: string,
+  shape: Record<string, Schema<unknown>>,
+  extend?: Schema<unknown>
+): Schema<T> {
+  return {
+    name,
+    check(value, path, issues) {
+      if (!isPlainObject(value)) {
+        issues.push(issue(path, name, value));
+        return;
+      }
+      extend?.check(value, path, issues);
+      for (const [key, field] of Object.entries(shape)) {
+        field.check(value[key], path ? `${path}.${key}` : key, issues);
+      }
+    },
+  };
+}
+
+/**
+ * Check `value` against `schema` and return all issues (empty when valid)
+ */
+export function validate<T>(value: unknown, schema: Schema<T>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  schema.check(value, "", issues);
+  return issues;
+}
+
+// ============================================
+// Entity Schemas
+// ============================================
+
+export const UserSchema = object<User>("User", {
+  id: string(),
+  wallet: string(),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+export const AgentSchema = object<Agent>("Agent", {
+  id: string(),
+  ownerId: optional(string()),
+  ownerWallet: optional(string()),
+  name: string(),
+  description: string(),
+  skillMdUrl: optional(string()),
+  skillMdContent: optional(string()),
+  pricingModel: oneOf(["hourly", "fixed", "negotiable"] as const),
+  hourlyRate: optional(number()),
+  tags: array(string()),
+  constraints: optional(string()),
+  avatarUrl: optional(string()),
+  verified: boolean(),
+  createdAt: string(),
+  updatedAt: string(),
+  eip8004AgentWallet: optional(string()),
+  eip8004Active: optional(boolean()),
+  hasSkillMd: optional(boolean()),
+});
+
+export const JobSchema = object<Job>("Job", {
+  id: string(),
+  posterId: string(),
+  title: string(),
+  description: string(),
+  requiredSkills: array(string()),
+  budgetUSDC: number(),
+  deadline: optional(string()),
+  acceptanceCriteria: string(),
+  attachments: optional(array(string())),
+  status: oneOf(["open", "funded", "in_progress", "completed", "cancelled"] as const),
+  createdAt: string(),
+  updatedAt: string(),
+  poster: optional(UserSchema),
+});
+
+export const ProposalSchema = object<Proposal>("Proposal", {
+  id: string(),
+  jobId: string(),
+  agentId: string(),
+  plan: string(),
+  estimatedCostUSDC: number(),
+  eta: string(),
+  status: oneOf(["pending", "accepted", "rejected", "withdrawn"] as const),
+  createdAt: string(),
+  updatedAt: string(),
+  agentName: optional(string()),
+  agentWallet: optional(string()),
+  agentVerified: optional(boolean()),
+  agent: optional(AgentSchema),
+  job: optional(JobSchema),
+});
+
+export const PendingProposalSchema = object<PendingProposal>(
+  "PendingProposal",
+  {
+    jobTitle: optional(string()),
+    jobStatus: optional(string()),
+  },
+  ProposalSchema
+);
+
+export const DeliverySchema = object<Delivery>("Delivery", {
+  id: string(),
+  proposalId: string(),
+  artifacts: array(string()),
+  summary: string(),
+  submittedAt: string(),
+  approvedAt: optional(string()),
+  createdAt: string(),
+  proposal: optional(ProposalSchema),
+});
+
+export const PaymentSchema = object<Payment>("Payment", {
+  id: string(),
+  jobId: string(),
+  proposalId: optional(string()),
+  payerWallet: string(),
+  payeeWallet: string(),
+  amountUSDC: number(),
+  x402TxHash: optional(string()),
+  x402Receipt: optional(record()),
+  status: oneOf(["pending", "settling", "settled", "failed"] as const),
+  settledAt: optional(string()),
+  createdAt: string(),
+});
+
+export const RatingSchema = object<Rating>("Rating", {
+  id: string(),
+  raterId: string(),
+  agentId: string(),
+  jobId: string(),
+  score: number(),
+  comment: optional(string()),
+  createdAt: string(),
+  rater: optional(UserSchema),
+  job: optional(JobSchema),
+});
+
+export const MessageSchema = object<Message>("Message", {
+  id: string(),
+  conversationId: string(),
+  senderUserId: string(),
+  body: string(),
+  createdAt: string(),
+});
+
+export const ConversationSchema = object<Conversation>("Conversation", {
+  id: string(),
+  type: string(),
+  updatedAt: string(),
+  other: nullable(object("ConversationOther", { id: string(), wallet: string() })),
+  lastReadAt: nullable(string()),
+  unreadCount: number(),
+  lastMessage: nullable(
+    object("ConversationLastMessage", {
+      senderUserId: string(),
+      body: string(),
+      createdAt: string(),
+    })
+  ),
+});
+
+export const EscrowStateSchema = object<EscrowState>("EscrowState", {
+  usingContract: boolean(),
+  escrowContract: optional(string()),
+  rpcUrl: optional(string()),
+  rpcFallbackUrls: optional(array(string())),
+  chainId: number(),
+  jobId: string(),
+  jobKey: optional(string()),
+  escrow: optional(record()),
+  computed: optional(
+    object("EscrowComputed", {
+      acceptDeadlineSeconds: number(),
+      autoReleaseDelaySeconds: number(),
+      acceptDeadlineAt: string(),
+      autoReleaseAt: string(),
+      canAutoRelease: boolean(),
+      canRefundExpired: boolean(),
+    })
+  ),
+});
+
+/** Envelope metadata that may accompany list responses (`ListResponse`) */
+export const ListMetaSchema = object<{ total?: number; limit?: number; offset?: number }>(
+  "ListResponse",
+  {
+    total: optional(number()),
+    limit: optional(number()),
+    offset: optional(number()),
+  }
+);
+
+// ============================================
+// Response Validator
+// ============================================
+
+/**
+ * Unwraps response envelopes and validates their contents according to the
+ * configured ValidationMode. Shared by all modules through HttpClient.
+ */
+export class ResponseValidator {
+  readonly mode: ValidationMode;
+  private onDrift: (error: ResponseValidationError) => void;
+  private reported = new Set<string>();
+
+  constructor(config?: ValidationMode | ValidationConfig) {
+    const resolved = typeof config === "string" ? { mode: config } : config ?? {};
+    this.mode = resolved.mode ?? "lenient";
+    this.onDrift = resolved.onDrift ?? ((error) => this.warnOnce(error));
+  }
+
+  /**
+   * Unwrap a list envelope (`{ items }` or `{ <key> }`) and validate each entry
+   * @param response - Raw response body
+   * @param schema - Schema for a single entry
+   * @param key - Resource-specific envelope key (e.g. "jobs")
+   * @param source - Request description for error messages (e.g. "GET /api/jobs")
+   */
+  list<T>(response: unknown, schema: Schema<T>, key: string, source: string): T[] {
+    const envelope = isPlainObject(response) ? response : undefined;
+    const items = Array.isArray(envelope?.items)
+      ? envelope.items
+      : Array.isArray(envelope?.[key])
+        ? envelope[key]
+        : undefined;
+
+    if (!items) {
+      this.report(source, `{ items: ${schema.name}[] }`, [
+        issue("", `{ items | ${key}: ${schema.name}[] }`, response),
+      ], response);
+      return [];
+    }
+
+    const issues = this.mode === "off" ? [] : validate(items, array(schema));
+    if (envelope && this.mode !== "off") {
+      ListMetaSchema.check(envelope, "", issues);
+    }
+    this.report(source, `${schema.name}[]`, issues, response);
+    return items as T[];
+  }
+
+  /**
+   * Like list(), but also returns the envelope's pagination metadata (`total`, ...)
+   * when the API sends it
+   */
+  page<T>(response: unknown, schema: Schema<T>, key: string, source: string): ListResponse<T> {
+    const items = this.list(response, schema, key, source);
+    const envelope = isPlainObject(response) ? response : {};
+    const meta = (field: string) =>
+      typeof envelope[field] === "number" ? (envelope[field] as number) : undefined;
+    return { items, total: meta("total"), limit: meta("limit"), offset: meta("offset") };
+  }
+
+  /**
+   * Unwrap an item envelope (`{ item }` or `{ <key> }`, else the body itself) and validate it
+   * @param response - Raw response body
+   * @param schema - Schema for the item
+   * @param key - Resource-specific envelope key (e.g. "job")
+   * @param source - Request description for error messages
+   */
+  item<T>(response: unknown, schema: Schema<T>, key: string, source: string): T {
+    const envelope = isPlainObject(response) ? response : undefined;
+    const item = envelope?.item ?? envelope?.[key] ?? response;
+    return this.value(item, schema, source);
+  }
+
+  /**
+   * Validate an un-enveloped response body
+   */
+  value<T>(response: unknown, schema: Schema<T>, source: string): T {
+    if (this.mode !== "off") {
+      this.report(source, schema.name, validate(response, schema), response);
+    }
+    return response as T;
+  }
+
+  private report(
+    source: string,
+    schemaName: string,
+    issues: ValidationIssue[],
+    response: unknown
+  ): void {
+    if (issues.length === 0 || this.mode === "off") return;
+
+    const [method, path] = source.split(" ");
+    const summary = issues
+      .slice(0, 5)
+      .map((i) => `${i.path || "<root>"}: expected ${i.expected}, received ${i.received}`)
+      .join("; ");
+    const more = issues.length > 5 ? ` (+${issues.length - 5} more)` : "";
+    const error = new ResponseValidationError(
+      `Unexpected response from ${source} (${schemaName}): ${summary}${more}`,
+      schemaName,
+      issues,
+      { method, path, response }
+    );
+
+    if (this.mode === "strict") throw error;
+    try {
+      this.onDrift(error);
+    } catch {
+      // A failing observer must not break the request
+    }
+  }
+
+  private warnOnce(error: ResponseValidationError): void {
+    const key = `${error.method} ${error.path} ${error.issues
+      .map((i) => `${i.path.replace(/\[\d+\]/g, "[]")}:${i.expected}`)
+      .join(",")}`;
+    if (this.reported.has(key)) return;
+    this.reported.add(key);
+    // eslint-disable-next-line no-console
+    console.warn(`[mdp-sdk] ${error.message}`);
+  }
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+function primitive<T>(name: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    name,
+    check(value, path, issues) {
+      if (!test(value)) issues.push(issue(path, name, value));
+    },
+  };
+}
+
+function issue(path: string, expected: string, value: unknown): ValidationIssue {
+  return { path, expected, received: describe(value) };
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") {
+    return value.length > 32 ? `string "${value.slice(0, 32)}..."` : `string "${value}"`;
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return `${typeof value} ${String(value)}`;
+  }
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { MDPAgentSDK } from "./index.js";
+import { createMockMdpServer } from "./mock.js";
+import type { WatchEvent } from "./types.js";
+
+const KEYS = [`0x${"11".repeat(32)}`, `0x${"22".repeat(32)}`] as const;
+
+describe("Watcher", () => {
+  it("reports listener failures to onError", async () => {
+    const server = createMockMdpServer();
+    const sdk = await MDPAgentSDK.createWithPrivateKey(server.config(), KEYS[0]);
+    await sdk.jobs.create({
+      title: "Existing",
+      description: "Already open",
+      requiredSkills: ["x"],
+      budgetUSDC: 5,
+      acceptanceCriteria: "done",
+    });
+
+    const errors: unknown[] = [];
+    const watcher = sdk.watch({
+      events: ["job.created"],
+      emitInitial: true,
+      onError: (error) => {
+        errors.push(error);
+      },
+    });
+    watcher.on("job.created", () => {
+      throw new Error("handler failed");
+    });
+    await watcher.poll();
+
+    expect(errors).toHaveLength(1);
+    expect((errors[0] as Error).message).toBe("handler failed");
+  });
+
+  it("reads a newly seen conversation only from the last poll on", async () => {
+    const server = createMockMdpServer();
+    const me = await MDPAgentSDK.createWithPrivateKey(server.config(), KEYS[0]);
+    const other = await MDPAgentSDK.createWithPrivateKey(server.config(), KEYS[1]);
+    const watcher = me.watch({ events: ["message.received"] });
+    await watcher.poll();
+
+    // History dated before the last poll, e.g. a conversation the list only now returns
+    server.advanceTime(-3_600_000);
+    const conversationId = await other.messages.createDm({ toWallet: (await me.auth.me()).wallet });
+    await other.messages.sendMessage(conversationId, "old news");
+    server.advanceTime(3_600_000 + 1_000);
+    await other.messages.sendMessage(conversationId, "hello");
+
+    const events = (await watcher.poll()) as Extract<WatchEvent, { type: "message.received" }>[];
+    expect(events.map((e) => e.message.body)).toEqual(["hello"]);
+  });
+});
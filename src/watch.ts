@@ -0,0 +1,544 @@
+// ============================================
+// Watch - Polling turned into a change stream
+// ============================================
+
+import type { MDPAgentSDK } from "./index.js";
+import { AuthorizationError, NotFoundError } from "./types.js";
+import type {
+  CallOptions,
+  Job,
+  JobStatus,
+  WatchCursor,
+  WatchCursorStore,
+  WatchedJobState,
+  WatchEvent,
+  WatchEventMap,
+  WatchEventOf,
+  WatchEventType,
+  WatchOptions,
+} from "./types.js";
+
+const DEFAULT_INTERVAL_MS = 30_000;
+const DEFAULT_PAGE_SIZE = 50;
+
+const ALL_EVENTS: WatchEventType[] = [
+  "job.created",
+  "job.statusChanged",
+  "proposal.received",
+  "proposal.accepted",
+  "delivery.submitted",
+  "delivery.approved",
+  "payment.settled",
+  "message.received",
+  "escrow.autoReleaseAvailable",
+];
+
+/** Statuses in which a job can still change besides its status */
+const ACTIVE_STATUSES: JobStatus[] = ["open", "funded", "in_progress"];
+
+type Listener<T> = (event: T) => void | Promise<void>;
+
+type Emit = <K extends WatchEventType>(type: K, id: string, payload: WatchEventMap[K]) => void;
+
+/** Cursor of a watcher that has seen nothing yet */
+export function emptyWatchCursor(): WatchCursor {
+  return {
+    version: 1,
+    jobsAtCursor: [],
+    jobs: {},
+    tracked: [],
+    pendingProposals: [],
+    conversations: {},
+  };
+}
+
+/**
+ * Keeps the cursor for the lifetime of the process (the default)
+ */
+export class MemoryWatchCursorStore implements WatchCursorStore {
+  private cursor?: WatchCursor;
+
+  async load(): Promise<WatchCursor | undefined> {
+    return this.cursor && structuredClone(this.cursor);
+  }
+
+  async save(cursor: WatchCursor): Promise<void> {
+    this.cursor = structuredClone(cursor);
+  }
+}
+
+/**
+ * Stores the cursor as JSON in a file readable only by the owner (0600), so a
+ * restarted watcher does not report the same changes again.
+ */
+export class FileWatchCursorStore implements WatchCursorStore {
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path - File holding the cursor (created on first save)
+   */
+  constructor(private readonly path: string) {}
+
+  async load(): Promise<WatchCursor | undefined> {
+    await this.writes;
+    const { readFile } = await import("node:fs/promises");
+    try {
+      return JSON.parse(await readFile(this.path, "utf8")) as WatchCursor;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  /** Write-then-rename, serialized so a crash never leaves a truncated file */
+  async save(cursor: WatchCursor): Promise<void> {
+    const run = this.writes.then(async () => {
+      const [{ writeFile, rename, mkdir }, { dirname }] = await Promise.all([
+        import("node:fs/promises"),
+        import("node:path"),
+      ]);
+      await mkdir(dirname(this.path), { recursive: true });
+      const temp = `${this.path}.${process.pid}.tmp`;
+      await writeFile(temp, `${JSON.stringify(cursor, null, 2)}\n`, { mode: 0o600 });
+      await rename(temp, this.path);
+    });
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * Polls the MDP API and emits typed events for what changed since the last
+ * poll. Create one with `sdk.watch()`.
+ *
+ * Watched: new open jobs; status, proposals, deliveries, payments and escrow
+ * of your posted jobs plus any job passed to `track()`; pending proposals on
+ * your jobs; and new messages in your conversations. Only the endpoints the
+ * requested `events` need are polled, and per-job endpoints only while a job
+ * is active.
+ *
+ * Delivery is at least once: the cursor is saved after listeners have run,
+ * so a crash mid-poll repeats that poll's events. Use `event.id` to make
+ * handlers idempotent.
+ *
+ * ```ts
+ * const watcher = sdk.watch({ store: new FileWatchCursorStore(".mdp/watch.json") });
+ * watcher.on("proposal.received", ({ proposal }) => review(proposal));
+ * watcher.start();
+ *
+ * for await (const event of sdk.watch({ events: ["job.created"] })) {
+ *   if (event.type === "job.created") await consider(event.job);
+ * }
+ * ```
+ */
+export class Watcher implements AsyncIterable<WatchEvent> {
+  private listeners = new Map<string, Set<Listener<unknown>>>();
+  private closers = new Set<() => void>();
+  private wanted: Set<WatchEventType>;
+  private store: WatchCursorStore;
+  private tracked: Set<string>;
+  private untracked = new Set<string>();
+  private cursor?: WatchCursor;
+  private userId?: string;
+  private timer?: ReturnType<typeof setTimeout>;
+  private polling?: Promise<WatchEvent[]>;
+  private active = false;
+
+  constructor(
+    private readonly sdk: MDPAgentSDK,
+    private readonly options: WatchOptions = {}
+  ) {
+    this.wanted = new Set(options.events ?? ALL_EVENTS);
+    this.store = options.store ?? new MemoryWatchCursorStore();
+    this.tracked = new Set(options.jobIds);
+    options.signal?.addEventListener("abort", () => this.stop(), { once: true });
+  }
+
+  /** Whether the watcher is polling on its interval */
+  get running(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Subscribe to one event type, every event (`"*"`), or poll and listener
+   * failures (`"error"`). Returns a function that unsubscribes.
+   */
+  on<K extends WatchEventType>(type: K, listener: Listener<WatchEventOf<K>>): () => void;
+  on(type: "*", listener: Listener<WatchEvent>): () => void;
+  on(type: "error", listener: Listener<unknown>): () => void;
+  on(type: string, listener: Listener<never>): () => void {
+    const set = this.listeners.get(type) ?? new Set();
+    set.add(listener as Listener<unknown>);
+    this.listeners.set(type, set);
+    return () => this.off(type, listener);
+  }
+
+  off(type: string, listener: Listener<never>): void {
+    this.listeners.get(type)?.delete(listener as Listener<unknown>);
+  }
+
+  /** Poll now and then every `intervalMs` until stopped */
+  start(): this {
+    if (this.active || this.options.signal?.aborted) return this;
+    this.active = true;
+
+    const tick = async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        await this.report(error);
+      }
+      if (this.active) {
+        this.timer = setTimeout(tick, this.options.intervalMs ?? DEFAULT_INTERVAL_MS);
+      }
+    };
+    void tick();
+    return this;
+  }
+
+  /** Stop polling and end every async iteration over this watcher */
+  stop(): void {
+    this.active = false;
+    clearTimeout(this.timer);
+    for (const close of [...this.closers]) close();
+  }
+
+  /** Watch a job you did not post, e.g. one your agent bid on */
+  track(jobId: string): void {
+    this.untracked.delete(jobId);
+    this.tracked.add(jobId);
+  }
+
+  /** Stop watching a job added with `track()` */
+  untrack(jobId: string): void {
+    this.tracked.delete(jobId);
+    this.untracked.add(jobId);
+  }
+
+  /**
+   * Poll once, dispatch the events to listeners and save the cursor.
+   * Concurrent calls share the poll in flight.
+   * @returns The events of this poll
+   */
+  poll(): Promise<WatchEvent[]> {
+    this.polling ??= this.runPoll().finally(() => {
+      this.polling = undefined;
+    });
+    return this.polling;
+  }
+
+  /**
+   * Iterate events as they arrive. Starts the watcher if it is not running,
+   * and stops it again when the last such loop ends.
+   */
+  [Symbol.asyncIterator](): AsyncIterator<WatchEvent> {
+    const queue: WatchEvent[] = [];
+    let wake: (() => void) | undefined;
+    let done = false;
+
+    const unsubscribe = this.on("*", (event) => {
+      queue.push(event);
+      wake?.();
+    });
+    const close = () => {
+      done = true;
+      unsubscribe();
+      this.closers.delete(close);
+      wake?.();
+    };
+    this.closers.add(close);
+    if (this.options.signal?.aborted) close();
+
+    const startedHere = !this.active;
+    this.start();
+
+    return {
+      next: async () => {
+        while (queue.length === 0 && !done) {
+          await new Promise<void>((resolve) => (wake = resolve));
+          wake = undefined;
+        }
+        const event = queue.shift();
+        return event ? { value: event, done: false } : { value: undefined, done: true };
+      },
+      return: async () => {
+        close();
+        if (startedHere && this.closers.size === 0) this.stop();
+        return { value: undefined, done: true };
+      },
+    };
+  }
+
+  private async runPoll(): Promise<WatchEvent[]> {
+    this.cursor ??= (await this.store.load()) ?? emptyWatchCursor();
+    // Work on a copy: a failed poll must not advance the cursor
+    const cursor = structuredClone(this.cursor);
+    cursor.tracked = [...new Set([...cursor.tracked, ...this.tracked])].filter(
+      (id) => !this.untracked.has(id)
+    );
+
+    // The very first poll records a baseline unless told to report it
+    const baseline = !cursor.updatedAt && !this.options.emitInitial;
+    const observedAt = new Date().toISOString();
+    const events: WatchEvent[] = [];
+    const emit = <K extends WatchEventType>(type: K, id: string, payload: WatchEventMap[K]) => {
+      if (baseline || !this.wanted.has(type)) return;
+      events.push({ type, id, observedAt, ...payload } as WatchEvent);
+    };
+    const wants = (...types: WatchEventType[]) => types.some((t) => this.wanted.has(t));
+    const callOptions: CallOptions = { signal: this.options.signal };
+    const authenticated = this.sdk.auth.isAuthenticated();
+
+    if (wants("job.created")) {
+      await this.pollNewJobs(cursor, baseline, emit, callOptions);
+    }
+    if (
+      wants(
+        "job.statusChanged",
+        "proposal.accepted",
+        "delivery.submitted",
+        "delivery.approved",
+        "payment.settled",
+        "escrow.autoReleaseAvailable"
+      )
+    ) {
+      await this.pollTrackedJobs(cursor, authenticated, emit, callOptions);
+    }
+    if (authenticated && wants("proposal.received")) {
+      const pending = await this.sdk.proposals.iteratePending({ status: "pending" }, callOptions).all();
+      const known = new Set(cursor.pendingProposals);
+      for (const proposal of pending) {
+        if (!known.has(proposal.id)) {
+          emit("proposal.received", `proposal.received:${proposal.id}`, { proposal });
+        }
+      }
+      cursor.pendingProposals = pending.map((p) => p.id);
+    }
+    if (authenticated && wants("message.received")) {
+      await this.pollMessages(cursor, baseline, emit, callOptions);
+    }
+
+    for (const event of events) await this.dispatch(event);
+    cursor.updatedAt = observedAt;
+    await this.store.save(cursor);
+    this.cursor = cursor;
+    this.tracked = new Set(cursor.tracked);
+    this.untracked.clear();
+    return events;
+  }
+
+  /** Walk open jobs newest-first until reaching the ones already seen */
+  private async pollNewJobs(
+    cursor: WatchCursor,
+    baseline: boolean,
+    emit: Emit,
+    options: CallOptions
+  ): Promise<void> {
+    const after = cursor.jobsCreatedAt;
+    const seen = new Set(cursor.jobsAtCursor);
+    const fresh: Job[] = [];
+
+    const pageSize = this.options.pageSize ?? DEFAULT_PAGE_SIZE;
+    for await (const job of this.sdk.jobs.iterate({ status: "open" }, { ...options, pageSize })) {
+      if (after && job.createdAt < after) break;
+      if (after && job.createdAt === after && seen.has(job.id)) continue;
+      fresh.push(job);
+      // A baseline only needs the newest job to place the cursor
+      if (baseline && !after) break;
+    }
+
+    for (const job of [...fresh].reverse()) {
+      emit("job.created", `job.created:${job.id}`, { job });
+    }
+
+    const newest = fresh.reduce<string | undefined>(
+      (max, job) => (!max || job.createdAt > max ? job.createdAt : max),
+      after
+    );
+    if (newest && newest !== after) {
+      cursor.jobsCreatedAt = newest;
+      cursor.jobsAtCursor = [];
+    }
+    cursor.jobsAtCursor.push(
+      ...fresh.filter((job) => job.createdAt === cursor.jobsCreatedAt).map((job) => job.id)
+    );
+  }
+
+  /** Diff status, proposals, deliveries, payments and escrow of every tracked job */
+  private async pollTrackedJobs(
+    cursor: WatchCursor,
+    authenticated: boolean,
+    emit: Emit,
+    options: CallOptions
+  ): Promise<void> {
+    const jobs = new Map<string, Job>();
+    if (authenticated) {
+      for await (const job of this.sdk.jobs.iterateMy(options)) jobs.set(job.id, job);
+    }
+    for (const id of cursor.tracked) {
+      if (jobs.has(id)) continue;
+      const job = await this.ignoreMissing(() => this.sdk.jobs.get(id, options));
+      if (job) jobs.set(id, job);
+      else cursor.tracked = cursor.tracked.filter((t) => t !== id);
+    }
+
+    const next: Record<string, WatchedJobState> = {};
+    for (const job of jobs.values()) {
+      const previous = cursor.jobs[job.id];
+      const state: WatchedJobState = previous ?? {
+        status: job.status,
+        proposals: {},
+        deliveries: {},
+        payments: {},
+      };
+      const changed = previous !== undefined && previous.status !== job.status;
+      if (changed) {
+        emit("job.statusChanged", `job.statusChanged:${job.id}:${job.status}`, {
+          job,
+          previousStatus: previous.status,
+        });
+      }
+      state.status = job.status;
+      next[job.id] = state;
+
+      // Finished jobs only need one last look, on the poll that saw them finish
+      if (!ACTIVE_STATUSES.includes(job.status) && !changed) {
+        state.proposals = {};
+        state.deliveries = {};
+        state.payments = {};
+        continue;
+      }
+      await this.pollJobDetails(job, state, changed, authenticated, emit, options);
+    }
+    cursor.jobs = next;
+  }
+
+  private async pollJobDetails(
+    job: Job,
+    state: WatchedJobState,
+    changed: boolean,
+    authenticated: boolean,
+    emit: Emit,
+    options: CallOptions
+  ): Promise<void> {
+    const funded = job.status === "funded" || job.status === "in_progress";
+    const wants = (...types: WatchEventType[]) => types.some((t) => this.wanted.has(t));
+
+    // Proposals are accepted while a job is open; funding moves it on
+    if (job.status === "open" || changed) {
+      const proposals = await this.sdk.proposals.list(job.id, options);
+      for (const proposal of proposals) {
+        if (proposal.status === "accepted" && state.proposals[proposal.id] !== "accepted") {
+          emit("proposal.accepted", `proposal.accepted:${proposal.id}`, { proposal, job });
+        }
+      }
+      state.proposals = Object.fromEntries(proposals.map((p) => [p.id, p.status]));
+    }
+
+    const acceptedId = Object.keys(state.proposals).find((id) => state.proposals[id] === "accepted");
+    const watchDeliveries = wants("delivery.submitted", "delivery.approved", "escrow.autoReleaseAvailable");
+    if (acceptedId && (funded || changed) && watchDeliveries) {
+      for (const delivery of await this.sdk.deliveries.list(acceptedId, options)) {
+        const approved = Boolean(delivery.approvedAt);
+        if (!(delivery.id in state.deliveries)) {
+          emit("delivery.submitted", `delivery.submitted:${delivery.id}`, { delivery, job });
+        }
+        if (approved && !state.deliveries[delivery.id]) {
+          emit("delivery.approved", `delivery.approved:${delivery.id}`, { delivery, job });
+        }
+        state.deliveries[delivery.id] = approved;
+      }
+    }
+
+    // Payments settle around funding: look until none is left in flight
+    const unsettled = Object.values(state.payments).some((s) => s === "pending" || s === "settling");
+    const awaitingFunding = acceptedId !== undefined && job.status === "open";
+    if (authenticated && (changed || awaitingFunding || unsettled) && wants("payment.settled")) {
+      const payments = await this.ignoreMissing(() => this.sdk.payments.list(job.id, options));
+      for (const payment of payments ?? []) {
+        if (payment.status === "settled" && state.payments[payment.id] !== "settled") {
+          emit("payment.settled", `payment.settled:${payment.id}`, { payment, job });
+        }
+        state.payments[payment.id] = payment.status;
+      }
+    }
+
+    // Auto-release only becomes possible once work awaits approval
+    const awaitingApproval = Object.values(state.deliveries).some((approved) => !approved);
+    if (funded && awaitingApproval && wants("escrow.autoReleaseAvailable")) {
+      const escrow = await this.sdk.escrow.get(job.id, options);
+      const available = Boolean(escrow.computed?.canAutoRelease);
+      if (available && !state.autoReleaseAvailable) {
+        emit("escrow.autoReleaseAvailable", `escrow.autoReleaseAvailable:${job.id}`, { job, escrow });
+      }
+      state.autoReleaseAvailable = available;
+    }
+  }
+
+  /** Read conversations whose newest message is newer than the one last seen */
+  private async pollMessages(
+    cursor: WatchCursor,
+    baseline: boolean,
+    emit: Emit,
+    options: CallOptions
+  ): Promise<void> {
+    this.userId ??= (await this.sdk.auth.me(options)).id;
+
+    for (const conversation of await this.sdk.messages.listConversations(options)) {
+      const latest = conversation.lastMessage?.createdAt;
+      if (!latest) continue;
+      const seen = cursor.conversations[conversation.id];
+      cursor.conversations[conversation.id] = latest;
+      if (baseline || (seen && latest <= seen)) continue;
+
+      // A conversation first seen now only needs messages since the last
+      // poll began; with emitInitial, the first poll reports what is unread
+      const since = seen ?? cursor.updatedAt ?? conversation.lastReadAt ?? "";
+      const fresh = [];
+      for await (const message of this.sdk.messages.iterateHistory(conversation.id, options)) {
+        if (message.createdAt <= since) break;
+        fresh.push(message);
+      }
+      for (const message of fresh.reverse()) {
+        if (message.senderUserId === this.userId) continue;
+        emit("message.received", `message.received:${message.id}`, { message, conversation });
+      }
+    }
+  }
+
+  private async dispatch(event: WatchEvent): Promise<void> {
+    const listeners = [
+      ...(this.listeners.get(event.type) ?? []),
+      ...(this.listeners.get("*") ?? []),
+    ];
+    for (const listener of listeners) {
+      try {
+        await listener(event);
+      } catch (error) {
+        await this.report(error);
+      }
+    }
+  }
+
+  private async report(error: unknown): Promise<void> {
+    const listeners = [...(this.listeners.get("error") ?? [])];
+    if (this.options.onError) listeners.push(this.options.onError);
+    for (const listener of listeners) {
+      try {
+        await listener(error);
+      } catch {
+        // An error listener that throws has nowhere left to report to
+      }
+    }
+  }
+
+  /** Resources can disappear or be off-limits to this identity; skip them rather than fail the poll */
+  private async ignoreMissing<T>(fn: () => Promise<T>): Promise<T | undefined> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof AuthorizationError) return undefined;
+      throw error;
+    }
+  }
+}
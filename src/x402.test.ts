@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { MDPAgentSDK } from "./index.js";
+import { createPrivateKeySigner } from "./auth.js";
+import { createMockMdpServer } from "./mock.js";
+import { chainIdFromNetwork } from "./payments.js";
+import { PaymentRequiredError, ServerError } from "./types.js";
+import type { X402PaymentRequirement } from "./types.js";
+
+const KEY = `0x${"11".repeat(32)}` as const;
+
+function requirement(overrides: Partial<X402PaymentRequirement> = {}): X402PaymentRequirement {
+  return {
+    scheme: "exact",
+    network: "base",
+    maxAmountRequired: "10000",
+    resource: "https://mdp.test/api/paid",
+    description: "paid",
+    mimeType: "application/json",
+    payTo: `0x${"22".repeat(20)}`,
+    maxTimeoutSeconds: 60,
+    asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    ...overrides,
+  };
+}
+
+/** A gated endpoint: 402 until paid, then whatever `paidStatus` says */
+function gatedFetch(accepts: X402PaymentRequirement[], paidStatus = 200) {
+  const calls = { total: 0, paid: 0 };
+  const fetchFn = (async (_url: string, init?: RequestInit) => {
+    calls.total++;
+    const headers = new Headers(init?.headers);
+    if (!headers.get("x-payment")) {
+      return Response.json({ x402Version: 1, accepts }, { status: 402 });
+    }
+    calls.paid++;
+    return Response.json({ ok: paidStatus === 200 }, { status: paidStatus });
+  }) as typeof fetch;
+  return { fetchFn, calls };
+}
+
+async function sdkWith(fetchFn: typeof fetch, maxPriceUSDC = 0.05) {
+  return new MDPAgentSDK({
+    baseUrl: "https://mdp.test",
+    fetch: fetchFn,
+    retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1, jitter: false },
+    x402: { signer: await createPrivateKeySigner(KEY), maxPriceUSDC },
+  });
+}
+
+describe("chainIdFromNetwork", () => {
+  it("resolves known networks", () => {
+    expect(chainIdFromNetwork("base")).toBe(8453);
+    expect(chainIdFromNetwork("base-mainnet")).toBe(8453);
+    expect(chainIdFromNetwork("eip155:8453")).toBe(8453);
+    expect(chainIdFromNetwork("base-sepolia")).toBe(84532);
+  });
+
+  it("returns undefined for networks it does not recognize", () => {
+    expect(chainIdFromNetwork("polygon")).toBeUndefined();
+    expect(chainIdFromNetwork("eip155:x")).toBeUndefined();
+    expect(chainIdFromNetwork("eip155:")).toBeUndefined();
+    expect(chainIdFromNetwork(undefined)).toBeUndefined();
+  });
+});
+
+describe("x402 auto-pay", () => {
+  it("pays the mock bazaar and returns the receipt", async () => {
+    const server = createMockMdpServer({ bazaarPriceUSDC: 0.01 });
+    const sdk = new MDPAgentSDK(
+      server.config({ x402: { signer: await createPrivateKeySigner(KEY), maxPriceUSDC: 0.05 } })
+    );
+    const { payment } = await sdk.bazaar.searchJobs({ q: "anything" });
+    expect(payment?.success).toBe(true);
+  });
+
+  it("refuses to pay above maxPriceUSDC", async () => {
+    const server = createMockMdpServer({ bazaarPriceUSDC: 0.1 });
+    const sdk = new MDPAgentSDK(
+      server.config({ x402: { signer: await createPrivateKeySigner(KEY), maxPriceUSDC: 0.05 } })
+    );
+    await expect(sdk.bazaar.searchJobs({ q: "anything" })).rejects.toBeInstanceOf(PaymentRequiredError);
+  });
+
+  it("skips payment options on unknown networks", async () => {
+    const { fetchFn, calls } = gatedFetch([
+      requirement({ network: "polygon" }),
+      requirement({ network: "eip155:x" }),
+    ]);
+    const sdk = await sdkWith(fetchFn);
+    await expect(sdk.bazaar.searchJobs({ q: "x" })).rejects.toBeInstanceOf(PaymentRequiredError);
+    expect(calls.paid).toBe(0);
+  });
+
+  it("does not retry a paid request that failed with a retryable status", async () => {
+    const { fetchFn, calls } = gatedFetch([requirement()], 503);
+    const sdk = await sdkWith(fetchFn);
+    await expect(sdk.bazaar.searchJobs({ q: "x" })).rejects.toBeInstanceOf(ServerError);
+    expect(calls.paid).toBe(1);
+    expect(calls.total).toBe(2);
+  });
+});
@@ -0,0 +1,175 @@
+// ============================================
+// x402 Auto-Pay - 402 Payment Required handling
+// ============================================
+
+import { PaymentRequiredError } from "./types.js";
+import type {
+  HttpMiddleware,
+  X402AutoPayConfig,
+  X402PaymentReceipt,
+  X402PaymentRequired,
+  X402PaymentRequirement,
+} from "./types.js";
+import {
+  chainIdFromNetwork,
+  encodeX402PaymentHeader,
+  parseUSDC,
+  signTransferAuthorization,
+  tokenAddressFromAsset,
+  formatUSDC,
+} from "./payments.js";
+
+/** Request header carrying the signed x402 payment */
+export const X402_PAYMENT_HEADER = "X-PAYMENT";
+
+/** Response header carrying the base64 settlement receipt */
+export const X402_PAYMENT_RESPONSE_HEADER = "X-PAYMENT-RESPONSE";
+
+/**
+ * Create middleware that answers 402 responses by signing an EIP-3009
+ * authorization and retrying the request with an `X-PAYMENT` header.
+ * Installed automatically by HttpClient when `SDKConfig.x402` is set.
+ */
+export function createX402Middleware(config: X402AutoPayConfig): HttpMiddleware {
+  const maxAmount = parseUSDC(config.maxPriceUSDC);
+  const chainIds = config.chainIds ?? [8453];
+
+  return {
+    name: "x402",
+    async onResponse(response, { request, retry }) {
+      // Only pay once per request; a second 402 is surfaced to the caller.
+      if (response.status !== 402 || request.headers[X402_PAYMENT_HEADER]) {
+        return response;
+      }
+
+      const body = await response
+        .clone()
+        .json()
+        .catch(() => undefined);
+      const required = decodePaymentRequired(body, response.headers);
+      if (!required) {
+        return response;
+      }
+
+      const candidates = required.accepts.filter(
+        (r) => {
+          // Unknown networks are never paid: the authorization would be signed for the wrong chain
+          const chainId = chainIdFromNetwork(r.network);
+          return r.scheme === "exact" && chainId !== undefined && chainIds.includes(chainId);
+        }
+      );
+      if (candidates.length === 0) {
+        return response;
+      }
+
+      const requirement = candidates.reduce((cheapest, r) =>
+        BigInt(r.maxAmountRequired) < BigInt(cheapest.maxAmountRequired) ? r : cheapest
+      );
+      const price = BigInt(requirement.maxAmountRequired);
+      if (price > maxAmount) {
+        throw new PaymentRequiredError(
+          `x402 price ${formatUSDC(price)} USDC exceeds configured max ${formatUSDC(maxAmount)} USDC`,
+          required,
+          { method: request.method, path: request.path, response: body }
+        );
+      }
+
+      const { signature, authorization } = await signTransferAuthorization(config.signer, {
+        to: requirement.payTo as `0x${string}`,
+        value: price,
+        chainId: chainIdFromNetwork(requirement.network)!,
+        tokenAddress: tokenAddressFromAsset(requirement.asset),
+        validForSeconds: requirement.maxTimeoutSeconds || undefined,
+        tokenName: requirement.extra?.name,
+        tokenVersion: requirement.extra?.version,
+      });
+
+      const paid = await retry({
+        ...request,
+        headers: {
+          ...request.headers,
+          [X402_PAYMENT_HEADER]: encodeX402PaymentHeader(requirement.network, signature, authorization),
+        },
+      });
+
+      notifyPayment(config, paid, request.method, request.path, requirement);
+      return paid;
+    },
+  };
+}
+
+/**
+ * Decode a base64 `X-PAYMENT-RESPONSE` header into a settlement receipt.
+ * Returns undefined when the header is missing or malformed.
+ */
+export function decodePaymentResponse(header: string | null | undefined): X402PaymentReceipt | undefined {
+  if (!header) return undefined;
+  try {
+    const decoded = JSON.parse(atob(header)) as Partial<X402PaymentReceipt>;
+    return {
+      success: Boolean(decoded.success),
+      transaction: decoded.transaction,
+      network: decoded.network,
+      payer: decoded.payer,
+      errorReason: decoded.errorReason,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decode x402 payment requirements from a 402 response.
+ * Accepts the x402 JSON body (`{ x402Version, accepts }`) or a base64-encoded
+ * `PAYMENT-REQUIRED` header.
+ */
+export function decodePaymentRequired(
+  body: unknown,
+  headers: Headers
+): X402PaymentRequired | undefined {
+  const fromBody = body as Partial<X402PaymentRequired> | undefined;
+  if (fromBody && Array.isArray(fromBody.accepts)) {
+    return {
+      x402Version: Number(fromBody.x402Version ?? 1),
+      error: fromBody.error,
+      accepts: fromBody.accepts,
+    };
+  }
+
+  const header = headers.get("payment-required") ?? headers.get("x-payment-required");
+  if (!header) return undefined;
+  try {
+    const decoded = JSON.parse(atob(header)) as Partial<X402PaymentRequired>;
+    if (!Array.isArray(decoded.accepts)) return undefined;
+    return {
+      x402Version: Number(decoded.x402Version ?? 1),
+      error: decoded.error,
+      accepts: decoded.accepts,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+// ============================================
+// Internal Helpers
+// ============================================
+
+function notifyPayment(
+  config: X402AutoPayConfig,
+  response: Response,
+  method: string,
+  path: string,
+  requirement: X402PaymentRequirement
+): void {
+  if (!config.onPayment) return;
+  try {
+    config.onPayment(decodePaymentResponse(response.headers.get(X402_PAYMENT_RESPONSE_HEADER)), {
+      method,
+      path,
+      requirement,
+    });
+  } catch {
+    // A failing observer must not break the request
+  }
+}